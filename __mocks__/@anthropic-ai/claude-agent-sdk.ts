@@ -50,3 +50,20 @@ function* mockQueryGenerator(): Generator<SDKMessage, void> {
 export function query(_input: QueryInput): Generator<SDKMessage, void> {
   return mockQueryGenerator();
 }
+
+export function tool(
+  name: string,
+  description: string,
+  inputSchema: unknown,
+  handler: (args: unknown, extra: unknown) => unknown,
+) {
+  return { name, description, inputSchema, handler };
+}
+
+export function createSdkMcpServer(options: {
+  name: string;
+  version?: string;
+  tools?: unknown[];
+}) {
+  return { type: 'sdk', name: options.name, instance: options };
+}
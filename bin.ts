@@ -1,6 +1,6 @@
 #!/usr/bin/env node
 import { satisfies } from 'semver';
-import { red } from './src/utils/logging.js';
+import { green, l, red, yellow } from './src/utils/logging.js';
 
 import yargs from 'yargs';
 // @ts-expect-error - yargs/helpers types not available in ESM
@@ -16,10 +16,135 @@ if (!satisfies(process.version, NODE_VERSION_RANGE)) {
   process.exit(1);
 }
 
-import type { WizardOptions } from './src/utils/types.js';
-import { runWizard } from './src/run.js';
+import path from 'path';
+import { resumeWizard, runWizard } from './src/run.js';
 import { isNonInteractiveEnvironment } from './src/utils/environment.js';
+import {
+  DEFAULT_AGENT_MODEL,
+  DEV_SERVER_PORT,
+  ExitCode,
+  getIntegrationDescription,
+  LLM_PROVIDERS,
+} from './src/lib/constants.js';
+import {
+  HEADLESS_TOOL_POLICIES,
+  type HeadlessToolPolicy,
+} from './src/ui/headless.js';
 import ui, { initWizardUI } from './src/utils/ui.js';
+import { findJournal, undoJournal } from './src/utils/journal.js';
+import { getDetectionReport } from './src/lib/config.js';
+import { findCheckpoint } from './src/utils/checkpoint.js';
+import {
+  getEndpoints,
+  initEndpoints,
+  selectProfile,
+} from './src/lib/endpoints.js';
+import { startDevServer } from './src/lib/dev-server.js';
+import { DEFAULT_VERIFY_TIMEOUT_SECONDS } from './src/lib/verifier.js';
+import {
+  auditCoverage,
+  DEFAULT_MIN_COVERAGE,
+  isCovered,
+  type CoverageReport,
+} from './src/lib/coverage-audit.js';
+import { askForWizardLogin } from './src/utils/clack-utils.js';
+import {
+  getUserInfo,
+  LOGIN_METHODS,
+  type LoginMethod,
+} from './src/utils/oauth.js';
+import {
+  clearCredentials,
+  describeCredentialStore,
+  getStoredToken,
+  loadCredentials,
+} from './src/utils/credentials.js';
+
+// Options of the commands that run the agent
+const agentOptions = {
+  'llm-provider': {
+    default: 'raindrop',
+    describe:
+      "Where the agent's LLM requests go: the Raindrop proxy, or your own Anthropic, Bedrock or Vertex account configured in the environment\nenv: RAINDROP_LLM_PROVIDER",
+    choices: LLM_PROVIDERS,
+    type: 'string',
+  },
+  model: {
+    default: DEFAULT_AGENT_MODEL,
+    describe: 'Model the agent uses\nenv: RAINDROP_MODEL',
+    type: 'string',
+  },
+  verify: {
+    default: false,
+    describe:
+      'Verify the integration with an automated smoke test instead of testing it by hand\nenv: RAINDROP_VERIFY',
+    type: 'boolean',
+  },
+  'verify-command': {
+    describe:
+      'Command that runs the smoke test, instead of having the agent write one (implies --verify)\nenv: RAINDROP_VERIFY_COMMAND',
+    type: 'string',
+  },
+  'verify-timeout': {
+    default: DEFAULT_VERIFY_TIMEOUT_SECONDS,
+    describe:
+      'Seconds to wait for the smoke test and its event\nenv: RAINDROP_VERIFY_TIMEOUT',
+    type: 'number',
+  },
+  'otlp-receiver': {
+    default: false,
+    describe:
+      'Receive the OTLP traces of your app locally in the testing phase\nenv: RAINDROP_OTLP_RECEIVER',
+    type: 'boolean',
+  },
+  'test-url': {
+    describe:
+      'Ingestion URL the Raindrop SDK of your app sends to while testing\nenv: RAINDROP_TEST_URL',
+    type: 'string',
+  },
+} as const;
+
+// Options for running without a terminal or a browser login
+const ciOptions = {
+  ci: {
+    default: false,
+    describe:
+      'Run headless: answer prompts automatically and print plain-text progress\nenv: RAINDROP_CI',
+    type: 'boolean',
+  },
+  'ci-tool-policy': {
+    default: 'allow-edits',
+    describe:
+      'How tool approvals are answered in CI mode\nenv: RAINDROP_CI_TOOL_POLICY',
+    choices: HEADLESS_TOOL_POLICIES,
+    type: 'string',
+  },
+  'api-key': {
+    alias: 'write-key',
+    describe:
+      'Raindrop write key to use instead of logging in, together with --access-token\nenv: RAINDROP_WRITE_KEY',
+    type: 'string',
+  },
+  'access-token': {
+    describe:
+      'Raindrop personal access token to use instead of logging in, e.g. in CI\nenv: RAINDROP_ACCESS_TOKEN',
+    type: 'string',
+  },
+  org: {
+    describe:
+      'Raindrop organization (id or name) to set up, if you belong to several\nenv: RAINDROP_ORG',
+    type: 'string',
+  },
+} as const;
+
+// Commands that work without the backend
+const LOCAL_COMMANDS = new Set([
+  'undo',
+  'logout',
+  'audit',
+  'detect',
+  'dev-server',
+]);
 
 yargs(hideBin(process.argv))
   .env('RAINDROP')
@@ -35,6 +160,33 @@ yargs(hideBin(process.argv))
       describe: 'Use default options for all prompts\nenv: RAINDROP_DEFAULT',
       type: 'boolean',
     },
+    profile: {
+      describe:
+        'Endpoint profile: local, dev-server or one from ~/.raindrop-wizard/config.json\nenv: RAINDROP_PROFILE',
+      type: 'string',
+    },
+    'login-method': {
+      default: 'auto',
+      describe:
+        'How to log in: open a browser, or paste the login URL back from any browser (for SSH and containers)\nenv: RAINDROP_LOGIN_METHOD',
+      choices: LOGIN_METHODS,
+      type: 'string',
+    },
+  })
+  // Validate the endpoints before any command talks to the backend. Local
+  // commands resolve them on first use, so an invalid config.json doesn't
+  // block them
+  .middleware((argv) => {
+    if (LOCAL_COMMANDS.has(String(argv._[0]))) {
+      selectProfile(argv.profile);
+      return;
+    }
+    try {
+      initEndpoints(argv.profile);
+    } catch (error) {
+      red(error instanceof Error ? error.message : String(error));
+      process.exit(ExitCode.failure);
+    }
   })
   .command(
     ['$0'],
@@ -57,32 +209,71 @@ yargs(hideBin(process.argv))
           choices: ['python', 'typescript'],
           type: 'string',
         },
+        answers: {
+          describe:
+            'JSON or YAML file that pre-answers the wizard prompts\nenv: RAINDROP_ANSWERS',
+          type: 'string',
+        },
+        'dry-run': {
+          default: false,
+          describe:
+            'Run the agent on a temporary copy of the project and print the changes as a patch\nenv: RAINDROP_DRY_RUN',
+          type: 'boolean',
+        },
+        output: {
+          describe:
+            'With --dry-run, write the patch to this file instead of stdout\nenv: RAINDROP_OUTPUT',
+          type: 'string',
+          implies: 'dry-run',
+        },
+        ...ciOptions,
+        ...agentOptions,
       });
     },
     (argv) => {
       const options = { ...argv };
 
       // TTY check - must use console before Ink is initialized
-      if (isNonInteractiveEnvironment()) {
+      if (!options.ci && isNonInteractiveEnvironment()) {
         red(
           'Raindrop Wizard requires an interactive terminal (TTY) to run.\n' +
             'It appears you are running in a non-interactive environment.\n' +
-            'Please run the wizard in an interactive terminal.',
+            'Please run the wizard in an interactive terminal, or pass --ci to run it headless.',
         );
-        process.exit(1);
+        process.exit(ExitCode.failure);
       }
 
       // Run the async wizard logic
       void (async () => {
-        // Initialize the unified Ink app (single render call)
-        const wizardUI = await initWizardUI();
+        // Initialize the unified Ink app (single render call), or the
+        // headless responder in CI mode
+        const wizardUI = await initWizardUI(
+          options.ci
+            ? {
+                headless: {
+                  toolPolicy: options.ciToolPolicy as HeadlessToolPolicy,
+                  installDir: path.resolve(options['install-dir'] ?? ''),
+                },
+              }
+            : undefined,
+        );
 
         // Display logo through Ink
         ui.addItem({ type: 'logo', text: '' });
 
         try {
-          await runWizard(options as unknown as WizardOptions);
-          process.exit(0);
+          const patch = await runWizard(
+            options as unknown as Parameters<typeof runWizard>[0],
+          );
+          // Ink owns stdout until it unmounts, so the dry-run patch is
+          // printed afterwards
+          wizardUI.unmount();
+          if (patch) {
+            await new Promise<void>((resolve) =>
+              process.stdout.write(patch, () => resolve()),
+            );
+          }
+          process.exit(ExitCode.success);
         } catch (error) {
           ui.addItem({
             type: 'error',
@@ -91,7 +282,7 @@ yargs(hideBin(process.argv))
             }`,
           });
           wizardUI.unmount();
-          process.exit(1);
+          process.exit(ExitCode.failure);
         }
 
         // The wizard completes - unmount the UI
@@ -99,6 +290,431 @@ yargs(hideBin(process.argv))
       })();
     },
   )
+  .command(
+    'undo',
+    'Restore the files changed by a wizard run',
+    (yargs) => {
+      return yargs.options({
+        session: {
+          describe:
+            'Session to undo (defaults to the latest session in the install directory)',
+          type: 'string',
+        },
+        'install-dir': {
+          describe:
+            'Directory Raindrop was installed in\nenv: RAINDROP_INSTALL_DIR',
+          type: 'string',
+        },
+        force: {
+          default: false,
+          describe: 'Also restore files that were changed after the wizard ran',
+          type: 'boolean',
+        },
+      });
+    },
+    (argv) => {
+      void (async () => {
+        const installDir = path.resolve(argv['install-dir'] ?? process.cwd());
+        const journal = await findJournal({
+          sessionId: argv.session,
+          installDir,
+        });
+
+        if (!journal) {
+          red(
+            argv.session
+              ? `No wizard session ${argv.session} found.`
+              : `No wizard session to undo found for ${installDir}.`,
+          );
+          process.exit(ExitCode.failure);
+        }
+
+        try {
+          const { restored, removed, skipped } = await undoJournal(journal, {
+            force: argv.force,
+          });
+          for (const file of restored) {
+            l(`Restored ${path.relative(journal.installDir, file)}`);
+          }
+          for (const file of removed) {
+            l(`Removed ${path.relative(journal.installDir, file)}`);
+          }
+          for (const file of skipped) {
+            yellow(
+              `Skipped ${path.relative(
+                journal.installDir,
+                file,
+              )}: it changed after the wizard ran`,
+            );
+          }
+          if (skipped.length > 0) {
+            red(
+              `Left ${skipped.length} changed files alone. Run \`npx @raindrop/wizard undo --session ${journal.sessionId} --force\` to restore them anyway.`,
+            );
+            process.exit(ExitCode.failure);
+          }
+          green(
+            `Undid wizard session ${journal.sessionId} (${
+              restored.length + removed.length
+            } files).`,
+          );
+          process.exit(ExitCode.success);
+        } catch (error) {
+          red(error instanceof Error ? error.message : String(error));
+          process.exit(ExitCode.failure);
+        }
+      })();
+    },
+  )
+  .command(
+    'resume',
+    'Continue an interrupted wizard run',
+    (yargs) => {
+      return yargs.options({
+        session: {
+          describe:
+            'Session to resume (defaults to the latest unfinished session in the install directory)',
+          type: 'string',
+        },
+        'install-dir': {
+          describe:
+            'Directory Raindrop was being installed in\nenv: RAINDROP_INSTALL_DIR',
+          type: 'string',
+        },
+        ...ciOptions,
+        ...agentOptions,
+      });
+    },
+    (argv) => {
+      // TTY check - must use console before Ink is initialized
+      if (!argv.ci && isNonInteractiveEnvironment()) {
+        red(
+          'Resuming the Raindrop Wizard requires an interactive terminal.\n' +
+            'Pass --ci to resume it headless.',
+        );
+        process.exit(ExitCode.failure);
+      }
+
+      void (async () => {
+        const installDir = path.resolve(argv['install-dir'] ?? process.cwd());
+        const checkpoint = await findCheckpoint({
+          sessionId: argv.session,
+          installDir,
+        });
+
+        if (!checkpoint) {
+          red(
+            argv.session
+              ? `No wizard session ${argv.session} found.`
+              : `No unfinished wizard session found for ${installDir}.`,
+          );
+          process.exit(ExitCode.failure);
+        }
+        if (checkpoint.phase === 'complete') {
+          red(`Wizard session ${checkpoint.sessionId} already completed.`);
+          process.exit(ExitCode.failure);
+        }
+
+        const wizardUI = await initWizardUI(
+          argv.ci
+            ? {
+                headless: {
+                  toolPolicy: argv.ciToolPolicy as HeadlessToolPolicy,
+                  installDir: checkpoint.installDir,
+                },
+              }
+            : undefined,
+        );
+        ui.addItem({ type: 'logo', text: '' });
+
+        try {
+          await resumeWizard(checkpoint, argv);
+          process.exit(ExitCode.success);
+        } catch (error) {
+          ui.addItem({
+            type: 'error',
+            text: `Error: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          });
+          wizardUI.unmount();
+          process.exit(ExitCode.failure);
+        }
+      })();
+    },
+  )
+  .command(
+    'login',
+    'Log in to Raindrop and store the credentials for later runs',
+    (yargs) => yargs,
+    (argv) => {
+      // TTY check - must use console before Ink is initialized
+      if (isNonInteractiveEnvironment()) {
+        red('Logging in to Raindrop requires an interactive terminal.');
+        process.exit(ExitCode.failure);
+      }
+
+      void (async () => {
+        const wizardUI = await initWizardUI();
+        try {
+          const token = await askForWizardLogin({
+            signup: false,
+            force: true,
+            method: argv.loginMethod as LoginMethod | 'auto',
+          });
+          const userInfo = await getUserInfo(token.access_token);
+          const stored = loadCredentials();
+          ui.addItem({
+            type: 'success',
+            text: stored
+              ? `Logged in as ${
+                  userInfo.email
+                } (credentials stored in ${describeCredentialStore(
+                  stored.store,
+                )})`
+              : `Logged in as ${userInfo.email}, but the credentials could not be stored`,
+          });
+          wizardUI.unmount();
+          process.exit(ExitCode.success);
+        } catch (error) {
+          ui.addItem({
+            type: 'error',
+            text: `Error: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          });
+          wizardUI.unmount();
+          process.exit(ExitCode.failure);
+        }
+      })();
+    },
+  )
+  .command(
+    'logout',
+    'Remove the stored Raindrop credentials',
+    (yargs) => yargs,
+    () => {
+      if (clearCredentials()) {
+        green('Logged out of Raindrop.');
+      } else {
+        l('Not logged in.');
+      }
+      process.exit(ExitCode.success);
+    },
+  )
+  .command(
+    'whoami',
+    'Show the Raindrop account the wizard is logged in as',
+    (yargs) => yargs,
+    () => {
+      void (async () => {
+        try {
+          const token = await getStoredToken();
+          if (!token) {
+            red('Not logged in. Run `npx @raindrop/wizard login` to log in.');
+            process.exit(ExitCode.failure);
+          }
+
+          const userInfo = await getUserInfo(token.access_token);
+          l(
+            `Logged in as ${userInfo.email} (${
+              getEndpoints().profile
+            } profile)`,
+          );
+          for (const org of Object.values(userInfo.org_id_to_org_info ?? {})) {
+            l(`  ${org.org_name} (${org.org_id})`);
+          }
+          const stored = loadCredentials();
+          if (stored) {
+            l(`Credentials stored in ${describeCredentialStore(stored.store)}`);
+          }
+          process.exit(ExitCode.success);
+        } catch (error) {
+          red(error instanceof Error ? error.message : String(error));
+          process.exit(ExitCode.failure);
+        }
+      })();
+    },
+  )
+  .command(
+    'detect',
+    'Show how the wizard classifies a project, without running the agent',
+    (yargs) => {
+      return yargs.options({
+        'install-dir': {
+          describe: 'Directory to run detection in\nenv: RAINDROP_INSTALL_DIR',
+          type: 'string',
+        },
+        json: {
+          default: false,
+          describe: 'Print the detection report as JSON',
+          type: 'boolean',
+        },
+      });
+    },
+    (argv) => {
+      void (async () => {
+        const installDir = path.resolve(argv['install-dir'] ?? process.cwd());
+        const report = await getDetectionReport(installDir);
+
+        if (argv.json) {
+          l(JSON.stringify(report, null, 2));
+          process.exit(ExitCode.success);
+        }
+
+        l(`Integration detection for ${installDir}\n`);
+        for (const {
+          integration,
+          confidence,
+          evidence,
+        } of report.integrations) {
+          const preselected = report.preselected.includes(integration)
+            ? ' (preselected)'
+            : '';
+          l(
+            `${getIntegrationDescription(integration)}: ${Math.round(
+              confidence * 100,
+            )}% confidence${preselected}`,
+          );
+          for (const { kind, file, line, text } of evidence) {
+            l(
+              `  ${kind.padEnd(10)} ${
+                line ? `${file}:${line}` : file
+              }  ${text}`,
+            );
+          }
+        }
+        if (report.preselected.length === 0) {
+          red(
+            '\nNo integration detected, the wizard will ask which to set up.',
+          );
+        }
+        process.exit(ExitCode.success);
+      })();
+    },
+  )
+  .command(
+    'audit',
+    'Check that the LLM call sites of a project are instrumented, without running the agent',
+    (yargs) => {
+      return yargs.options({
+        'install-dir': {
+          describe: 'Directory to audit\nenv: RAINDROP_INSTALL_DIR',
+          type: 'string',
+        },
+        'min-coverage': {
+          default: DEFAULT_MIN_COVERAGE,
+          describe:
+            'Exit with an error when fewer call sites are instrumented, in percent\nenv: RAINDROP_MIN_COVERAGE',
+          type: 'number',
+        },
+        json: {
+          default: false,
+          describe: 'Print the audit as JSON',
+          type: 'boolean',
+        },
+      });
+    },
+    (argv) => {
+      void (async () => {
+        const minCoverage = argv['min-coverage'];
+        if (
+          !Number.isFinite(minCoverage) ||
+          minCoverage < 0 ||
+          minCoverage > 100
+        ) {
+          red('--min-coverage must be a number from 0 to 100.');
+          process.exit(ExitCode.failure);
+        }
+
+        const installDir = path.resolve(argv['install-dir'] ?? process.cwd());
+        let report: CoverageReport;
+        try {
+          report = await auditCoverage(installDir);
+        } catch (error) {
+          red(error instanceof Error ? error.message : String(error));
+          process.exit(ExitCode.failure);
+        }
+        const percent = Math.floor(report.coverage * 100);
+        const exitCode =
+          percent < minCoverage ? ExitCode.failure : ExitCode.success;
+
+        if (argv.json) {
+          l(JSON.stringify(report, null, 2));
+          process.exit(exitCode);
+        }
+
+        l(`Raindrop instrumentation coverage for ${installDir}\n`);
+        for (const site of report.sites) {
+          const { integration, file, line, text, issues, unchecked } = site;
+          const where = `${integration.padEnd(13)} ${file}:${line}  ${text}`;
+          if (issues.length > 0) {
+            red(`✖ ${where}: ${issues.join(', ')}`);
+          } else if (unchecked) {
+            l(`? ${where}: ${unchecked}, check it by hand`);
+          } else {
+            l(`✔ ${where}`);
+          }
+        }
+
+        if (report.sites.length === 0) {
+          l('No LLM call sites found.');
+        }
+        const covered = report.sites.filter(isCovered).length;
+        const summary = `\nCoverage: ${covered} of ${report.sites.length} call sites instrumented (${percent}%), minimum ${minCoverage}%`;
+        if (exitCode === ExitCode.success) {
+          green(summary);
+        } else {
+          red(
+            `${summary}. Run the wizard again to instrument the new call sites.`,
+          );
+        }
+        process.exit(exitCode);
+      })();
+    },
+  )
+  .command(
+    'dev-server',
+    'Run a local stand-in for the Raindrop backend, for testing the wizard offline',
+    (yargs) => {
+      return yargs.options({
+        port: {
+          default: DEV_SERVER_PORT,
+          describe: 'Port to listen on',
+          type: 'number',
+        },
+        host: {
+          default: 'localhost',
+          describe: 'Host to listen on',
+          type: 'string',
+        },
+      });
+    },
+    (argv) => {
+      void (async () => {
+        try {
+          const server = await startDevServer({
+            port: argv.port,
+            host: argv.host,
+            onRequest: (method, pathname, status) =>
+              l(`${status} ${method} ${pathname}`),
+          });
+          green(`Raindrop dev server listening on ${server.url}`);
+          l(
+            `Run the wizard against it with --profile dev-server${
+              argv.port === DEV_SERVER_PORT
+                ? ''
+                : ` and RAINDROP_API_URL=${server.url} RAINDROP_OAUTH_URL=${server.url}`
+            }.`,
+          );
+          l(`Point the Raindrop SDK of your app at ${server.url}/v1.`);
+        } catch (error) {
+          red(error instanceof Error ? error.message : String(error));
+          process.exit(ExitCode.failure);
+        }
+      })();
+    },
+  )
   .help()
   .alias('help', 'h')
   .version()
@@ -1,8 +1,18 @@
 // Mock functions must be defined before imports
 const mockRunWizard = jest.fn();
+const mockUnmount = jest.fn();
 
 jest.mock('../run.js', () => ({ runWizard: mockRunWizard }));
 jest.mock('semver', () => ({ satisfies: () => true }));
+// The wizard needs a terminal; the tests run without one
+jest.mock('../utils/environment.js', () => ({
+  isNonInteractiveEnvironment: () => false,
+}));
+jest.mock('../utils/ui.js', () => ({
+  __esModule: true,
+  default: { addItem: jest.fn() },
+  initWizardUI: jest.fn(() => Promise.resolve({ unmount: mockUnmount })),
+}));
 
 describe('CLI argument parsing', () => {
   const originalArgv = process.argv;
@@ -18,6 +28,7 @@ describe('CLI argument parsing', () => {
     delete process.env.RAINDROP_DEBUG;
     delete process.env.RAINDROP_DEFAULT;
     delete process.env.RAINDROP_INSTALL_DIR;
+    delete process.env.RAINDROP_CI;
 
     // Mock process.exit to prevent test runner from exiting
     process.exit = jest.fn() as any;
@@ -40,8 +51,10 @@ describe('CLI argument parsing', () => {
       require('../../bin.ts');
     });
 
-    // Allow yargs to process
-    await new Promise((resolve) => setImmediate(resolve));
+    // The wizard starts after the UI is initialized, a few ticks later
+    for (let tick = 0; tick < 50 && !mockRunWizard.mock.calls.length; tick++) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
   }
 
   /**
@@ -94,6 +107,24 @@ describe('CLI argument parsing', () => {
     );
   });
 
+  describe('--ci flag', () => {
+    test('defaults to false when not specified', async () => {
+      await runCLI([]);
+
+      const args = getLastCallArgs(mockRunWizard);
+      expect(args.ci).toBe(false);
+      expect(args['ci-tool-policy']).toBe('allow-edits');
+    });
+
+    test('can be set together with a tool policy', async () => {
+      await runCLI(['--ci', '--ci-tool-policy', 'deny']);
+
+      const args = getLastCallArgs(mockRunWizard);
+      expect(args.ci).toBe(true);
+      expect(args['ci-tool-policy']).toBe('deny');
+    });
+  });
+
   describe('environment variables', () => {
     test('respects RAINDROP_DEBUG', async () => {
       process.env.RAINDROP_DEBUG = 'true';
@@ -146,4 +177,29 @@ describe('CLI argument parsing', () => {
       expect(args.integration).toBe('typescript');
     });
   });
+
+  describe('--dry-run', () => {
+    test('prints the patch after the UI unmounts', async () => {
+      const patch = 'diff --git a/app.ts b/app.ts\n';
+      mockRunWizard.mockResolvedValueOnce(patch);
+      const write = jest
+        .spyOn(process.stdout, 'write')
+        .mockImplementation((...args: unknown[]) => {
+          (args[args.length - 1] as () => void)();
+          return true;
+        });
+
+      try {
+        await runCLI(['--dry-run']);
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(write).toHaveBeenCalledWith(patch, expect.any(Function));
+        expect(mockUnmount.mock.invocationCallOrder[0]).toBeLessThan(
+          write.mock.invocationCallOrder[0],
+        );
+      } finally {
+        write.mockRestore();
+      }
+    });
+  });
 });
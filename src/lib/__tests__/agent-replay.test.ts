@@ -0,0 +1,167 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import ui from '../../utils/ui.js';
+import { runAgentLoop } from '../agent-interface.js';
+import {
+  createReplayQuery,
+  loadAgentFixture,
+  recordQuery,
+  setAgentQuery,
+  type AgentMessage,
+  type AgentQueryInput,
+} from '../agent-replay.js';
+import type { WizardOptions } from '../../utils/types.js';
+
+jest.mock('../../utils/ui.js', () => ({
+  __esModule: true,
+  default: {
+    addItem: jest.fn(),
+    spinner: () => ({ start: jest.fn(), stop: jest.fn() }),
+    startPersistentInput: jest.fn(),
+    stopPersistentInput: jest.fn(),
+    setAgentState: jest.fn(),
+    toolApproval: jest.fn(),
+  },
+}));
+
+jest.mock('../sdk-path.js', () => ({
+  getClaudeCodeExecutablePath: () => '/claude-code/cli.js',
+}));
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+describe('agent replay', () => {
+  let stateDir: string;
+  let installDir: string;
+
+  beforeEach(() => {
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wizard-state-'));
+    installDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wizard-project-'));
+    fs.cpSync(path.join(FIXTURES_DIR, 'python-openai'), installDir, {
+      recursive: true,
+    });
+    process.env.RAINDROP_WIZARD_STATE_DIR = stateDir;
+  });
+
+  afterEach(() => {
+    setAgentQuery();
+    jest.clearAllMocks();
+    delete process.env.RAINDROP_WIZARD_STATE_DIR;
+    fs.rmSync(stateDir, { recursive: true, force: true });
+    fs.rmSync(installDir, { recursive: true, force: true });
+  });
+
+  function wizardOptions(): WizardOptions {
+    return {
+      debug: false,
+      forceInstall: false,
+      installDir,
+      default: false,
+      ci: false,
+      dryRun: false,
+      sessionId: 'wizard-session',
+      compiledSetup: '',
+    };
+  }
+
+  test('replays a run with an interrupt and a resumed session', async () => {
+    const toolApproval = jest.mocked(ui.toolApproval);
+    toolApproval.mockImplementation(({ input }) =>
+      Promise.resolve({ behavior: 'allow', updatedInput: input }),
+    );
+
+    // Interrupt the agent by submitting a message, like the user did
+    const replay = createReplayQuery(
+      loadAgentFixture(path.join(FIXTURES_DIR, 'python-openai.agent.json')),
+      {
+        onInterrupt: () => {
+          const [{ onSubmit }] = jest.mocked(ui.startPersistentInput).mock
+            .calls[0];
+          onSubmit('Use the async client');
+        },
+      },
+    );
+    setAgentQuery(replay);
+
+    const result = await runAgentLoop(
+      { workingDirectory: installDir, mcpServers: {}, model: 'model' },
+      'Integrate Raindrop into this project',
+      wizardOptions(),
+      { accessToken: 'token', orgId: 'org-1' },
+    );
+
+    expect(result).toEqual(
+      expect.objectContaining({ sessionId: 'session-1', completed: true }),
+    );
+    expect(replay.report.mismatches).toEqual([]);
+    expect(replay.report.decisions).toEqual([
+      { toolName: 'Bash', recorded: 'allow', actual: 'allow' },
+      { toolName: 'Write', recorded: 'deny', actual: 'deny' },
+      { toolName: 'Edit', recorded: 'allow', actual: 'allow' },
+    ]);
+    // Only the edit after the resume needed the user's approval
+    expect(toolApproval).toHaveBeenCalledTimes(1);
+    expect(toolApproval.mock.calls[0][0].fileName).toBe(
+      path.join(installDir, 'app.py'),
+    );
+    expect(ui.addItem).toHaveBeenCalledWith({
+      type: 'user-message',
+      text: 'Use the async client',
+    });
+  });
+
+  test('records queries with the install directory as a placeholder', async () => {
+    const fixturePath = path.join(stateDir, 'recorded.agent.json');
+    const messages: AgentMessage[] = [
+      { type: 'system', subtype: 'init', session_id: 'session-1' },
+      { type: 'result', subtype: 'success', session_id: 'session-1' },
+    ];
+    const agentQuery = (input: AgentQueryInput) => {
+      async function* run() {
+        await input.options?.canUseTool?.(
+          'Read',
+          { file_path: path.join(installDir, 'app.py') },
+          { signal: new AbortController().signal },
+        );
+        yield* messages;
+      }
+      return Object.assign(run(), { interrupt: () => Promise.resolve() });
+    };
+
+    const recorded = recordQuery(
+      agentQuery,
+      fixturePath,
+    )({
+      prompt: 'Integrate Raindrop',
+      options: {
+        cwd: installDir,
+        canUseTool: (_toolName, input) =>
+          Promise.resolve({ behavior: 'allow', updatedInput: input }),
+      },
+    });
+    const received: AgentMessage[] = [];
+    for await (const message of recorded) {
+      received.push(message);
+    }
+
+    expect(received).toEqual(messages);
+    expect(loadAgentFixture(fixturePath).queries).toEqual([
+      {
+        prompt: 'Integrate Raindrop',
+        events: [
+          {
+            type: 'tool',
+            toolName: 'Read',
+            input: { file_path: '{{installDir}}/app.py' },
+            result: {
+              behavior: 'allow',
+              updatedInput: { file_path: '{{installDir}}/app.py' },
+            },
+          },
+          ...messages.map((message) => ({ type: 'message', message })),
+        ],
+      },
+    ]);
+  });
+});
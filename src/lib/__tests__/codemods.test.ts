@@ -0,0 +1,124 @@
+import { addAiSdkTelemetry, instrumentAiClients } from '../codemods.js';
+
+describe('codemods', () => {
+  test('enables telemetry on Vercel AI SDK calls and keeps formatting', () => {
+    const source = `import { generateText, streamText as stream } from 'ai';
+import * as ai from 'ai';
+
+export async function chat(prompt: string) {
+  const { text } = await generateText({
+    model,
+    prompt, // the user's message
+  });
+  const result = stream({ model, prompt, experimental_telemetry: { isEnabled: false } });
+  await ai.generateObject({ model, schema, experimental_telemetry: { functionId: 'x' } });
+  await generateText(options);
+  return text;
+}
+`;
+
+    const result = addAiSdkTelemetry(source, { functionId: 'chat' });
+
+    expect(result.code)
+      .toBe(`import { generateText, streamText as stream } from 'ai';
+import * as ai from 'ai';
+
+export async function chat(prompt: string) {
+  const { text } = await generateText({
+    model,
+    prompt, experimental_telemetry: { isEnabled: true, functionId: "chat" }, // the user's message
+  });
+  const result = stream({ model, prompt, experimental_telemetry: { isEnabled: true } });
+  await ai.generateObject({ model, schema, experimental_telemetry: { functionId: 'x', isEnabled: true } });
+  await generateText(options);
+  return text;
+}
+`);
+    expect(result.changes).toHaveLength(3);
+    expect(result.skipped).toEqual([
+      'line 11: generateText (its options are not an object literal)',
+    ]);
+    expect(addAiSdkTelemetry(result.code).changes).toEqual([]);
+  });
+
+  test('ignores functions not imported from ai', () => {
+    const source = `import { generateText } from './llm';
+generateText({ prompt });
+`;
+    expect(addAiSdkTelemetry(source).code).toBe(source);
+  });
+
+  test('passes the AI modules to the Raindrop constructor', () => {
+    const source = `'use server';
+import { Raindrop } from 'raindrop-ai';
+import OpenAIClient from 'openai';
+
+export const raindrop = new Raindrop({ writeKey: process.env.RAINDROP_WRITE_KEY });
+`;
+
+    const result = instrumentAiClients(source, ['openai', 'anthropic']);
+
+    expect(result.code).toBe(`'use server';
+import { Raindrop } from 'raindrop-ai';
+import OpenAIClient from 'openai';
+import * as AnthropicModule from "@anthropic-ai/sdk";
+
+export const raindrop = new Raindrop({ writeKey: process.env.RAINDROP_WRITE_KEY, instrumentModules: { openAI: OpenAIClient, anthropic: AnthropicModule } });
+`);
+    expect(instrumentAiClients(result.code, ['openai']).changes).toEqual([]);
+  });
+
+  test('extends existing instrumentModules', () => {
+    const source = `import OpenAI from 'openai';
+const raindrop = new Raindrop({
+  writeKey,
+  instrumentModules: { openAI: OpenAI },
+});
+`;
+
+    expect(instrumentAiClients(source, ['openai', 'anthropic']).code)
+      .toBe(`import OpenAI from 'openai';
+import * as AnthropicModule from "@anthropic-ai/sdk";
+const raindrop = new Raindrop({
+  writeKey,
+  instrumentModules: { openAI: OpenAI, anthropic: AnthropicModule },
+});
+`);
+  });
+
+  test('reuses named imports and avoids names already in use', () => {
+    const source = `import { OpenAI } from 'openai';
+import { Raindrop } from 'raindrop-ai';
+
+const AnthropicModule = loadAnthropic();
+const raindrop = new Raindrop({ writeKey });
+`;
+
+    expect(instrumentAiClients(source, ['openai', 'anthropic']).code)
+      .toBe(`import { OpenAI } from 'openai';
+import { Raindrop } from 'raindrop-ai';
+import * as AnthropicModule2 from "@anthropic-ai/sdk";
+
+const AnthropicModule = loadAnthropic();
+const raindrop = new Raindrop({ writeKey, instrumentModules: { openAI: OpenAI, anthropic: AnthropicModule2 } });
+`);
+  });
+
+  test('skips CommonJS modules', () => {
+    const source = `const { Raindrop } = require('raindrop-ai');
+const raindrop = new Raindrop({ writeKey });
+`;
+
+    const result = instrumentAiClients(source, ['openai']);
+
+    expect(result.code).toBe(source);
+    expect(result.changes).toEqual([]);
+    expect(result.skipped).toHaveLength(1);
+  });
+
+  test('fails without a Raindrop constructor', () => {
+    expect(() => instrumentAiClients('const a = 1;', ['openai'])).toThrow(
+      'no `new Raindrop',
+    );
+  });
+});
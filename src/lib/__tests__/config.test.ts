@@ -0,0 +1,93 @@
+import { Integration } from '../constants.js';
+import {
+  detectAiIntegration,
+  detectIntegrations,
+  getDetectionReport,
+} from '../config.js';
+import { useTempProject } from './temp-project.no-jest.js';
+
+describe('detectIntegrations', () => {
+  const project = useTempProject('wizard-config-');
+
+  test('returns every integration of a polyglot repository', async () => {
+    project.write('backend/requirements.txt', 'fastapi\n');
+    project.write('backend/app.py', 'from anthropic import Anthropic\n');
+    project.write('frontend/tsconfig.json', '{}');
+    project.write(
+      'frontend/app/api/chat/route.ts',
+      "import { streamText } from 'ai';\n",
+    );
+
+    const detected = await detectIntegrations({ installDir: project.dir });
+
+    expect(
+      detected.map(({ integration, confidence }) => [integration, confidence]),
+    ).toEqual([
+      [Integration.python, 0.9],
+      // A Vercel AI SDK project is not also offered as a TypeScript project
+      [Integration.vercelAiSdk, 0.9],
+    ]);
+    expect(detected[0].evidence).toEqual([
+      {
+        kind: 'import',
+        file: 'backend/app.py',
+        line: 1,
+        text: 'from anthropic import Anthropic',
+      },
+    ]);
+  });
+
+  test('scores evidence of AI SDK usage above the project language', async () => {
+    project.write('tsconfig.json', '{}');
+    project.write('requirements.txt', 'openai==1.0.0\n');
+
+    const detected = await detectIntegrations({ installDir: project.dir });
+
+    expect(
+      detected.map(({ integration, confidence }) => [integration, confidence]),
+    ).toEqual([
+      [Integration.python, 0.7],
+      [Integration.typescript, 0.3],
+    ]);
+    expect(detected[1].evidence).toEqual([
+      { kind: 'language', file: 'tsconfig.json', text: expect.any(String) },
+    ]);
+  });
+
+  test('records manifest entries with their line numbers', async () => {
+    project.write(
+      'pyproject.toml',
+      '[project]\nname = "bot"\ndependencies = [\n  "fastapi",\n  "openai>=1.0",\n  "openai-whisper",\n]\n',
+    );
+
+    const report = await getDetectionReport(project.dir);
+
+    expect(report.preselected).toEqual([Integration.python]);
+    expect(report.integrations[0].evidence).toEqual([
+      {
+        kind: 'dependency',
+        file: 'pyproject.toml',
+        line: 5,
+        text: '"openai>=1.0",',
+      },
+    ]);
+  });
+
+  test('a TypeScript project without an AI SDK is not an AI integration', async () => {
+    project.write('tsconfig.json', '{}');
+    project.write('package.json', JSON.stringify({ name: 'web' }));
+
+    expect(
+      await detectAiIntegration({ installDir: project.dir }),
+    ).toBeUndefined();
+
+    project.write(
+      'package.json',
+      JSON.stringify({ dependencies: { '@anthropic-ai/sdk': '^0.30.0' } }),
+    );
+
+    expect(await detectAiIntegration({ installDir: project.dir })).toBe(
+      Integration.typescript,
+    );
+  });
+});
@@ -0,0 +1,113 @@
+import path from 'path';
+import { Integration } from '../constants.js';
+import { auditCoverage, isCovered } from '../coverage-audit.js';
+import { useTempProject } from './temp-project.no-jest.js';
+
+describe('auditCoverage', () => {
+  const project = useTempProject('wizard-audit-');
+
+  test('reports the call sites added without instrumentation', async () => {
+    project.write(
+      'backend/chat.py',
+      [
+        'import raindrop.analytics as raindrop',
+        'from openai import OpenAI',
+        '',
+        'raindrop.track_ai(user_id="user_1", event="chat")',
+        '',
+      ].join('\n'),
+    );
+    project.write('backend/summarize.py', 'from anthropic import Anthropic\n');
+    project.write(
+      'web/route.ts',
+      [
+        "import { generateText, streamText } from 'ai';",
+        '',
+        'await generateText({',
+        '  model,',
+        '  experimental_telemetry: {',
+        '    isEnabled: true,',
+        '    metadata: { ...raindrop.metadata({ userId }) },',
+        '  },',
+        '});',
+        'await streamText({ model });',
+        'await generateText(settings);',
+        '',
+      ].join('\n'),
+    );
+    project.write('web/node_modules/ai/index.js', "import 'openai';\n");
+
+    const report = await auditCoverage(project.dir);
+
+    expect(
+      report.sites.map((site) => ({
+        integration: site.integration,
+        file: site.file,
+        line: site.line,
+        covered: isCovered(site),
+      })),
+    ).toEqual([
+      {
+        integration: Integration.vercelAiSdk,
+        file: 'web/route.ts',
+        line: 3,
+        covered: true,
+      },
+      {
+        integration: Integration.vercelAiSdk,
+        file: 'web/route.ts',
+        line: 10,
+        covered: false,
+      },
+      {
+        integration: Integration.vercelAiSdk,
+        file: 'web/route.ts',
+        line: 11,
+        covered: false,
+      },
+      {
+        integration: Integration.python,
+        file: 'backend/chat.py',
+        line: 2,
+        covered: true,
+      },
+      {
+        integration: Integration.python,
+        file: 'backend/summarize.py',
+        line: 1,
+        covered: false,
+      },
+    ]);
+    expect(report.sites[2].unchecked).toBeDefined();
+    expect(report.coverage).toBe(0.4);
+  });
+
+  test('counts files that cannot be parsed as not covered', async () => {
+    project.write(
+      'web/route.ts',
+      "import { generateText } from 'ai';\n\nexport const broken = {;\n",
+    );
+
+    const report = await auditCoverage(project.dir);
+
+    expect(report.sites).toEqual([
+      expect.objectContaining({
+        file: 'web/route.ts',
+        unchecked: 'the file could not be parsed',
+      }),
+    ]);
+    expect(report.coverage).toBe(0);
+  });
+
+  test('counts a project without call sites as covered', async () => {
+    project.write('index.ts', 'export const a = 1;\n');
+
+    expect((await auditCoverage(project.dir)).coverage).toBe(1);
+  });
+
+  test('fails when the directory does not exist', async () => {
+    await expect(
+      auditCoverage(path.join(project.dir, 'missing')),
+    ).rejects.toThrow('is not a directory');
+  });
+});
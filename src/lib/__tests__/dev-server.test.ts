@@ -0,0 +1,217 @@
+import otlpRoot from '@opentelemetry/otlp-transformer/build/src/generated/root.js';
+import {
+  DEV_ACCESS_TOKEN,
+  DEV_ORG,
+  DEV_WRITE_KEY,
+  startDevServer,
+  type DevServer,
+} from '../dev-server.js';
+
+// Static protobuf code generated from the OTLP protos, as in otlp.ts
+const { ExportTraceServiceRequest } = (
+  otlpRoot as unknown as {
+    opentelemetry: {
+      proto: {
+        collector: {
+          trace: {
+            v1: {
+              ExportTraceServiceRequest: {
+                fromObject(object: unknown): unknown;
+                encode(message: unknown): { finish(): Uint8Array };
+              };
+            };
+          };
+        };
+      };
+    };
+  }
+).opentelemetry.proto.collector.trace.v1;
+
+describe('dev server', () => {
+  let server: DevServer;
+
+  beforeEach(async () => {
+    server = await startDevServer({ port: 0 });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  const auth = { Authorization: `Bearer ${DEV_ACCESS_TOKEN}` };
+
+  async function listEvents(wizardSession: string) {
+    const response = await fetch(`${server.url}/api/cli/events/list`, {
+      headers: { ...auth, 'x-wizard-session': wizardSession },
+    });
+    return (await response.json()) as Record<string, unknown>[];
+  }
+
+  test('logs in and hands out the dev write key', async () => {
+    const authorize = await fetch(
+      `${
+        server.url
+      }/propelauth/oauth/authorize?redirect_uri=${encodeURIComponent(
+        'http://localhost:8259/callback',
+      )}&state=state-1`,
+      { redirect: 'manual' },
+    );
+    expect(authorize.status).toBe(302);
+    expect(authorize.headers.get('location')).toBe(
+      'http://localhost:8259/callback?code=dev-code&state=state-1',
+    );
+
+    const userinfo = await fetch(`${server.url}/propelauth/oauth/userinfo`, {
+      headers: auth,
+    });
+    expect(await userinfo.json()).toEqual(
+      expect.objectContaining({
+        org_id_to_org_info: { [DEV_ORG.org_id]: DEV_ORG },
+      }),
+    );
+
+    const key = await fetch(`${server.url}/api/cli/users/key`, {
+      headers: { ...auth, 'x-org-id': DEV_ORG.org_id },
+    });
+    expect(await key.json()).toEqual({
+      api_key: DEV_WRITE_KEY,
+      org_id: DEV_ORG.org_id,
+    });
+  });
+
+  test('serves tracked events and signals back by wizard session', async () => {
+    const track = (path: string, body: unknown, wizardSession: string) =>
+      fetch(`${server.url}/v1/${path}`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${DEV_WRITE_KEY}`,
+          'Content-Type': 'application/json',
+          'x-wizard-session': wizardSession,
+        },
+        body: JSON.stringify(body),
+      });
+
+    await track(
+      'events/track',
+      [
+        {
+          event_id: 'event-1',
+          user_id: 'user-1',
+          event: 'chat_message',
+          ai_data: { model: 'gpt-4o-mini', input: 'Hi', output: 'Hello' },
+          attachments: [{ type: 'text', value: 'doc', role: 'input' }],
+        },
+      ],
+      'session-1',
+    );
+    await track(
+      'signals/track',
+      [{ event_id: 'event-1', signal_name: 'thumbs_up' }],
+      'session-1',
+    );
+    await track('events/track', { event: 'other' }, 'session-2');
+
+    expect(await listEvents('session-1')).toEqual([
+      expect.objectContaining({
+        id: 'event-1',
+        name: 'chat_message',
+        userId: 'user-1',
+        aiData: expect.objectContaining({
+          model: 'gpt-4o-mini',
+          input: 'Hi',
+          output: 'Hello',
+        }) as unknown,
+        inputAttachments: [{ type: 'text', value: 'doc', role: 'input' }],
+        signals: [{ event_id: 'event-1', signal_name: 'thumbs_up' }],
+      }),
+    ]);
+  });
+
+  test('turns OTLP protobuf traces into one event per AI trace', async () => {
+    const stringAttribute = (key: string, value: string) => ({
+      key,
+      value: { stringValue: value },
+    });
+    const request = ExportTraceServiceRequest.fromObject({
+      resourceSpans: [
+        {
+          resource: { attributes: [stringAttribute('service.name', 'app')] },
+          scopeSpans: [
+            {
+              spans: [
+                {
+                  traceId: Buffer.from(
+                    '0af7651916cd43dd8448eb211c80319c',
+                    'hex',
+                  ),
+                  spanId: Buffer.from('b7ad6b7169203331', 'hex'),
+                  parentSpanId: Buffer.from('00f067aa0ba902b7', 'hex'),
+                  name: 'ai.generateText.doGenerate',
+                  startTimeUnixNano: '1760000000500000000',
+                  attributes: [
+                    stringAttribute('ai.model.id', 'gpt-4o'),
+                    stringAttribute('ai.response.text', 'Once upon a time'),
+                  ],
+                },
+                {
+                  traceId: Buffer.from(
+                    '0af7651916cd43dd8448eb211c80319c',
+                    'hex',
+                  ),
+                  spanId: Buffer.from('00f067aa0ba902b7', 'hex'),
+                  name: 'ai.generateText',
+                  startTimeUnixNano: '1760000000000000000',
+                  attributes: [
+                    stringAttribute('ai.model.id', 'gpt-4o'),
+                    stringAttribute('ai.prompt', 'Write a story'),
+                    stringAttribute('ai.response.text', 'Once upon a time'),
+                    stringAttribute(
+                      'ai.telemetry.metadata.raindrop.userId',
+                      'user-1',
+                    ),
+                    stringAttribute(
+                      'ai.telemetry.metadata.raindrop.wizardSession',
+                      'session-1',
+                    ),
+                  ],
+                },
+                {
+                  traceId: Buffer.from(
+                    '1bf7651916cd43dd8448eb211c80319c',
+                    'hex',
+                  ),
+                  spanId: Buffer.from('c7ad6b7169203331', 'hex'),
+                  name: 'GET /health',
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+
+    const response = await fetch(`${server.url}/v1/traces`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-protobuf' },
+      body: ExportTraceServiceRequest.encode(request).finish(),
+    });
+    expect(response.status).toBe(200);
+
+    const events = await listEvents('session-1');
+    expect(events).toEqual([
+      expect.objectContaining({
+        id: 'trace-0af7651916cd43dd8448eb211c80319c',
+        name: 'ai.generateText',
+        timestamp: '2025-10-09T08:53:20.000Z',
+        userId: 'user-1',
+        format: 'otel',
+        aiData: expect.objectContaining({
+          model: 'gpt-4o',
+          input: 'Write a story',
+          output: 'Once upon a time',
+        }) as unknown,
+      }),
+    ]);
+    expect(events[0].spans).toHaveLength(2);
+  });
+});
@@ -0,0 +1,111 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  getEndpoints,
+  getProfileName,
+  resolveEndpoints,
+  selectProfile,
+} from '../endpoints.js';
+
+describe('resolveEndpoints', () => {
+  let stateDir: string;
+
+  beforeEach(() => {
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wizard-state-'));
+    process.env.RAINDROP_WIZARD_STATE_DIR = stateDir;
+  });
+
+  afterEach(() => {
+    delete process.env.RAINDROP_WIZARD_STATE_DIR;
+    delete process.env.RAINDROP_PROFILE;
+    delete process.env.RAINDROP_LLM_PROXY_URL;
+    fs.rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  function writeConfig(config: unknown) {
+    fs.writeFileSync(
+      path.join(stateDir, 'config.json'),
+      JSON.stringify(config),
+      'utf-8',
+    );
+  }
+
+  test('derives every endpoint from a built-in profile', () => {
+    expect(resolveEndpoints()).toEqual(
+      expect.objectContaining({
+        profile: 'local',
+        oauthTokenUrl:
+          'https://9260183011.propelauthtest.com/propelauth/oauth/token',
+        writeKeyUrl: 'http://localhost:3000/api/cli/users/key',
+        eventsListUrl: 'http://localhost:3000/api/cli/events/list',
+        sessionStartUrl: 'http://localhost:3000/api/cli/session/init',
+        llmProxyUrl: 'http://localhost:3000/api/cli',
+      }),
+    );
+  });
+
+  test('uses custom profiles from the config file and env overrides', () => {
+    writeConfig({
+      profile: 'self-hosted',
+      profiles: {
+        'self-hosted': {
+          apiUrl: 'https://raindrop.example.com/',
+          oauthUrl: 'https://auth.example.com',
+          oauthClientId: 'client-1',
+        },
+      },
+    });
+    process.env.RAINDROP_LLM_PROXY_URL = 'https://llm.example.com';
+
+    expect(resolveEndpoints()).toEqual(
+      expect.objectContaining({
+        profile: 'self-hosted',
+        oauthClientId: 'client-1',
+        writeKeyUrl: 'https://raindrop.example.com/api/cli/users/key',
+        llmProxyUrl: 'https://llm.example.com',
+      }),
+    );
+  });
+
+  test('rejects unknown profiles and insecure URLs', () => {
+    expect(() => resolveEndpoints('missing')).toThrow(
+      'Unknown profile "missing"',
+    );
+
+    writeConfig({
+      profiles: {
+        intranet: {
+          apiUrl: 'http://raindrop.internal',
+          oauthUrl: 'https://auth.example.com',
+        },
+      },
+    });
+    expect(() => resolveEndpoints('intranet')).toThrow('must use https');
+  });
+
+  test('requires an OAuth client id for custom profiles', () => {
+    writeConfig({
+      profiles: {
+        hosted: {
+          apiUrl: 'https://raindrop.example.com',
+          oauthUrl: 'https://auth.example.com',
+        },
+      },
+    });
+    expect(() => resolveEndpoints('hosted')).toThrow(
+      'Profile "hosted" has no oauthClientId',
+    );
+  });
+
+  test('names the selected profile even when the config file is invalid', () => {
+    fs.writeFileSync(path.join(stateDir, 'config.json'), '{bad', 'utf-8');
+
+    selectProfile('dev-server');
+    expect(getProfileName()).toBe('dev-server');
+    expect(() => getEndpoints()).toThrow(/Could not parse .*config\.json/);
+
+    selectProfile(undefined);
+    expect(getProfileName()).toBe('local');
+  });
+});
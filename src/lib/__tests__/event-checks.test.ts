@@ -0,0 +1,53 @@
+import { checkEvents, detectFeatures } from '../event-checks.js';
+import type { ApiEvent } from '../test-server.js';
+
+describe('event checks', () => {
+  test('detects the chosen features from the features question', () => {
+    expect(
+      detectFeatures({
+        'Which features would you like to integrate with Raindrop?':
+          'Identifying Users, Tracking Signals',
+        'Which file holds the chat route?': 'src/attachments.ts',
+      }),
+    ).toEqual(['identifyingUsers', 'signals']);
+  });
+
+  test('reports missing fields per chosen feature', () => {
+    const event = (id: string, fields: Partial<ApiEvent>): ApiEvent => ({
+      id,
+      name: 'chat',
+      aiData: { model: 'gpt-4o', input: 'Hi', output: 'Hello' },
+      ...fields,
+    });
+    const events = [
+      event('1', { userId: 'user-1', signals: [{ name: 'thumbs_up' }] }),
+      event('2', {}),
+      event('3', { aiData: { model: 'gpt-4o', input: 'Hi' } }),
+    ];
+
+    expect(
+      checkEvents(events, ['identifyingUsers', 'signals', 'attachments']),
+    ).toEqual([
+      expect.objectContaining({
+        feature: 'tracking',
+        passed: false,
+        detail: 'output missing on 1/3 events',
+      }),
+      expect.objectContaining({
+        name: 'Identifying Users',
+        passed: false,
+        detail: 'userId missing on 2/3 events',
+      }),
+      expect.objectContaining({
+        feature: 'attachments',
+        passed: false,
+        detail: 'no event has attachments',
+      }),
+      expect.objectContaining({
+        feature: 'signals',
+        passed: true,
+        detail: 'signals on 1/3 events',
+      }),
+    ]);
+  });
+});
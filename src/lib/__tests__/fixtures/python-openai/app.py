@@ -0,0 +1,15 @@
+from openai import OpenAI
+
+client = OpenAI()
+
+
+def answer(question: str) -> str:
+    response = client.chat.completions.create(
+        model="gpt-4o-mini",
+        messages=[{"role": "user", "content": question}],
+    )
+    return response.choices[0].message.content
+
+
+if __name__ == "__main__":
+    print(answer("What is Raindrop?"))
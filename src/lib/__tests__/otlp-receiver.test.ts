@@ -0,0 +1,86 @@
+import { startOtlpReceiver, type OtlpReceiver } from '../otlp-receiver.js';
+import type { ApiEvent } from '../test-server.js';
+
+describe('OTLP receiver', () => {
+  let receiver: OtlpReceiver;
+  const events: ApiEvent[] = [];
+
+  beforeEach(async () => {
+    events.length = 0;
+    receiver = await startOtlpReceiver({
+      port: 0,
+      onEvent: (event) => events.push(event),
+    });
+  });
+
+  afterEach(async () => {
+    await receiver.close();
+  });
+
+  const exportSpans = (spans: Record<string, unknown>[]) =>
+    fetch(receiver.tracesUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ resourceSpans: [{ scopeSpans: [{ spans }] }] }),
+    });
+
+  const attribute = (key: string, value: string) => ({
+    key,
+    value: { stringValue: value },
+  });
+
+  test('turns exported AI spans into events of their trace', async () => {
+    const response = await exportSpans([
+      {
+        traceId: '0af7651916cd43dd8448eb211c80319c',
+        spanId: 'b7ad6b7169203331',
+        parentSpanId: '00f067aa0ba902b7',
+        name: 'ai.generateText.doGenerate',
+        attributes: [attribute('gen_ai.request.model', 'gpt-4o')],
+      },
+      {
+        traceId: '1bf7651916cd43dd8448eb211c80319c',
+        spanId: 'c7ad6b7169203331',
+        name: 'GET /health',
+      },
+    ]);
+    expect(response.status).toBe(200);
+
+    await exportSpans([
+      {
+        traceId: '0af7651916cd43dd8448eb211c80319c',
+        spanId: '00f067aa0ba902b7',
+        name: 'ai.generateText',
+        attributes: [
+          attribute('ai.model.id', 'gpt-4o'),
+          attribute('ai.prompt', 'Write a story'),
+          attribute('ai.response.text', 'Once upon a time'),
+          attribute('ai.telemetry.metadata.userId', 'user-1'),
+        ],
+      },
+    ]);
+
+    expect(events).toHaveLength(2);
+    expect(events[1]).toEqual(
+      expect.objectContaining({
+        id: 'trace-0af7651916cd43dd8448eb211c80319c',
+        name: 'ai.generateText',
+        userId: 'user-1',
+        aiData: expect.objectContaining({
+          input: 'Write a story',
+          output: 'Once upon a time',
+        }) as unknown,
+      }),
+    );
+    expect(events[1].spans).toHaveLength(2);
+  });
+
+  test('rejects requests it cannot decode', async () => {
+    const response = await fetch(receiver.tracesUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: 'not json',
+    });
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,245 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  loadPermissionPolicy,
+  evaluatePermission,
+  matchCommand,
+  targetsPermissionsFile,
+  DEFAULT_PERMISSION_POLICY,
+  PERMISSIONS_FILE,
+  type PermissionPolicy,
+} from '../permissions.js';
+
+describe('permissions', () => {
+  const installDir = '/project';
+
+  function policy(overrides: Partial<PermissionPolicy>): PermissionPolicy {
+    return { ...DEFAULT_PERMISSION_POLICY, ...overrides };
+  }
+
+  describe('loadPermissionPolicy', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wizard-permissions-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    function writePolicy(content: string) {
+      fs.mkdirSync(path.join(tmpDir, '.raindrop-wizard'));
+      fs.writeFileSync(path.join(tmpDir, PERMISSIONS_FILE), content);
+    }
+
+    test('returns the default policy when the file does not exist', async () => {
+      await expect(loadPermissionPolicy(tmpDir)).resolves.toEqual(
+        DEFAULT_PERMISSION_POLICY,
+      );
+    });
+
+    test('parses rules and fills in defaults', async () => {
+      writePolicy(
+        JSON.stringify({
+          deny: [{ tool: 'Bash', command: 'npx *' }],
+        }),
+      );
+
+      await expect(loadPermissionPolicy(tmpDir)).resolves.toEqual({
+        builtinSafeCommands: true,
+        allow: [],
+        ask: [],
+        deny: [{ tool: 'Bash', command: 'npx *' }],
+      });
+    });
+
+    test('rejects unknown tools and keys', async () => {
+      writePolicy(JSON.stringify({ allow: [{ tool: 'Read', glob: '*' }] }));
+
+      await expect(loadPermissionPolicy(tmpDir)).rejects.toThrow(
+        /Invalid .*permissions\.json: allow\.0\.tool/,
+      );
+    });
+  });
+
+  describe('command matching', () => {
+    test('trailing * matches any remaining arguments', () => {
+      expect(matchCommand(['npx'], 'npx *')).toBe(true);
+      expect(matchCommand(['npx', 'prettier', '.'], 'npx *')).toBe(true);
+      expect(matchCommand(['npm', 'install'], 'npx *')).toBe(false);
+    });
+
+    test('matches whole words rather than string prefixes', () => {
+      expect(matchCommand(['npm', 'installer'], 'npm install *')).toBe(false);
+      expect(
+        matchCommand(['docker', 'compose', 'up', '-d'], 'docker compose up *'),
+      ).toBe(true);
+      expect(matchCommand(['docker', 'compose', 'up'], 'docker compose')).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('evaluatePermission', () => {
+    test('deny wins over ask and allow', () => {
+      const result = evaluatePermission(
+        policy({
+          allow: [{ tool: 'Bash', command: 'npx *' }],
+          ask: [{ tool: 'Bash', command: 'npx *' }],
+          deny: [{ tool: 'Bash', command: 'npx prisma *' }],
+        }),
+        'Bash',
+        { command: 'npx prisma migrate reset' },
+        installDir,
+      );
+
+      expect(result?.decision).toBe('deny');
+      expect(result?.rule.command).toBe('npx prisma *');
+    });
+
+    test('Bash deny rules match any segment of a compound command', () => {
+      const rules = policy({
+        deny: [{ tool: 'Bash', command: 'docker compose up *' }],
+      });
+
+      expect(
+        evaluatePermission(
+          rules,
+          'Bash',
+          { command: 'cd app && docker compose up -d' },
+          installDir,
+        )?.decision,
+      ).toBe('deny');
+      expect(
+        evaluatePermission(
+          rules,
+          'Bash',
+          { command: 'docker compose ps' },
+          installDir,
+        ),
+      ).toBeUndefined();
+    });
+
+    test('matches file paths relative to the install directory', () => {
+      const rules = policy({ allow: [{ tool: 'Edit', path: 'src/**' }] });
+
+      expect(
+        evaluatePermission(
+          rules,
+          'Edit',
+          { file_path: '/project/src/lib/app.ts' },
+          installDir,
+        )?.decision,
+      ).toBe('allow');
+      expect(
+        evaluatePermission(
+          rules,
+          'Edit',
+          { file_path: '/project/package.json' },
+          installDir,
+        ),
+      ).toBeUndefined();
+      expect(
+        evaluatePermission(
+          rules,
+          'Edit',
+          { file_path: '/project/../etc/src/passwd' },
+          installDir,
+        ),
+      ).toBeUndefined();
+    });
+
+    test('Edit rules cover every tool that edits files', () => {
+      const rules = policy({ deny: [{ tool: 'Edit', path: 'src/**' }] });
+
+      for (const [toolName, input] of [
+        ['MultiEdit', { file_path: '/project/src/app.ts' }],
+        ['NotebookEdit', { notebook_path: '/project/src/eval.ipynb' }],
+        [
+          'mcp__raindrop-wizard__InstrumentAiClients',
+          { file_path: '/project/src/app.ts' },
+        ],
+      ] as const) {
+        expect(
+          evaluatePermission(rules, toolName, input, installDir)?.decision,
+        ).toBe('deny');
+      }
+      expect(
+        evaluatePermission(
+          rules,
+          'Write',
+          { file_path: '/project/src/app.ts' },
+          installDir,
+        ),
+      ).toBeUndefined();
+    });
+
+    test('matches WebFetch domains', () => {
+      const rules = policy({
+        allow: [{ tool: 'WebFetch', domain: '*.raindrop.ai' }],
+      });
+
+      expect(
+        evaluatePermission(
+          rules,
+          'WebFetch',
+          { url: 'https://docs.raindrop.ai/sdk' },
+          installDir,
+        )?.decision,
+      ).toBe('allow');
+      expect(
+        evaluatePermission(
+          rules,
+          'WebFetch',
+          { url: 'https://raindrop.ai.evil.com' },
+          installDir,
+        ),
+      ).toBeUndefined();
+    });
+  });
+
+  test('detects edits to the permissions file', () => {
+    expect(
+      targetsPermissionsFile(
+        { file_path: '/project/.raindrop-wizard/permissions.json' },
+        installDir,
+      ),
+    ).toBe(true);
+    expect(
+      targetsPermissionsFile({ file_path: 'src/index.ts' }, installDir),
+    ).toBe(false);
+  });
+
+  test('detects edits to the permissions file through a symlink', () => {
+    const tmpDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'wizard-permissions-')),
+    );
+    try {
+      fs.mkdirSync(path.join(tmpDir, '.raindrop-wizard'));
+      fs.writeFileSync(path.join(tmpDir, PERMISSIONS_FILE), '{}');
+      fs.symlinkSync(
+        path.join(tmpDir, '.raindrop-wizard'),
+        path.join(tmpDir, 'config'),
+      );
+      fs.symlinkSync(
+        path.join(tmpDir, PERMISSIONS_FILE),
+        path.join(tmpDir, 'rules.json'),
+      );
+
+      expect(
+        targetsPermissionsFile(
+          { file_path: path.join(tmpDir, 'config', 'permissions.json') },
+          tmpDir,
+        ),
+      ).toBe(true);
+      expect(targetsPermissionsFile({ path: 'rules.json' }, tmpDir)).toBe(true);
+      expect(
+        targetsPermissionsFile({ file_path: 'config/other.json' }, tmpDir),
+      ).toBe(false);
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,93 @@
+import { auditAiSdkSource, formatTelemetryIssues } from '../telemetry-audit.js';
+
+describe('telemetry audit', () => {
+  test('reports calls without telemetry or Raindrop metadata', () => {
+    const source = `import { generateText, streamText, embed, tool } from 'ai';
+import raindrop from 'raindrop-ai/otel';
+
+const enhance = tool({
+  execute: async ({ story }) =>
+    generateText({ model, prompt: story, experimental_telemetry: { isEnabled: true } }),
+});
+
+export async function chat(prompt: string, settings: object) {
+  await generateText({
+    model,
+    prompt,
+    tools: { enhance },
+    experimental_telemetry: {
+      isEnabled: true,
+      metadata: { ...raindrop.metadata({ userId: 'user_1' }) },
+    },
+  });
+  await streamText({ model, prompt, experimental_telemetry: { isEnabled: false } });
+  await embed({ model, value: prompt });
+  await generateText({ model, prompt, experimental_telemetry: { isEnabled: true } });
+  await generateText(settings);
+}
+`;
+
+    const calls = auditAiSdkSource(source, 'src/chat.ts');
+
+    expect(
+      calls.map(({ line, functionName, telemetry, metadata }) => ({
+        line,
+        functionName,
+        telemetry,
+        metadata,
+      })),
+    ).toEqual([
+      {
+        line: 6,
+        functionName: 'generateText',
+        telemetry: 'enabled',
+        metadata: undefined,
+      },
+      {
+        line: 10,
+        functionName: 'generateText',
+        telemetry: 'enabled',
+        metadata: true,
+      },
+      {
+        line: 19,
+        functionName: 'streamText',
+        telemetry: 'disabled',
+        metadata: false,
+      },
+      {
+        line: 20,
+        functionName: 'embed',
+        telemetry: 'missing',
+        metadata: false,
+      },
+      {
+        line: 21,
+        functionName: 'generateText',
+        telemetry: 'enabled',
+        metadata: false,
+      },
+      {
+        line: 22,
+        functionName: 'generateText',
+        telemetry: 'unknown',
+        metadata: true,
+      },
+    ]);
+    expect(formatTelemetryIssues(calls.slice(2, 4))).toBe(
+      [
+        '- src/chat.ts:19 streamText: experimental_telemetry is not enabled, no raindrop.metadata() in experimental_telemetry',
+        '- src/chat.ts:20 embed: experimental_telemetry is missing, no raindrop.metadata() in experimental_telemetry',
+      ].join('\n'),
+    );
+  });
+
+  test('ignores modules without AI SDK calls', () => {
+    expect(
+      auditAiSdkSource(
+        `import { generateText } from './llm';\ngenerateText({});\n`,
+        'a.ts',
+      ),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,40 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * A temporary project directory, recreated for every test
+ */
+export interface TempProject {
+  /** Absolute path of the directory */
+  readonly dir: string;
+  /** Write a file relative to the directory, creating its parent directories */
+  write: (file: string, content: string) => void;
+}
+
+/**
+ * Create a fresh temporary project directory before each test of the
+ * enclosing describe block and remove it afterwards
+ */
+export function useTempProject(prefix: string): TempProject {
+  let dir = '';
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  return {
+    get dir() {
+      return dir;
+    },
+    write: (file, content) => {
+      const filePath = path.join(dir, file);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content);
+    },
+  };
+}
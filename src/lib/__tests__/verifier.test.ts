@@ -0,0 +1,136 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { initEndpoints } from '../endpoints.js';
+import {
+  DEV_ACCESS_TOKEN,
+  startDevServer,
+  type DevServer,
+} from '../dev-server.js';
+import { verifyIntegration } from '../verifier.js';
+import type { WizardOptions } from '../../utils/types.js';
+
+jest.mock('../../utils/ui.js', () => ({
+  __esModule: true,
+  default: {
+    addItem: jest.fn(),
+    spinner: () => ({ start: jest.fn(), stop: jest.fn() }),
+  },
+}));
+
+describe('verifyIntegration', () => {
+  let server: DevServer;
+  let stateDir: string;
+  let installDir: string;
+
+  beforeEach(async () => {
+    server = await startDevServer({ port: 0 });
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wizard-state-'));
+    installDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wizard-project-'));
+    process.env.RAINDROP_WIZARD_STATE_DIR = stateDir;
+    process.env.RAINDROP_API_URL = server.url;
+    initEndpoints('dev-server');
+  });
+
+  afterEach(async () => {
+    await server.close();
+    delete process.env.RAINDROP_WIZARD_STATE_DIR;
+    delete process.env.RAINDROP_API_URL;
+    fs.rmSync(stateDir, { recursive: true, force: true });
+    fs.rmSync(installDir, { recursive: true, force: true });
+  });
+
+  // A smoke test that tracks one event with the session from the environment
+  function writeSmokeTest(event: Record<string, unknown>): string {
+    fs.writeFileSync(
+      path.join(installDir, 'smoke.js'),
+      `fetch(${JSON.stringify(`${server.url}/v1/events/track`)}, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-wizard-session': process.env.RAINDROP_WIZARD_SESSION,
+        },
+        body: JSON.stringify([${JSON.stringify(event)}]),
+      }).then((response) => process.exit(response.ok ? 0 : 1));`,
+    );
+    return 'node smoke.js';
+  }
+
+  function wizardOptions(verifyCommand: string): WizardOptions {
+    return {
+      debug: false,
+      forceInstall: false,
+      installDir,
+      default: false,
+      ci: true,
+      dryRun: false,
+      verify: true,
+      verifyCommand,
+      verifyTimeout: 1,
+      sessionId: 'wizard-session',
+      compiledSetup: '',
+    };
+  }
+
+  const runAgent = jest.fn(() => Promise.resolve());
+
+  test('passes when the smoke test event has every field', async () => {
+    const command = writeSmokeTest({
+      event: 'chat',
+      user_id: 'raindrop-wizard-smoke-test',
+      ai_data: { model: 'gpt-4o-mini', input: 'Hi', output: 'Hello' },
+    });
+
+    await expect(
+      verifyIntegration(
+        wizardOptions(command),
+        DEV_ACCESS_TOKEN,
+        'dev-org',
+        runAgent,
+      ),
+    ).resolves.toEqual({ shouldRetry: false });
+    expect(runAgent).not.toHaveBeenCalled();
+  });
+
+  test('feeds missing fields and failed commands back to the agent', async () => {
+    const command = writeSmokeTest({
+      event: 'chat',
+      ai_data: { model: 'gpt-4o-mini', input: 'Hi' },
+    });
+
+    const incomplete = await verifyIntegration(
+      wizardOptions(command),
+      DEV_ACCESS_TOKEN,
+      'dev-org',
+      runAgent,
+    );
+    expect(incomplete.shouldRetry).toBe(true);
+    expect(incomplete.feedbackPrompt).toContain(
+      'The event "chat" is missing output, userId.',
+    );
+
+    const failed = await verifyIntegration(
+      wizardOptions('node -e "console.error(\'no API key\'); process.exit(3)"'),
+      DEV_ACCESS_TOKEN,
+      'dev-org',
+      runAgent,
+    );
+    expect(failed.shouldRetry).toBe(true);
+    expect(failed.feedbackPrompt).toContain('failed with exit code 3');
+    expect(failed.feedbackPrompt).toContain('no API key');
+  });
+
+  test('stops the processes a timed out smoke test started', async () => {
+    const startedAt = Date.now();
+    const result = await verifyIntegration(
+      // The server keeps running after the shell itself is killed
+      wizardOptions('node -e "setTimeout(() => {}, 8000)" & wait'),
+      DEV_ACCESS_TOKEN,
+      'dev-org',
+      runAgent,
+    );
+
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+    expect(result.feedbackPrompt).toContain('Timed out after 1s');
+  });
+});
@@ -0,0 +1,126 @@
+import { Integration } from '../constants.js';
+import {
+  detectWorkspace,
+  getWorkspaceCommands,
+  getWorkspaceTarget,
+} from '../workspaces.js';
+import { useTempProject } from './temp-project.no-jest.js';
+
+describe('detectWorkspace', () => {
+  const project = useTempProject('wizard-workspaces-');
+
+  test('returns undefined for a single-package project', async () => {
+    project.write('package.json', JSON.stringify({ name: 'app' }));
+
+    expect(await detectWorkspace(project.dir)).toBeUndefined();
+  });
+
+  test('enumerates a pnpm workspace and detects AI SDK usage', async () => {
+    project.write('pnpm-workspace.yaml', 'packages:\n  - "apps/*"\n');
+    project.write('turbo.json', '{}');
+    project.write(
+      'apps/chat/package.json',
+      JSON.stringify({ name: '@acme/chat', dependencies: { ai: '^4.0.0' } }),
+    );
+    project.write(
+      'apps/chat/src/route.ts',
+      "import { streamText } from 'ai';\n",
+    );
+    project.write(
+      'apps/bot/package.json',
+      JSON.stringify({ name: '@acme/bot', dependencies: { openai: '^4.0.0' } }),
+    );
+    project.write('apps/web/package.json', JSON.stringify({ name: 'web' }));
+    project.write('apps/web/index.ts', 'export {};\n');
+
+    const workspace = await detectWorkspace(project.dir);
+
+    expect(workspace?.taskRunner).toBe('turbo');
+    expect(
+      workspace?.packages.map((pkg) => [
+        pkg.name,
+        pkg.relativeDir,
+        pkg.packageManager,
+        pkg.integration,
+      ]),
+    ).toEqual([
+      ['@acme/bot', 'apps/bot', 'pnpm', Integration.typescript],
+      ['@acme/chat', 'apps/chat', 'pnpm', Integration.vercelAiSdk],
+      ['web', 'apps/web', 'pnpm', undefined],
+    ]);
+  });
+
+  test('honours negated package.json workspace globs', async () => {
+    project.write(
+      'package.json',
+      JSON.stringify({ workspaces: ['packages/*', '!packages/legacy'] }),
+    );
+    project.write('yarn.lock', '');
+    project.write('packages/api/package.json', JSON.stringify({ name: 'api' }));
+    project.write(
+      'packages/legacy/package.json',
+      JSON.stringify({ name: 'legacy' }),
+    );
+
+    const workspace = await detectWorkspace(project.dir);
+
+    expect(workspace?.packages.map((pkg) => pkg.name)).toEqual(['api']);
+    expect(workspace?.packages[0].packageManager).toBe('yarn');
+  });
+
+  test('enumerates uv workspace members', async () => {
+    project.write(
+      'pyproject.toml',
+      '[project]\nname = "root"\n\n[tool.uv.workspace]\nmembers = ["services/*"]\nexclude = ["services/old"]\n',
+    );
+    project.write(
+      'services/agent/pyproject.toml',
+      '[project]\nname = "agent-service"\ndependencies = ["anthropic"]\n',
+    );
+    project.write(
+      'services/old/pyproject.toml',
+      '[project]\nname = "old-service"\n',
+    );
+
+    const workspace = await detectWorkspace(project.dir);
+
+    expect(workspace?.packages).toEqual([
+      expect.objectContaining({
+        name: 'agent-service',
+        relativeDir: 'services/agent',
+        packageManager: 'uv',
+        integration: Integration.python,
+      }),
+    ]);
+  });
+});
+
+describe('getWorkspaceCommands', () => {
+  const workspace = {
+    root: '/repo',
+    taskRunner: 'turbo' as const,
+    packages: [],
+  };
+  const pkg = {
+    name: '@acme/chat',
+    dir: '/repo/apps/chat',
+    relativeDir: 'apps/chat',
+  };
+
+  test.each([
+    ['pnpm', 'pnpm --filter @acme/chat add <package>'],
+    ['yarn', 'yarn workspace @acme/chat add <package>'],
+    ['npm', 'npm install <package> --workspace apps/chat'],
+    ['uv', 'uv add --package @acme/chat <package>'],
+  ] as const)(
+    'scopes %s installs to the package',
+    (packageManager, install) => {
+      const commands = getWorkspaceCommands(
+        getWorkspaceTarget(workspace, { ...pkg, packageManager }),
+      );
+
+      expect(commands.install).toBe(install);
+      expect(commands.build).toBe('turbo run build --filter=@acme/chat');
+    },
+  );
+});
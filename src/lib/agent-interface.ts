@@ -3,8 +3,6 @@
  * Uses Claude Agent SDK directly with streaming input support
  */
 
-import path from 'path';
-import { createRequire } from 'module';
 import ui from '../utils/ui.js';
 import type { AgentQueryHandle } from '../ui/types.js';
 import {
@@ -21,21 +19,11 @@ import {
 } from './handlers.js';
 import { processSDKMessage } from './sdk-messages.js';
 import { createCompletionMcpServer } from './mcp.js';
+import { loadPermissionPolicy } from './permissions.js';
+import { DEFAULT_AGENT_MODEL } from './constants.js';
 import type { WizardOptions } from '../utils/types.js';
-import { query } from '@anthropic-ai/claude-agent-sdk';
-
-// Create a require function for ESM compatibility
-const require = createRequire(import.meta.url);
-
-/**
- * Get the path to the bundled Claude Code CLI from the SDK package.
- * This ensures we use the SDK's bundled version rather than the user's installed Claude Code.
- */
-function getClaudeCodeExecutablePath(): string {
-  // require.resolve finds the package's main entry, then we get cli.js from same dir
-  const sdkPackagePath = require.resolve('@anthropic-ai/claude-agent-sdk');
-  return path.join(path.dirname(sdkPackagePath), 'cli.js');
-}
+import { getClaudeCodeExecutablePath } from './sdk-path.js';
+import { getAgentQuery } from './agent-replay.js';
 
 // Using `any` because typed imports from ESM modules require import attributes
 // syntax which prettier cannot parse. See PR discussion for details.
@@ -54,6 +42,8 @@ export type AgentConfig = {
 export interface AgentRunResult {
   sessionId?: string;
   handle: AgentQueryHandle;
+  /** Whether the agent called CompleteIntegration before the run ended */
+  completed: boolean;
 }
 
 /**
@@ -86,16 +76,20 @@ export function initializeAgent(
     const agentRunConfig: AgentRunConfig = {
       workingDirectory: config.workingDirectory,
       mcpServers,
-      model: 'claude-sonnet-4-5-20250929',
+      model: options.model ?? DEFAULT_AGENT_MODEL,
     };
 
     logToFile('Agent config:', {
       workingDirectory: agentRunConfig.workingDirectory,
+      model: agentRunConfig.model,
+      llmProvider: options.llmProvider ?? 'raindrop',
     });
 
     if (options.debug) {
       debug('Agent config:', {
         workingDirectory: agentRunConfig.workingDirectory,
+        model: agentRunConfig.model,
+        llmProvider: options.llmProvider ?? 'raindrop',
       });
     }
 
@@ -124,6 +118,8 @@ export interface RunAgentConfig {
   resume?: string;
   accessToken: string;
   orgId: string;
+  /** Called once the agent SDK session id is known (e.g. to checkpoint it) */
+  onSessionId?: (sessionId: string) => void;
 }
 
 /**
@@ -153,6 +149,9 @@ export async function runAgentLoop(
   logToFile('Starting agent run');
   logToFile('Claude Code executable:', cliPath);
 
+  const permissionPolicy = await loadPermissionPolicy(options.installDir);
+  logToFile('Permission policy:', permissionPolicy);
+
   // Loop-persistent state
   let currentPrompt = prompt;
   let currentSessionId: string | undefined = resume;
@@ -172,6 +171,12 @@ export async function runAgentLoop(
     let sessionId: string | undefined = currentSessionId;
     let queryObject: any = null;
 
+    const captureSessionId = (id: string) => {
+      sessionId = id;
+      ui.setAgentState({ sessionId });
+      config?.onSessionId?.(id);
+    };
+
     // Message and tool call collectors
     const collectedText: string[] = [];
     const pendingToolCalls = new Map<string, PendingToolCall>();
@@ -236,7 +241,7 @@ export async function runAgentLoop(
       orgId: config?.orgId ?? '',
     };
 
-    queryObject = query({
+    queryObject = getAgentQuery()({
       prompt: currentPrompt,
       options: {
         model: agentConfig.model,
@@ -248,7 +253,11 @@ export async function runAgentLoop(
         systemPrompt: '{WIZARD_SYSTEM_PROMPT}',
         env: { ...process.env },
         resume: currentSessionId,
-        canUseTool: createCanUseToolHandler(sessionInfo),
+        canUseTool: createCanUseToolHandler(
+          options,
+          sessionInfo,
+          permissionPolicy,
+        ),
         stderr: (data: string) => {
           logToFile('CLI stderr:', data);
           if (options.debug) {
@@ -274,16 +283,14 @@ export async function runAgentLoop(
         );
         // Capture session_id from init message if available before breaking
         if (message.session_id && !sessionId) {
-          sessionId = message.session_id;
-          ui.setAgentState({ sessionId });
+          captureSessionId(message.session_id);
         }
         break;
       }
 
       // Capture session_id from any message
       if (message.session_id && !sessionId) {
-        sessionId = message.session_id;
-        ui.setAgentState({ sessionId });
+        captureSessionId(message.session_id);
       }
 
       processSDKMessage(
@@ -317,6 +324,17 @@ export async function runAgentLoop(
       spinner.stop();
       ui.setAgentState({ isRunning: false });
 
+      // Nobody can answer the agent in CI mode - end the run as incomplete
+      if (options.ci) {
+        logToFile('Agent needs user input in CI mode, ending session');
+        ui.addItem({
+          type: 'error',
+          text: 'The agent stopped before completing the integration and is waiting for input, which is not available in CI mode.',
+        });
+        ui.stopPersistentInput();
+        return { sessionId, handle, completed: false };
+      }
+
       // Get the resume message - either from pending submit or wait for user to submit
       let userMessage: string;
 
@@ -339,7 +357,7 @@ export async function runAgentLoop(
         if (!userMessage) {
           logToFile('User cancelled input, ending session');
           ui.stopPersistentInput();
-          return { sessionId, handle };
+          return { sessionId, handle, completed: false };
         }
 
         logToFile('Received user message from persistent input:', userMessage);
@@ -358,10 +376,21 @@ export async function runAgentLoop(
       continue;
     }
 
-    // Normal completion - clean up and return
+    // Clean up and return. Without a session the SDK failed before the
+    // agent could do anything, so the run is incomplete even if flagged done.
+    const completed = hasCompletedWorkRef.value && Boolean(sessionId);
     ui.stopPersistentInput();
     ui.setAgentState({ isRunning: false });
-    spinner.stop(successMessage);
-    return { sessionId, handle };
+    if (completed) {
+      spinner.stop(successMessage);
+    } else {
+      logToFile('Stream ended without a session, ending run as incomplete');
+      spinner.stop();
+      ui.addItem({
+        type: 'error',
+        text: 'The agent stopped before completing the integration.',
+      });
+    }
+    return { sessionId, handle, completed };
   }
 }
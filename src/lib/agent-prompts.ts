@@ -5,13 +5,16 @@
 import type { FrameworkConfig } from './framework-config.js';
 import type { WizardOptions } from '../utils/types.js';
 import { logToFile } from '../utils/debug.js';
+import { formatWorkspaceInfo } from './workspaces.js';
 
 /**
  * Build test feedback message for agent
  */
 export function buildTestFeedbackMessage(
   events: Array<{ url: string; data: any }>,
-  userFeedback: string,
+  userFeedback?: string,
+  failedChecks?: string,
+  telemetryIssues?: string,
 ): string {
   const eventSummary =
     events.length > 0
@@ -29,19 +32,25 @@ Data: ${JSON.stringify(aiAttrs, null, 2)}`;
           .join('\n\n')
       : 'No events received.';
 
+  const checksSection = failedChecks
+    ? `\n\n## Failed Checks\n\nThe events lack data of the features the user chose:\n${failedChecks}`
+    : '';
+  const telemetrySection = telemetryIssues
+    ? `\n\n## Telemetry Coverage\n\nThese Vercel AI SDK calls are not fully instrumented (the AddAiSdkTelemetry tool enables telemetry):\n${telemetryIssues}`
+    : '';
+  const feedbackSection = userFeedback
+    ? `\n\n## User Feedback\n\n"${userFeedback}"`
+    : '';
+
   return `# Integration Test Results
 
 ## Events Collected
 
-${eventSummary}
-
-## User Feedback
-
-"${userFeedback}"
+${eventSummary}${checksSection}${telemetrySection}${feedbackSection}
 
 ## Your Task
 
-Analyze the events and user feedback, then fix the code to address any issues:
+Analyze the events, failed checks and user feedback, then fix the code to address any issues:
 1. Review the event data structure and user's comments
 2. Identify what's missing or incorrect
 3. Update the integration code to fix the problems
@@ -49,6 +58,68 @@ Analyze the events and user feedback, then fix the code to address any issues:
 5. Call CompleteIntegration with \`{}\` when done`;
 }
 
+/**
+ * Build the message that continues an agent session after the wizard was
+ * restarted with `wizard resume`
+ */
+export function buildResumePrompt(approvedPlan?: string): string {
+  const planSection = approvedPlan
+    ? `\n\nThe user already approved this plan, implement it without planning again:\n\n${approvedPlan}`
+    : '';
+
+  return `The wizard was interrupted and has been restarted. Continue the Raindrop integration from where you left off: check which steps are already done in the project, finish the remaining ones, verify the build, and call CompleteIntegration with \`{}\` when done.${planSection}`;
+}
+
+/**
+ * Build the message that has the agent write and run a smoke test for
+ * automated verification
+ */
+export function buildSmokeTestPrompt(
+  sessionId: string,
+  userId: string,
+): string {
+  return `# Smoke Test
+
+Verify the Raindrop integration by sending one real event:
+
+1. Write a minimal script named \`raindrop_smoke_test\` (with the project's file extension) in the project root
+2. The script must make exactly one LLM call through an existing, instrumented call site of the project, with:
+   - the wizard session \`${sessionId}\`
+   - the user id \`${userId}\`
+   - a short input, so the event has an input, an output and a model
+3. Make sure the Raindrop SDK flushes its events before the script exits (e.g. call its flush or shutdown function)
+4. Run the script and check that the LLM call succeeds
+5. Delete the script
+6. Call CompleteIntegration with \`{}\` when done
+
+Do not change the integration itself in this step.`;
+}
+
+/**
+ * Build the message that asks the agent to fix the problems automated
+ * verification found
+ */
+export function buildVerificationFeedbackMessage(
+  failure: string,
+  smokeTestOutput?: string,
+): string {
+  const outputSection = smokeTestOutput
+    ? `\n\n## Smoke Test Output\n\n\`\`\`\n${smokeTestOutput}\n\`\`\``
+    : '';
+
+  return `# Automated Verification Failed
+
+${failure}${outputSection}
+
+## Your Task
+
+Every tracked LLM call must produce a Raindrop event with its input, output, model and user id:
+1. Find out why the event is missing or incomplete
+2. Update the integration code to fix the problem
+3. Verify the build still succeeds after your fixes
+4. Call CompleteIntegration with \`{}\` when done`;
+}
+
 /**
  * Format OTEL provider info string
  */
@@ -211,13 +282,17 @@ export async function buildIntegrationPrompt(
       '   - The project uses TypeScript SDKs like openai, @anthropic-ai/sdk, @google/generative-ai, litellm, etc. to make LLM API calls';
   }
 
+  const workspaceSection = options.workspace
+    ? `\n## Workspace\n${formatWorkspaceInfo(options.workspace)}\n`
+    : '';
+
   return `Integrate Raindrop into this ${frameworkName} project.
 
 ## Context
 - Framework: ${frameworkName} ${frameworkVersion}
 ${otelProviderInfo}
 ${sdkDescription}
-
+${workspaceSection}
 ## Instructions
 
 1. **Install Raindrop SDK**
@@ -229,6 +304,7 @@ ${sdkDescription}
    - Find files with LLM client initialization or API calls
    - Use an existing user ID from auth/session, or generate one with UUID if unavailable
    - Use RAINDROP_WRITE_KEY from environment variables (already loaded - DO NOT read .env file directly)
+   - In JavaScript/TypeScript files, use the AddAiSdkTelemetry tool to enable telemetry on Vercel AI SDK calls, and the InstrumentAiClients tool to pass the OpenAI/Anthropic modules to \`new Raindrop({...})\`, instead of making these edits by hand
 
 3. **Verify the build**
    - Run the build/type-check command and fix any errors
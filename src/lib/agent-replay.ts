@@ -0,0 +1,370 @@
+/**
+ * Record/replay layer around the agent SDK's query().
+ * Recording (RAINDROP_WIZARD_RECORD=<file>) saves the SDK message stream,
+ * the canUseTool decisions and interrupts of every query to a fixture file.
+ * Replaying (RAINDROP_WIZARD_REPLAY=<file>, or setAgentQuery in tests) feeds
+ * the recorded messages back without network access, while the live
+ * canUseTool handler and the wizard's MCP tools run as they would with the
+ * real SDK.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { query } from '@anthropic-ai/claude-agent-sdk';
+import type { ToolApprovalResult } from '../ui/types.js';
+import { getMcpToolHandler } from './mcp.js';
+import { logToFile } from '../utils/debug.js';
+
+const FIXTURE_VERSION = 1;
+
+// Absolute paths of the project are stored relative to this placeholder, so
+// a fixture replays against a copy of the project anywhere
+const INSTALL_DIR_PLACEHOLDER = '{{installDir}}';
+
+type CanUseTool = (
+  toolName: string,
+  input: Record<string, unknown>,
+  options: { signal: AbortSignal },
+) => Promise<ToolApprovalResult>;
+
+/**
+ * The parts of the query() input the record/replay layer uses
+ */
+export type AgentQueryInput = {
+  prompt: string;
+  options?: {
+    cwd?: string;
+    resume?: string;
+    canUseTool?: CanUseTool;
+    mcpServers?: Record<string, unknown>;
+    [key: string]: unknown;
+  };
+};
+
+export type AgentMessage = {
+  type: string;
+  session_id?: string;
+  [key: string]: unknown;
+};
+
+export type AgentQuery = AsyncIterable<AgentMessage> & {
+  interrupt(): Promise<void>;
+};
+
+export type AgentQueryFunction = (input: AgentQueryInput) => AgentQuery;
+
+export type RecordedEvent =
+  | { type: 'message'; message: AgentMessage }
+  | {
+      type: 'tool';
+      toolName: string;
+      input: Record<string, unknown>;
+      /** Missing if the query ended before the decision was made */
+      result?: ToolApprovalResult;
+    }
+  | { type: 'interrupt' };
+
+/**
+ * One query() call: the initial prompt, or a resume with a follow-up
+ */
+export interface RecordedQuery {
+  prompt: string;
+  resume?: string;
+  events: RecordedEvent[];
+}
+
+export interface AgentFixture {
+  version: number;
+  queries: RecordedQuery[];
+}
+
+/**
+ * What happened while replaying a fixture
+ */
+export interface ReplayReport {
+  /** canUseTool decisions of the live handler, next to the recorded ones */
+  decisions: {
+    toolName: string;
+    recorded?: ToolApprovalResult['behavior'];
+    actual: ToolApprovalResult['behavior'];
+  }[];
+  /** Differences between the replayed run and the recording */
+  mismatches: string[];
+}
+
+export type ReplayQuery = AgentQueryFunction & { report: ReplayReport };
+
+let agentQueryOverride: AgentQueryFunction | undefined;
+let envAgentQuery: AgentQueryFunction | undefined;
+
+/**
+ * Replace query() for the agent runs that follow (undefined restores it)
+ */
+export function setAgentQuery(agentQuery?: AgentQueryFunction): void {
+  agentQueryOverride = agentQuery;
+}
+
+/**
+ * The query() implementation to run the agent with: an override set by
+ * setAgentQuery, a replay or recording requested by the environment, or the
+ * SDK's own
+ */
+export function getAgentQuery(): AgentQueryFunction {
+  if (agentQueryOverride) {
+    return agentQueryOverride;
+  }
+  if (!envAgentQuery) {
+    const replayPath = process.env.RAINDROP_WIZARD_REPLAY;
+    const recordPath = process.env.RAINDROP_WIZARD_RECORD;
+    if (replayPath) {
+      envAgentQuery = createReplayQuery(loadAgentFixture(replayPath));
+    } else if (recordPath) {
+      envAgentQuery = recordQuery(
+        query as unknown as AgentQueryFunction,
+        recordPath,
+      );
+    } else {
+      envAgentQuery = query as unknown as AgentQueryFunction;
+    }
+  }
+  return envAgentQuery;
+}
+
+function toJsonString(value: string): string {
+  return JSON.stringify(value).slice(1, -1);
+}
+
+function saveFixture(
+  fixturePath: string,
+  queries: { recorded: RecordedQuery; installDir?: string }[],
+): void {
+  const serialized = queries.map(({ recorded, installDir }) => {
+    const json = JSON.stringify(recorded, null, 2);
+    return installDir
+      ? json.split(toJsonString(installDir)).join(INSTALL_DIR_PLACEHOLDER)
+      : json;
+  });
+  fs.mkdirSync(path.dirname(fixturePath), { recursive: true });
+  fs.writeFileSync(
+    fixturePath,
+    `{\n"version": ${FIXTURE_VERSION},\n"queries": [\n${serialized.join(
+      ',\n',
+    )}\n]\n}\n`,
+    'utf-8',
+  );
+}
+
+/**
+ * Wrap query() to record every query to a fixture file. The file is
+ * rewritten whenever a query ends, so an aborted run keeps its recording.
+ */
+export function recordQuery(
+  agentQuery: AgentQueryFunction,
+  fixturePath: string,
+): AgentQueryFunction {
+  const queries: { recorded: RecordedQuery; installDir?: string }[] = [];
+
+  return (input) => {
+    const recorded: RecordedQuery = {
+      prompt: input.prompt,
+      resume: input.options?.resume,
+      events: [],
+    };
+    queries.push({ recorded, installDir: input.options?.cwd });
+
+    const canUseTool = input.options?.canUseTool;
+    const inner = agentQuery({
+      ...input,
+      options: {
+        ...input.options,
+        canUseTool:
+          canUseTool &&
+          (async (toolName, toolInput, options) => {
+            const event: RecordedEvent = {
+              type: 'tool',
+              toolName,
+              input: toolInput,
+            };
+            recorded.events.push(event);
+            event.result = await canUseTool(toolName, toolInput, options);
+            return event.result;
+          }),
+      },
+    });
+
+    async function* recordMessages(): AsyncGenerator<AgentMessage> {
+      try {
+        for await (const message of inner) {
+          recorded.events.push({ type: 'message', message });
+          yield message;
+        }
+      } finally {
+        saveFixture(fixturePath, queries);
+      }
+    }
+
+    return Object.assign(recordMessages(), {
+      interrupt: async () => {
+        recorded.events.push({ type: 'interrupt' });
+        await inner.interrupt();
+      },
+    });
+  };
+}
+
+/**
+ * Load a recorded fixture
+ */
+export function loadAgentFixture(fixturePath: string): AgentFixture {
+  const fixture = JSON.parse(
+    fs.readFileSync(fixturePath, 'utf-8'),
+  ) as AgentFixture;
+  if (fixture.version !== FIXTURE_VERSION) {
+    throw new Error(
+      `Unsupported agent fixture version ${fixture.version} in ${fixturePath}`,
+    );
+  }
+  return fixture;
+}
+
+/**
+ * Calls of the wizard's in-process MCP tools in an assistant message, which
+ * the SDK would run itself
+ */
+function getMcpToolCalls(
+  message: AgentMessage,
+): { server: string; tool: string; input: Record<string, unknown> }[] {
+  if (message.type !== 'assistant') {
+    return [];
+  }
+  const content = (message.message as { content?: unknown } | undefined)
+    ?.content;
+  if (!Array.isArray(content)) {
+    return [];
+  }
+  return content.flatMap((block: Record<string, unknown>) => {
+    const match =
+      block.type === 'tool_use' && typeof block.name === 'string'
+        ? /^mcp__(.+?)__(.+)$/.exec(block.name)
+        : null;
+    return match
+      ? [
+          {
+            server: match[1],
+            tool: match[2],
+            input: (block.input ?? {}) as Record<string, unknown>,
+          },
+        ]
+      : [];
+  });
+}
+
+/**
+ * Create a query() replacement that replays a fixture, one recorded query
+ * per call. Recorded tool decisions are re-made by the live canUseTool
+ * handler and compared in the report. At a recorded interrupt, onInterrupt
+ * is called so the test can interrupt the agent like the user did.
+ */
+export function createReplayQuery(
+  fixture: AgentFixture,
+  replayOptions: { onInterrupt?: () => void | Promise<void> } = {},
+): ReplayQuery {
+  const report: ReplayReport = { decisions: [], mismatches: [] };
+  let nextQuery = 0;
+
+  const replay = (input: AgentQueryInput): AgentQuery => {
+    const recorded = fixture.queries[nextQuery];
+    if (!recorded) {
+      throw new Error(
+        `The agent started query ${nextQuery + 1}, but the fixture only has ${
+          fixture.queries.length
+        }`,
+      );
+    }
+    nextQuery++;
+
+    const installDir = input.options?.cwd;
+    const events = installDir
+      ? (JSON.parse(
+          JSON.stringify(recorded.events)
+            .split(INSTALL_DIR_PLACEHOLDER)
+            .join(toJsonString(installDir)),
+        ) as RecordedEvent[])
+      : recorded.events;
+
+    if (input.prompt !== recorded.prompt) {
+      report.mismatches.push(
+        `Query ${nextQuery}: the prompt differs from the recording`,
+      );
+    }
+    if (input.options?.resume !== recorded.resume) {
+      report.mismatches.push(
+        `Query ${nextQuery}: resumed ${
+          input.options?.resume ?? 'no session'
+        } instead of ${recorded.resume ?? 'no session'}`,
+      );
+    }
+
+    let interrupted = false;
+
+    async function* replayEvents(): AsyncGenerator<AgentMessage> {
+      for (const event of events) {
+        if (interrupted) {
+          return;
+        }
+
+        if (event.type === 'interrupt') {
+          await replayOptions.onInterrupt?.();
+          continue;
+        }
+
+        if (event.type === 'tool') {
+          const canUseTool = input.options?.canUseTool;
+          if (!canUseTool) {
+            report.mismatches.push(
+              `${event.toolName} was sent to canUseTool, but there is no handler`,
+            );
+            continue;
+          }
+          const result = await canUseTool(event.toolName, event.input, {
+            signal: new AbortController().signal,
+          });
+          report.decisions.push({
+            toolName: event.toolName,
+            recorded: event.result?.behavior,
+            actual: result.behavior,
+          });
+          if (event.result && event.result.behavior !== result.behavior) {
+            report.mismatches.push(
+              `${event.toolName} was ${event.result.behavior} when recorded and ${result.behavior} on replay`,
+            );
+          }
+          continue;
+        }
+
+        yield event.message;
+
+        for (const call of getMcpToolCalls(event.message)) {
+          const handler = getMcpToolHandler(
+            input.options?.mcpServers?.[call.server],
+            call.tool,
+          );
+          if (handler) {
+            await handler(call.input);
+          } else {
+            logToFile(`Replay: no handler for ${call.server} ${call.tool}`);
+          }
+        }
+      }
+    }
+
+    return Object.assign(replayEvents(), {
+      interrupt: () => {
+        interrupted = true;
+        return Promise.resolve();
+      },
+    });
+  };
+
+  return Object.assign(replay, { report });
+}
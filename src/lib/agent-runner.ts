@@ -1,7 +1,10 @@
 import { SPINNER_MESSAGE, type FrameworkConfig } from './framework-config.js';
 import type { WizardOptions } from '../utils/types.js';
 import type { PackageJson } from '../utils/package-json-types.js';
-import { confirmContinueIfNoOrDirtyGitRepo } from '../utils/clack-utils.js';
+import {
+  abort,
+  confirmContinueIfNoOrDirtyGitRepo,
+} from '../utils/clack-utils.js';
 import { saveWriteKeyToEnv } from '../utils/environment.js';
 import fs from 'fs';
 import path from 'path';
@@ -12,15 +15,59 @@ import Chalk from 'chalk';
 
 // chalk v2 types don't work well with ESM default imports
 const chalk = Chalk as any;
-import {
-  askForWizardLogin,
-  validateProjectAccess,
-} from '../utils/clack-utils.js';
-import { getOrgWriteKey } from '../utils/oauth.js';
-import { ANTHROPIC_BASE_URL } from './constants.js';
-import { buildIntegrationPrompt } from './agent-prompts.js';
+import { askForOrg, askForWizardLogin } from '../utils/clack-utils.js';
+import { getOrgWriteKey, verifyWriteKey } from '../utils/oauth.js';
+import { ExitCode } from './constants.js';
+import { getEndpoints } from './endpoints.js';
+import { buildIntegrationPrompt, buildResumePrompt } from './agent-prompts.js';
 import { testIntegration } from './test-server.js';
+import { verifyIntegration } from './verifier.js';
 import { sendSessionInit } from '../utils/session.js';
+import { recordPostRunState, snapshotFile } from '../utils/journal.js';
+import { updateCheckpoint, type Checkpoint } from '../utils/checkpoint.js';
+
+/**
+ * Credentials shared by every agent run in a wizard invocation
+ */
+type WizardAuth = {
+  accessToken: string;
+  writeKey: string;
+  orgId: string;
+};
+
+// When the wizard sets up several workspace packages, the user logs in and
+// confirms the git state once for all of them.
+let wizardAuth: WizardAuth | undefined;
+let gitRepoConfirmed = false;
+// Integrations set up together share a session, which is initialized once
+const initializedSessions = new Set<string>();
+
+// Failed automated verifications (each followed by an agent fix) before
+// the wizard gives up
+const MAX_VERIFY_ATTEMPTS = 3;
+
+/**
+ * An integration's agent, kept around so it can be resumed with test
+ * feedback
+ */
+export type AgentRun = {
+  config: FrameworkConfig;
+  options: WizardOptions;
+  agent: ReturnType<typeof initializeAgent>;
+  accessToken: string;
+  orgId: string;
+  /** Agent session to resume */
+  agentSessionId?: string;
+};
+
+/**
+ * Collects the agent runs of a multi-integration wizard run. Testing and
+ * the outro are deferred until every integration is set up, see
+ * finishCombinedRun.
+ */
+export type CombinedRun = {
+  runs: AgentRun[];
+};
 
 /**
  * Universal agent-powered wizard runner.
@@ -30,8 +77,15 @@ export async function runAgentWizard(
   config: FrameworkConfig,
   options: WizardOptions,
 ): Promise<void> {
+  checkLlmProvider(options);
+
   // Check if the current directory is a git repository and has uncommitted or untracked changes; prompt the user to continue if so.
-  await confirmContinueIfNoOrDirtyGitRepo(options);
+  // A dry run never touches the project, so there's nothing to confirm, and
+  // a resumed session was confirmed before it made its own changes.
+  if (!options.dryRun && !options.checkpoint && !gitRepoConfirmed) {
+    await confirmContinueIfNoOrDirtyGitRepo(options);
+    gitRepoConfirmed = true;
+  }
 
   // Framework detection and version (only for projects with package.json)
   let packageJson: PackageJson = {};
@@ -57,26 +111,36 @@ export async function runAgentWizard(
     }
   }
 
-  const token = await askForWizardLogin({ signup: false });
-
-  const writeKeySpinner = ui.spinner();
-  writeKeySpinner.start('Retrieving your Raindrop write key...');
-
-  await validateProjectAccess(token.access_token);
-
-  const { writeKey, orgId } = await getOrgWriteKey(token.access_token);
+  if (!wizardAuth) {
+    wizardAuth = await authenticate(options);
+  }
+  const { accessToken, writeKey, orgId } = wizardAuth;
+  await saveProgress(options, (checkpoint) => {
+    checkpoint.orgId = orgId;
+  });
 
   // Send session init now that we have the access token and orgId
-  sendSessionInit(
-    options.sessionId,
-    options.compiledSetup,
-    token.access_token,
-    orgId,
-  );
+  if (!initializedSessions.has(options.sessionId)) {
+    initializedSessions.add(options.sessionId);
+    sendSessionInit(
+      options.sessionId,
+      options.compiledSetup,
+      accessToken,
+      orgId,
+    );
+  }
 
-  await saveWriteKeyToEnv(writeKey, options.installDir);
+  // Keep the write key out of dry-run patches
+  if (!options.dryRun) {
+    await snapshotFile(
+      options.sessionId,
+      options.installDir,
+      path.join(options.installDir, '.env'),
+    );
+    await saveWriteKeyToEnv(writeKey, options.installDir);
 
-  writeKeySpinner.stop('I retrieved your write key and saved it to .env');
+    ui.addItem({ type: 'response', text: 'I saved your write key to .env' });
+  }
 
   const frameworkVersion = config.detection.getVersion(packageJson);
 
@@ -101,9 +165,7 @@ export async function runAgentWizard(
     });
   }
 
-  process.env.ANTHROPIC_BASE_URL = ANTHROPIC_BASE_URL;
-  process.env.ANTHROPIC_AUTH_TOKEN = token.access_token;
-  process.env.ANTHROPIC_CUSTOM_HEADERS = `x-wizard-session: ${options.sessionId}`;
+  configureLlmProvider(options, accessToken, orgId);
 
   // Initialize agent
   const agent = initializeAgent(
@@ -113,40 +175,303 @@ export async function runAgentWizard(
     options,
   );
 
-  let prompt = integrationPrompt;
-  let resume: string | undefined = undefined;
-  let shouldContinue = true;
+  const run: AgentRun = {
+    config,
+    options,
+    agent,
+    accessToken,
+    orgId,
+  };
+
+  // A resumed session continues the agent where it left off
+  const checkpointed = options.checkpoint?.agents[config.metadata.integration];
+  if (checkpointed) {
+    run.agentSessionId = checkpointed.sessionId;
+  }
+  if (!checkpointed?.completed) {
+    await runAgentPass(
+      run,
+      checkpointed
+        ? buildResumePrompt(options.checkpoint?.approvedPlan)
+        : integrationPrompt,
+    );
+  }
+
+  if (options.combinedRun) {
+    options.combinedRun.runs.push(run);
+    return;
+  }
 
-  while (shouldContinue) {
-    const agentResult = await runAgentLoop(agent, prompt, options, {
-      spinnerMessage: SPINNER_MESSAGE,
-      successMessage: config.ui.successMessage,
-      resume,
-      accessToken: token.access_token,
-      orgId,
+  await testAndFinish([run]);
+}
+
+/**
+ * Fail early when the user's own LLM provider isn't configured, before
+ * they log in and answer prompts
+ */
+function checkLlmProvider(options: WizardOptions): void {
+  if (
+    options.llmProvider === 'anthropic' &&
+    !process.env.ANTHROPIC_API_KEY &&
+    !process.env.ANTHROPIC_AUTH_TOKEN
+  ) {
+    ui.addItem({
+      type: 'error',
+      text: 'The anthropic LLM provider needs ANTHROPIC_API_KEY (or ANTHROPIC_AUTH_TOKEN, with ANTHROPIC_BASE_URL for an LLM proxy) to be set.',
     });
+    abort();
+  }
+}
 
-    const result = await testIntegration(options, token.access_token);
+/**
+ * Point the agent at its LLM. The Raindrop proxy is reached with the
+ * Raindrop access token; with another provider the environment is left as
+ * the user configured it (e.g. ANTHROPIC_API_KEY, AWS or Google
+ * credentials).
+ */
+function configureLlmProvider(
+  options: WizardOptions,
+  accessToken: string,
+  orgId: string,
+): void {
+  switch (options.llmProvider ?? 'raindrop') {
+    case 'raindrop':
+      process.env.ANTHROPIC_BASE_URL = getEndpoints().llmProxyUrl;
+      process.env.ANTHROPIC_AUTH_TOKEN = accessToken;
+      process.env.ANTHROPIC_CUSTOM_HEADERS = `x-wizard-session: ${options.sessionId}\nx-org-id: ${orgId}`;
+      break;
+    case 'bedrock':
+      process.env.CLAUDE_CODE_USE_BEDROCK ??= '1';
+      break;
+    case 'vertex':
+      process.env.CLAUDE_CODE_USE_VERTEX ??= '1';
+      break;
+    case 'anthropic':
+      break;
+  }
+}
 
-    if (result.shouldRetry && result.feedbackPrompt) {
-      prompt = result.feedbackPrompt;
-      resume = agentResult.sessionId;
-    } else {
-      shouldContinue = false;
+/**
+ * Log in and get the write key of the organization to set up. A write key
+ * with an access token (for CI) skips the browser login.
+ */
+async function authenticate(options: WizardOptions): Promise<WizardAuth> {
+  if (options.accessToken) {
+    return authenticateWithWriteKey(
+      options.accessToken,
+      options.apiKey,
+      options.checkpoint?.orgId ?? options.org,
+    );
+  }
+  // Nobody can complete a browser login in CI mode
+  if (options.ci) {
+    ui.addItem({
+      type: 'error',
+      text: 'CI mode needs an access token (--access-token or RAINDROP_ACCESS_TOKEN) and a write key (--api-key or RAINDROP_WRITE_KEY) instead of a browser login.',
+    });
+    return abort();
+  }
+  // RAINDROP_WRITE_KEY may just be exported for the app itself
+  if (options.apiKey) {
+    logToFile('Ignoring the write key option without an access token');
+  }
+
+  const token = await askForWizardLogin({
+    signup: false,
+    method: options.loginMethod,
+  });
+  // A resumed session keeps the organization it was set up for
+  const { orgId } = await askForOrg(
+    token.access_token,
+    options.checkpoint?.orgId ?? options.org,
+  );
+
+  const writeKeySpinner = ui.spinner();
+  writeKeySpinner.start('Retrieving your Raindrop write key...');
+  const { writeKey } = await getOrgWriteKey(token.access_token, orgId);
+  writeKeySpinner.stop('I retrieved your write key');
+
+  return { accessToken: token.access_token, writeKey, orgId };
+}
+
+/**
+ * Authenticate with a write key and a personal access token, validating
+ * the key against the backend
+ */
+async function authenticateWithWriteKey(
+  accessToken: string,
+  apiKey: string | undefined,
+  org: string | undefined,
+): Promise<WizardAuth> {
+  if (!apiKey) {
+    ui.addItem({
+      type: 'error',
+      text: 'An access token (--access-token or RAINDROP_ACCESS_TOKEN) needs a write key (--api-key or RAINDROP_WRITE_KEY) to authenticate without a browser login.',
+    });
+    return abort();
+  }
+
+  const writeKeySpinner = ui.spinner();
+  writeKeySpinner.start('Validating your Raindrop write key...');
+  try {
+    const { orgId } = await verifyWriteKey(accessToken, apiKey, org);
+    writeKeySpinner.stop('Your write key is valid');
+    return { accessToken, writeKey: apiKey, orgId };
+  } catch (error) {
+    writeKeySpinner.stop('Write key validation failed.');
+    ui.addItem({
+      type: 'error',
+      text: error instanceof Error ? error.message : String(error),
+    });
+    return abort();
+  }
+}
+
+/**
+ * Test every integration of a multi-integration run together and show a
+ * combined outro
+ */
+export async function finishCombinedRun(
+  combinedRun: CombinedRun,
+): Promise<void> {
+  if (combinedRun.runs.length > 0) {
+    await testAndFinish(combinedRun.runs);
+  }
+}
+
+/**
+ * Run (or resume) an integration's agent with a prompt
+ */
+async function runAgentPass(run: AgentRun, prompt: string): Promise<void> {
+  const integration = run.config.metadata.integration;
+  await saveProgress(run.options, (checkpoint) => {
+    checkpoint.phase = 'agent';
+    const agent = checkpoint.agents[integration];
+    if (agent) {
+      agent.completed = false;
     }
+  });
+
+  const agentResult = await runAgentLoop(run.agent, prompt, run.options, {
+    spinnerMessage: SPINNER_MESSAGE,
+    successMessage: run.config.ui.successMessage,
+    resume: run.agentSessionId,
+    accessToken: run.accessToken,
+    orgId: run.orgId,
+    onSessionId: (sessionId) => {
+      void saveProgress(run.options, (checkpoint) => {
+        checkpoint.agents[integration] = { sessionId, completed: false };
+      });
+    },
+  });
+
+  // Lets undo tell the agent's changes apart from later ones
+  await recordPostRunState(run.options.sessionId).catch((error) =>
+    logToFile('Failed to record the post-run state of changed files:', error),
+  );
+
+  if (run.options.ci && !agentResult.completed) {
+    abort(
+      'The agent did not complete the integration. Check the verbose logs for details.',
+      ExitCode.incomplete,
+    );
+  }
+
+  run.agentSessionId = agentResult.sessionId;
+  if (agentResult.sessionId) {
+    const sessionId = agentResult.sessionId;
+    await saveProgress(run.options, (checkpoint) => {
+      checkpoint.agents[integration] = {
+        sessionId,
+        completed: agentResult.completed,
+      };
+    });
+  }
+}
+
+/**
+ * Update the session checkpoint. Failing to checkpoint never stops the run.
+ */
+function saveProgress(
+  options: WizardOptions,
+  update: (checkpoint: Checkpoint) => void,
+): Promise<void> {
+  return updateCheckpoint(options.sessionId, update).catch((error) =>
+    logToFile('Failed to update the session checkpoint:', error),
+  );
+}
+
+/**
+ * Test the integrations, resuming every agent with the user's feedback
+ * until the results look good, then show the outro.
+ * The runs share a wizard session, so events from all of them are tested
+ * together.
+ */
+async function testAndFinish(runs: AgentRun[]): Promise<void> {
+  const [{ options, accessToken, orgId }] = runs;
+  let verifyAttempts = 0;
+
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    await saveProgress(options, (checkpoint) => {
+      checkpoint.phase = 'testing';
+    });
+
+    // A single smoke test, written by the first integration's agent, is
+    // enough to show events arrive
+    const result = options.verify
+      ? await verifyIntegration(options, accessToken, orgId, (prompt) =>
+          runAgentPass(runs[0], prompt),
+        )
+      : await testIntegration(options, accessToken, orgId);
+    if (!result.shouldRetry || !result.feedbackPrompt) {
+      break;
+    }
+
+    if (options.verify && ++verifyAttempts >= MAX_VERIFY_ATTEMPTS) {
+      abort(
+        `Automated verification failed ${MAX_VERIFY_ATTEMPTS} times. Check the errors above and your Raindrop dashboard.`,
+        ExitCode.failure,
+      );
+    }
+
+    for (const run of runs) {
+      await runAgentPass(run, result.feedbackPrompt);
+    }
+  }
+
+  await saveProgress(options, (checkpoint) => {
+    checkpoint.phase = 'complete';
+  });
+
+  // The dry-run patch is emitted by the caller instead of an outro
+  if (options.dryRun) {
+    return;
   }
 
   // Build outro message
-  const nextSteps = [...config.ui.getOutroNextSteps({})].filter(Boolean);
+  const nextSteps = [
+    ...new Set(runs.flatMap((run) => run.config.ui.getOutroNextSteps({}))),
+  ].filter(Boolean);
+  const docsUrls = [...new Set(runs.map((run) => run.config.metadata.docsUrl))];
 
-  const outroMessage = `${chalk.white('Raindrop successfully integrated')}
+  const outroMessage = `${chalk.white(
+    runs.length > 1
+      ? `Raindrop successfully integrated (${runs
+          .map((run) => run.config.metadata.name)
+          .join(', ')})`
+      : 'Raindrop successfully integrated',
+  )}
 
 ${chalk.yellow('Next steps:')}
 ${nextSteps.map((step) => `• ${step}`).join('\n')}
 
-Learn more: ${chalk.cyan(config.metadata.docsUrl)}
+Learn more: ${docsUrls.map((url) => chalk.cyan(url)).join(' ')}
 ${chalk.dim(
   'Note: This wizard uses an LLM agent to analyze and modify your project. Please review the changes made.',
+)}
+${chalk.dim(
+  `To revert the files changed by the wizard, run: npx @raindrop/wizard undo --session ${options.sessionId}`,
 )}`;
 
   ui.addItem({ type: 'success', text: outroMessage });
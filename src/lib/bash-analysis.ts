@@ -0,0 +1,619 @@
+/**
+ * Shell-aware safety analysis for Bash tool calls.
+ * Splits compound commands (&&, ||, ;, |, &, subshells, $(...), backticks)
+ * into simple command segments and requires every segment to be safe before
+ * a command can be auto-approved.
+ */
+
+import { SAFE_BASH_PATTERNS } from './constants.js';
+
+/**
+ * A redirection attached to a command segment, e.g. `> out.txt` or `2>&1`
+ */
+export interface ShellRedirect {
+  operator: string;
+  target: string;
+}
+
+/**
+ * A simple command: the words that are executed plus their redirections
+ */
+export interface ShellSegment {
+  words: string[];
+  redirects: ShellRedirect[];
+  /** Assignments preceding the command, e.g. `FOO=bar` in `FOO=bar npm test` */
+  assignments: string[];
+  /** Whether the command name contains a variable or command substitution */
+  dynamicCommand: boolean;
+}
+
+/**
+ * Result of parsing a shell command
+ */
+export interface ParsedShellCommand {
+  segments: ShellSegment[];
+  /** Set when the command could not be parsed (e.g. an unterminated quote) */
+  error?: string;
+}
+
+/**
+ * Result of analyzing a shell command for auto-approval
+ */
+export interface BashAnalysis {
+  safe: boolean;
+  /** Why the command needs approval, when it is not safe */
+  reason?: string;
+  segments: ShellSegment[];
+}
+
+type ShellToken =
+  | { type: 'word'; value: string; dynamic: boolean }
+  | { type: 'operator'; value: string }
+  | { type: 'redirect'; operator: string; target: string };
+
+class ShellParseError extends Error {}
+
+/**
+ * Redirection operators, longest first so the scanner is greedy
+ */
+const REDIRECT_OPERATORS = [
+  '&>>',
+  '<<<',
+  '<<-',
+  '&>',
+  '>>',
+  '>|',
+  '>&',
+  '<<',
+  '<&',
+  '<>',
+  '>',
+  '<',
+];
+
+/**
+ * Control operators, longest first so the scanner is greedy
+ */
+const CONTROL_OPERATORS = ['&&', '||', ';;', '|&', ';', '|', '&', '(', ')'];
+
+/**
+ * Redirections that write to their target
+ */
+const WRITE_REDIRECTS = new Set(['>', '>>', '>|', '&>', '&>>', '<>', '>&']);
+
+/**
+ * Redirections whose target is an inline document rather than a file
+ */
+const HEREDOC_REDIRECTS = new Set(['<<', '<<-']);
+
+/**
+ * Arguments that turn an otherwise read-only command into one that executes
+ * or modifies things, keyed by the command words they apply to.
+ */
+const UNSAFE_ARGUMENTS: Array<{ command: string[]; argument: RegExp }> = [
+  {
+    command: ['find'],
+    argument: /^-(exec|execdir|ok|okdir|delete|fprint0?|fprintf|fls)$/,
+  },
+  { command: ['rg'], argument: /^--(pre|hostname-bin)(=|$)/ },
+  { command: ['tree'], argument: /^-o$/ },
+  { command: ['git'], argument: /^--output(=|$)/ },
+  {
+    command: ['git', 'branch'],
+    argument: /^(-[dDmMcCf]+|--delete|--move|--copy|--force)$/,
+  },
+];
+
+const ASSIGNMENT_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*=/;
+
+/**
+ * Scans a shell command into tokens. Command substitutions and process
+ * substitutions are collected so they can be analyzed as commands too.
+ */
+class ShellScanner {
+  private pos = 0;
+  readonly substitutions: string[] = [];
+
+  constructor(private readonly input: string) {}
+
+  tokenize(): ShellToken[] {
+    const tokens: ShellToken[] = [];
+
+    while (this.pos < this.input.length) {
+      const char = this.input[this.pos];
+
+      // Any other whitespace, e.g. the \r of CRLF line endings, separates
+      // words like a space
+      if (/[^\S\n]/.test(char)) {
+        this.pos++;
+      } else if (char === '\n') {
+        tokens.push({ type: 'operator', value: ';' });
+        this.pos++;
+      } else if (char === '\\' && this.input[this.pos + 1] === '\n') {
+        this.pos += 2;
+      } else if (char === '#') {
+        // Comment until end of line
+        while (this.pos < this.input.length && this.input[this.pos] !== '\n') {
+          this.pos++;
+        }
+      } else if (this.startsProcessSubstitution()) {
+        const value = `${char}(...)`;
+        this.pos++;
+        this.substitutions.push(this.readBalanced());
+        tokens.push({ type: 'word', value, dynamic: true });
+      } else {
+        const redirect = this.matchAny(REDIRECT_OPERATORS);
+        if (redirect) {
+          this.pos += redirect.length;
+          tokens.push(this.readRedirect(redirect));
+          continue;
+        }
+
+        const operator = this.matchAny(CONTROL_OPERATORS);
+        if (operator) {
+          this.pos += operator.length;
+          tokens.push({ type: 'operator', value: operator });
+          continue;
+        }
+
+        const start = this.pos;
+        const word = this.readWord();
+        if (this.pos === start) {
+          throw new ShellParseError(
+            `Unexpected character ${JSON.stringify(char)}`,
+          );
+        }
+        // A number directly followed by a redirection is a file descriptor
+        const fdRedirect = /^\d+$/.test(word.value)
+          ? this.matchAny(REDIRECT_OPERATORS)
+          : undefined;
+        if (fdRedirect) {
+          this.pos += fdRedirect.length;
+          tokens.push(this.readRedirect(`${word.value}${fdRedirect}`));
+        } else {
+          tokens.push(word);
+        }
+      }
+    }
+
+    return tokens;
+  }
+
+  private matchAny(operators: string[]): string | undefined {
+    return operators.find((op) => this.input.startsWith(op, this.pos));
+  }
+
+  private startsProcessSubstitution(): boolean {
+    const char = this.input[this.pos];
+    return (char === '<' || char === '>') && this.input[this.pos + 1] === '(';
+  }
+
+  private readRedirect(operator: string): ShellToken {
+    while (/[^\S\n]/.test(this.input[this.pos] ?? '')) {
+      this.pos++;
+    }
+    if (this.startsProcessSubstitution()) {
+      const target = `${this.input[this.pos]}(...)`;
+      this.pos++;
+      this.substitutions.push(this.readBalanced());
+      return { type: 'redirect', operator, target };
+    }
+    const target = this.readWord();
+    if (target.value === '' && !target.dynamic) {
+      throw new ShellParseError(`Missing target for redirection ${operator}`);
+    }
+    return { type: 'redirect', operator, target: target.value };
+  }
+
+  /**
+   * Read one word, handling quotes, escapes and substitutions
+   */
+  private readWord(): { type: 'word'; value: string; dynamic: boolean } {
+    let value = '';
+    let dynamic = false;
+
+    while (this.pos < this.input.length) {
+      const char = this.input[this.pos];
+
+      if (/\s/.test(char) || this.isOperatorStart()) {
+        break;
+      }
+
+      if (char === '\\') {
+        if (this.input[this.pos + 1] !== '\n') {
+          value += this.input[this.pos + 1] ?? '';
+        }
+        this.pos += 2;
+      } else if (char === "'") {
+        const end = this.input.indexOf("'", this.pos + 1);
+        if (end === -1) {
+          throw new ShellParseError('Unterminated single quote');
+        }
+        value += this.input.slice(this.pos + 1, end);
+        this.pos = end + 1;
+      } else if (char === '"') {
+        const quoted = this.readDoubleQuoted();
+        value += quoted.value;
+        dynamic = dynamic || quoted.dynamic;
+      } else if (char === '$' || char === '`') {
+        value += this.readExpansion();
+        dynamic = true;
+      } else {
+        value += char;
+        this.pos++;
+      }
+    }
+
+    return { type: 'word', value, dynamic };
+  }
+
+  private isOperatorStart(): boolean {
+    const char = this.input[this.pos];
+    return (
+      char === ';' ||
+      char === '&' ||
+      char === '|' ||
+      char === '(' ||
+      char === ')' ||
+      char === '<' ||
+      char === '>'
+    );
+  }
+
+  private readDoubleQuoted(): { value: string; dynamic: boolean } {
+    let value = '';
+    let dynamic = false;
+    this.pos++;
+
+    while (this.pos < this.input.length) {
+      const char = this.input[this.pos];
+      if (char === '"') {
+        this.pos++;
+        return { value, dynamic };
+      }
+      if (char === '\\' && '\\"$`\n'.includes(this.input[this.pos + 1])) {
+        if (this.input[this.pos + 1] !== '\n') {
+          value += this.input[this.pos + 1];
+        }
+        this.pos += 2;
+      } else if (char === '$' || char === '`') {
+        value += this.readExpansion();
+        dynamic = true;
+      } else {
+        value += char;
+        this.pos++;
+      }
+    }
+
+    throw new ShellParseError('Unterminated double quote');
+  }
+
+  /**
+   * Read a $-expansion or backtick substitution starting at the current
+   * position. Command substitutions are recorded for analysis.
+   */
+  private readExpansion(): string {
+    const start = this.pos;
+
+    if (this.input[this.pos] === '`') {
+      let end = this.pos + 1;
+      let inner = '';
+      while (end < this.input.length && this.input[end] !== '`') {
+        if (this.input[end] === '\\' && end + 1 < this.input.length) {
+          inner += this.input[end + 1];
+          end += 2;
+        } else {
+          inner += this.input[end++];
+        }
+      }
+      if (end >= this.input.length) {
+        throw new ShellParseError('Unterminated backtick substitution');
+      }
+      this.pos = end + 1;
+      this.substitutions.push(inner);
+      return this.input.slice(start, this.pos);
+    }
+
+    // $(...) command substitution (and $((...)) arithmetic, analyzed the same way)
+    if (this.input[this.pos + 1] === '(') {
+      this.pos++;
+      this.substitutions.push(this.readBalanced());
+      return this.input.slice(start, this.pos);
+    }
+
+    // ${...} parameter expansion
+    if (this.input[this.pos + 1] === '{') {
+      const end = this.input.indexOf('}', this.pos + 2);
+      if (end === -1) {
+        throw new ShellParseError('Unterminated parameter expansion');
+      }
+      this.pos = end + 1;
+      return this.input.slice(start, this.pos);
+    }
+
+    // $VAR, $1, $?, ...
+    this.pos++;
+    const name = /^([A-Za-z_][A-Za-z0-9_]*|[0-9?$!#*@-])/.exec(
+      this.input.slice(this.pos),
+    );
+    if (name) {
+      this.pos += name[0].length;
+    }
+    return this.input.slice(start, this.pos);
+  }
+
+  /**
+   * Read a parenthesized body starting at "(" and return its contents
+   */
+  private readBalanced(): string {
+    const start = this.pos + 1;
+    let depth = 0;
+    let quote: string | null = null;
+
+    while (this.pos < this.input.length) {
+      const char = this.input[this.pos];
+      if (quote) {
+        if (char === '\\' && quote === '"') {
+          this.pos++;
+        } else if (char === quote) {
+          quote = null;
+        }
+      } else if (char === '\\') {
+        this.pos++;
+      } else if (char === "'" || char === '"' || char === '`') {
+        quote = char;
+      } else if (char === '(') {
+        depth++;
+      } else if (char === ')') {
+        depth--;
+        if (depth === 0) {
+          this.pos++;
+          return this.input.slice(start, this.pos - 1);
+        }
+      }
+      this.pos++;
+    }
+
+    throw new ShellParseError('Unterminated substitution');
+  }
+}
+
+/**
+ * Split tokens into simple command segments
+ */
+function toSegments(tokens: ShellToken[]): ShellSegment[] {
+  const segments: ShellSegment[] = [];
+  let current: ShellSegment | null = null;
+
+  const finish = () => {
+    if (
+      current &&
+      (current.words.length > 0 ||
+        current.redirects.length > 0 ||
+        current.assignments.length > 0)
+    ) {
+      segments.push(current);
+    }
+    current = null;
+  };
+
+  for (const token of tokens) {
+    if (token.type === 'operator') {
+      finish();
+      continue;
+    }
+
+    current ??= {
+      words: [],
+      redirects: [],
+      assignments: [],
+      dynamicCommand: false,
+    };
+
+    if (token.type === 'redirect') {
+      current.redirects.push({
+        operator: token.operator,
+        target: token.target,
+      });
+      continue;
+    }
+
+    if (current.words.length === 0) {
+      // Group braces around a command list are not part of any command
+      if (token.value === '{' || token.value === '}') {
+        continue;
+      }
+      if (ASSIGNMENT_PATTERN.test(token.value)) {
+        current.assignments.push(token.value);
+        continue;
+      }
+      current.dynamicCommand = token.dynamic;
+    }
+    current.words.push(token.value);
+  }
+  finish();
+
+  return segments;
+}
+
+/**
+ * Parse a shell command into simple command segments, including the
+ * commands inside command and process substitutions.
+ */
+export function parseShellCommand(command: string): ParsedShellCommand {
+  const segments: ShellSegment[] = [];
+  const pending = [command];
+
+  try {
+    while (pending.length > 0) {
+      const scanner = new ShellScanner(pending.shift() ?? '');
+      segments.push(...toSegments(scanner.tokenize()));
+      pending.push(...scanner.substitutions);
+    }
+  } catch (error) {
+    if (error instanceof ShellParseError) {
+      return { segments, error: error.message };
+    }
+    throw error;
+  }
+
+  return { segments };
+}
+
+/**
+ * Check whether command words match a SAFE_BASH_PATTERNS entry.
+ * - 'npm install*' matches `npm install` followed by any arguments
+ * - '*--version' matches any single command followed by `--version`
+ * - 'pwd' matches exactly
+ */
+export function matchesSafePattern(words: string[], pattern: string): boolean {
+  if (pattern.startsWith('*')) {
+    return words.length === 2 && words[1] === pattern.slice(1);
+  }
+
+  const matchesRest = pattern.endsWith('*');
+  const patternWords = (matchesRest ? pattern.slice(0, -1) : pattern)
+    .trim()
+    .split(/\s+/);
+
+  if (
+    words.length < patternWords.length ||
+    (!matchesRest && words.length !== patternWords.length)
+  ) {
+    return false;
+  }
+  return patternWords.every((word, i) => words[i] === word);
+}
+
+/**
+ * Find an argument that makes an otherwise safe command unsafe
+ */
+function findUnsafeArgument(words: string[]): string | undefined {
+  for (const { command, argument } of UNSAFE_ARGUMENTS) {
+    if (command.every((word, i) => words[i] === word)) {
+      const match = words.slice(command.length).find((w) => argument.test(w));
+      if (match) {
+        return match;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check whether a redirection writes to a file
+ */
+function isFileWrite(redirect: ShellRedirect): boolean {
+  const operator = redirect.operator.replace(/^\d+/, '');
+  if (!WRITE_REDIRECTS.has(operator)) {
+    return false;
+  }
+  if (redirect.target === '/dev/null') {
+    return false;
+  }
+  // Duplicating or closing a file descriptor, e.g. 2>&1 or >&-
+  return !(operator === '>&' && /^(\d+|-)$/.test(redirect.target));
+}
+
+/**
+ * Format segment words for display in a reason
+ */
+function formatSegment(segment: ShellSegment): string {
+  return [...segment.assignments, ...segment.words].join(' ');
+}
+
+/**
+ * Find why a single segment needs approval, or undefined if it is safe
+ */
+function getSegmentIssue(
+  segment: ShellSegment,
+  isAllowed: (words: string[]) => boolean,
+): string | undefined {
+  const heredoc = segment.redirects.find((r) =>
+    HEREDOC_REDIRECTS.has(r.operator.replace(/^\d+/, '')),
+  );
+  if (heredoc) {
+    return 'Uses a heredoc, which cannot be analyzed';
+  }
+
+  const write = segment.redirects.find(isFileWrite);
+  if (write) {
+    return `Writes to ${write.target} via redirection (${write.operator})`;
+  }
+
+  if (segment.assignments.length > 0) {
+    return `Sets environment variables for the command (${segment.assignments.join(
+      ' ',
+    )})`;
+  }
+
+  if (segment.words.length === 0) {
+    return undefined;
+  }
+
+  if (segment.dynamicCommand) {
+    return `The command name \`${segment.words[0]}\` is computed at runtime`;
+  }
+
+  const unsafeArgument = findUnsafeArgument(segment.words);
+  if (unsafeArgument) {
+    return `\`${segment.words[0]}\` with ${unsafeArgument} can run or modify files`;
+  }
+
+  if (!isAllowed(segment.words)) {
+    return `\`${formatSegment(segment)}\` is not on the list of safe commands`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Options for analyzeBashCommand
+ */
+export interface BashAnalysisOptions {
+  /** Auto-approve segments matching SAFE_BASH_PATTERNS (default true) */
+  builtinSafeCommands?: boolean;
+  /** Additional check for segments allowed by the permission policy */
+  isAllowed?: (words: string[]) => boolean;
+}
+
+/**
+ * Analyze a Bash command for auto-approval. The command is safe only when
+ * it parses, every segment is an allowed command, and nothing writes to a
+ * file via redirection.
+ */
+export function analyzeBashCommand(
+  command: string,
+  options: BashAnalysisOptions = {},
+): BashAnalysis {
+  const { builtinSafeCommands = true, isAllowed } = options;
+  const parsed = parseShellCommand(command);
+
+  if (parsed.error) {
+    return {
+      safe: false,
+      reason: `Could not analyze the command: ${parsed.error}`,
+      segments: parsed.segments,
+    };
+  }
+
+  if (parsed.segments.length === 0) {
+    return { safe: false, reason: 'The command is empty', segments: [] };
+  }
+
+  const isSegmentAllowed = (words: string[]) =>
+    (builtinSafeCommands &&
+      SAFE_BASH_PATTERNS.some((pattern) =>
+        matchesSafePattern(words, pattern),
+      )) ||
+    (isAllowed?.(words) ?? false);
+
+  for (const segment of parsed.segments) {
+    const reason = getSegmentIssue(segment, isSegmentAllowed);
+    if (reason) {
+      return { safe: false, reason, segments: parsed.segments };
+    }
+  }
+
+  return { safe: true, segments: parsed.segments };
+}
@@ -0,0 +1,392 @@
+/**
+ * Deterministic codemods for the most common Raindrop instrumentation edits.
+ * The agent runs them as MCP tools (see mcp.ts) instead of editing by hand,
+ * so these edits are reproducible, reviewable and cheap.
+ */
+
+import {
+  addPropertyEdit,
+  applyEdits,
+  findConstructorOptions,
+  findNodes,
+  findProperty,
+  parseProgram,
+  type AstNode,
+  type SourceEdit,
+} from '../utils/ast.js';
+
+/**
+ * Vercel AI SDK functions that accept experimental_telemetry
+ */
+export const AI_SDK_FUNCTIONS = [
+  'generateText',
+  'streamText',
+  'generateObject',
+  'streamObject',
+  'embed',
+  'embedMany',
+] as const;
+
+/**
+ * Result of a codemod on a source file
+ */
+export interface CodemodResult {
+  code: string;
+  /** What was changed, e.g. "line 12: enabled telemetry on generateText" */
+  changes: string[];
+  /** What was left alone and why, for the agent to handle by hand */
+  skipped: string[];
+}
+
+/**
+ * A Vercel AI SDK call in a module
+ */
+export interface AiSdkCall {
+  functionName: (typeof AI_SDK_FUNCTIONS)[number];
+  line: number;
+  node: AstNode;
+  /** The options object literal, undefined if the options are not one */
+  options?: AstNode;
+}
+
+function getLine(node: AstNode): number {
+  return node.loc?.start.line ?? 0;
+}
+
+function isAiSdkFunction(
+  name: unknown,
+): name is (typeof AI_SDK_FUNCTIONS)[number] {
+  return (AI_SDK_FUNCTIONS as readonly unknown[]).includes(name);
+}
+
+function getImports(program: AstNode, packageName: string): AstNode[] {
+  return (program.body as AstNode[]).filter(
+    (statement) =>
+      statement.type === 'ImportDeclaration' &&
+      (statement.source as AstNode).value === packageName,
+  );
+}
+
+/**
+ * The calls of Vercel AI SDK functions imported from 'ai', by name or
+ * through a namespace import
+ */
+export function findAiSdkCalls(program: AstNode): AiSdkCall[] {
+  const functionsByLocalName = new Map<string, AiSdkCall['functionName']>();
+  const namespaces = new Set<string>();
+  for (const declaration of getImports(program, 'ai')) {
+    for (const specifier of declaration.specifiers as AstNode[]) {
+      const local = (specifier.local as AstNode).name as string;
+      if (specifier.type === 'ImportNamespaceSpecifier') {
+        namespaces.add(local);
+      } else if (specifier.type === 'ImportSpecifier') {
+        const imported = (specifier.imported as AstNode).name;
+        if (isAiSdkFunction(imported)) {
+          functionsByLocalName.set(local, imported);
+        }
+      }
+    }
+  }
+
+  return findNodes(program, 'CallExpression').flatMap((node) => {
+    const callee = node.callee as AstNode;
+    let functionName: AiSdkCall['functionName'] | undefined;
+    if (callee.type === 'Identifier') {
+      functionName = functionsByLocalName.get(callee.name as string);
+    } else if (
+      callee.type === 'MemberExpression' &&
+      (callee.object as AstNode).type === 'Identifier' &&
+      namespaces.has((callee.object as AstNode).name as string)
+    ) {
+      const property = (callee.property as AstNode).name;
+      functionName = isAiSdkFunction(property) ? property : undefined;
+    }
+    if (!functionName) {
+      return [];
+    }
+
+    const [options] = node.arguments as AstNode[];
+    return [
+      {
+        functionName,
+        line: getLine(node),
+        node,
+        options: options?.type === 'ObjectExpression' ? options : undefined,
+      },
+    ];
+  });
+}
+
+/**
+ * Enable `experimental_telemetry` on every Vercel AI SDK call in a module.
+ * Calls whose options aren't an object literal are skipped.
+ */
+export function addAiSdkTelemetry(
+  source: string,
+  options: { functionId?: string } = {},
+): CodemodResult {
+  const edits: SourceEdit[] = [];
+  const changes: string[] = [];
+  const skipped: string[] = [];
+
+  for (const call of findAiSdkCalls(parseProgram(source))) {
+    const where = `line ${call.line}: ${call.functionName}`;
+    if (!call.options) {
+      skipped.push(`${where} (its options are not an object literal)`);
+      continue;
+    }
+
+    const telemetry = findProperty(call.options, 'experimental_telemetry');
+    if (!telemetry) {
+      const functionId = options.functionId
+        ? `, functionId: ${JSON.stringify(options.functionId)}`
+        : '';
+      edits.push(
+        addPropertyEdit(
+          call.options,
+          `experimental_telemetry: { isEnabled: true${functionId} }`,
+        ),
+      );
+      changes.push(`${where}: enabled telemetry`);
+      continue;
+    }
+
+    const value = telemetry.value as AstNode;
+    if (value.type !== 'ObjectExpression') {
+      skipped.push(
+        `${where} (experimental_telemetry is not an object literal)`,
+      );
+      continue;
+    }
+    const isEnabled = findProperty(value, 'isEnabled');
+    const enabled = isEnabled?.value as AstNode | undefined;
+    if (!isEnabled) {
+      edits.push(addPropertyEdit(value, 'isEnabled: true'));
+      changes.push(`${where}: enabled telemetry`);
+    } else if (enabled?.type === 'BooleanLiteral' && enabled.value === false) {
+      edits.push({
+        start: enabled.start ?? 0,
+        end: enabled.end ?? 0,
+        text: 'true',
+      });
+      changes.push(`${where}: enabled telemetry`);
+    } else if (enabled?.type !== 'BooleanLiteral') {
+      skipped.push(`${where} (isEnabled is not a literal)`);
+    }
+  }
+
+  return { code: applyEdits(source, edits), changes, skipped };
+}
+
+/**
+ * AI client libraries the Raindrop SDK can be told to instrument
+ */
+export const INSTRUMENTED_MODULES = {
+  openai: {
+    packageName: 'openai',
+    key: 'openAI',
+    // The constructor, the default export or the named export OpenAI
+    importType: 'ImportDefaultSpecifier',
+    importedName: 'OpenAI',
+    localName: 'OpenAI',
+  },
+  anthropic: {
+    packageName: '@anthropic-ai/sdk',
+    key: 'anthropic',
+    // The SDK needs the module namespace, not the default export
+    importType: 'ImportNamespaceSpecifier',
+    importedName: undefined,
+    localName: 'AnthropicModule',
+  },
+} as const;
+
+export type InstrumentedModule = keyof typeof INSTRUMENTED_MODULES;
+
+// Whether a module uses require() instead of import declarations
+function isCommonJs(program: AstNode): boolean {
+  const body = program.body as AstNode[];
+  if (
+    body.some(
+      (statement) =>
+        statement.type === 'ImportDeclaration' ||
+        statement.type.startsWith('Export'),
+    )
+  ) {
+    return false;
+  }
+  return findNodes(program, 'CallExpression').some((call) => {
+    const callee = call.callee as AstNode;
+    return callee.type === 'Identifier' && callee.name === 'require';
+  });
+}
+
+// The existing import a module's entry in instrumentModules can use
+function findModuleImport(
+  program: AstNode,
+  module: InstrumentedModule,
+): AstNode | undefined {
+  const config = INSTRUMENTED_MODULES[module];
+  return getImports(program, config.packageName)
+    .filter((declaration) => declaration.importKind !== 'type')
+    .flatMap((declaration) => declaration.specifiers as AstNode[])
+    .find(
+      (specifier) =>
+        specifier.type === config.importType ||
+        (specifier.type === 'ImportSpecifier' &&
+          specifier.importKind !== 'type' &&
+          config.importedName !== undefined &&
+          (specifier.imported as AstNode).name === config.importedName),
+    );
+}
+
+// A name for a new import that isn't used in the module yet
+function getUnusedName(name: string, usedNames: Set<string>): string {
+  let candidate = name;
+  for (let suffix = 2; usedNames.has(candidate); suffix++) {
+    candidate = `${name}${suffix}`;
+  }
+  usedNames.add(candidate);
+  return candidate;
+}
+
+// Where new imports go: after the last import, or after the directives
+// (e.g. 'use server') at the top of the module
+function getImportPosition(program: AstNode): number {
+  const imports = (program.body as AstNode[]).filter(
+    (statement) => statement.type === 'ImportDeclaration',
+  );
+  const last =
+    imports[imports.length - 1] ??
+    (program.directives as AstNode[] | undefined)?.slice(-1)[0];
+  return last?.end ?? 0;
+}
+
+/**
+ * Pass the OpenAI and Anthropic modules to `new Raindrop({...})` as
+ * `instrumentModules`, importing them as the SDK requires, so their clients
+ * are instrumented regardless of module loading order or bundling
+ */
+export function instrumentAiClients(
+  source: string,
+  modules: InstrumentedModule[],
+): CodemodResult {
+  const program = parseProgram(source);
+  const raindropOptions = findConstructorOptions(program, 'Raindrop');
+  if (raindropOptions.length === 0) {
+    throw new Error('The file has no `new Raindrop({...})` call');
+  }
+  // Adding import declarations would break a CommonJS module
+  if (isCommonJs(program)) {
+    return {
+      code: source,
+      changes: [],
+      skipped: [
+        'the file uses require(), add instrumentModules with require()d modules by hand',
+      ],
+    };
+  }
+
+  // The identifier each module is imported as, and the import to add
+  const usedNames = new Set(
+    findNodes(program, 'Identifier').map((node) => node.name as string),
+  );
+  const imports = modules.map((module) => {
+    const config = INSTRUMENTED_MODULES[module];
+    const existing = findModuleImport(program, module);
+    if (existing) {
+      return { module, localName: (existing.local as AstNode).name as string };
+    }
+    const localName = getUnusedName(config.localName, usedNames);
+    return {
+      module,
+      localName,
+      statement:
+        config.importType === 'ImportNamespaceSpecifier'
+          ? `import * as ${localName} from "${config.packageName}";`
+          : `import ${localName} from "${config.packageName}";`,
+    };
+  });
+
+  const edits: SourceEdit[] = [];
+  const changes: string[] = [];
+  const used = new Set<InstrumentedModule>();
+
+  for (const options of raindropOptions) {
+    const line = getLine(options);
+    const instrumentModules = findProperty(options, 'instrumentModules');
+    const value = instrumentModules?.value as AstNode | undefined;
+    if (value && value.type !== 'ObjectExpression') {
+      throw new Error(
+        `instrumentModules on line ${line} is not an object literal`,
+      );
+    }
+
+    const missing = imports.filter(
+      ({ module }) =>
+        !value || !findProperty(value, INSTRUMENTED_MODULES[module].key),
+    );
+    if (missing.length === 0) {
+      continue;
+    }
+    const entries = missing.map(
+      ({ module, localName }) =>
+        `${INSTRUMENTED_MODULES[module].key}: ${localName}`,
+    );
+    missing.forEach(({ module }) => used.add(module));
+
+    if (value) {
+      entries.forEach((entry) => edits.push(addPropertyEdit(value, entry)));
+      changes.push(
+        `line ${line}: added ${entries.join(', ')} to instrumentModules`,
+      );
+    } else {
+      edits.push(
+        addPropertyEdit(
+          options,
+          `instrumentModules: { ${entries.join(', ')} }`,
+        ),
+      );
+      changes.push(`line ${line}: added instrumentModules`);
+    }
+  }
+
+  const statements = imports
+    .filter(({ module, statement }) => statement && used.has(module))
+    .map(({ statement }) => statement);
+  if (statements.length > 0) {
+    const position = getImportPosition(program);
+    edits.push({
+      start: position,
+      end: position,
+      text:
+        position === 0
+          ? `${statements.join('\n')}\n`
+          : `\n${statements.join('\n')}`,
+    });
+    changes.push(`imported ${statements.join(' ')}`);
+  }
+
+  return { code: applyEdits(source, edits), changes, skipped: [] };
+}
+
+/**
+ * The codemods the agent can run, by MCP tool name, applied to a file's
+ * source with the tool's input
+ */
+export const CODEMOD_TOOLS: Record<
+  string,
+  (source: string, input: Record<string, unknown>) => CodemodResult
+> = {
+  AddAiSdkTelemetry: (source, input) =>
+    addAiSdkTelemetry(source, {
+      functionId:
+        typeof input.functionId === 'string' ? input.functionId : undefined,
+    }),
+  InstrumentAiClients: (source, input) =>
+    instrumentAiClients(
+      source,
+      (Array.isArray(input.modules)
+        ? input.modules
+        : []) as InstrumentedModule[],
+    ),
+};
@@ -14,7 +14,9 @@ export type SetupDetail = {
 };
 
 type IntegrationConfig = {
-  detect: (options: Pick<WizardOptions, 'installDir'>) => Promise<boolean>;
+  detect: (
+    options: Pick<WizardOptions, 'installDir'>,
+  ) => Promise<DetectionResult>;
   docsUrl: string;
   collectSetupDetails: (installDir: string) => Promise<SetupDetail[]>;
 };
@@ -240,8 +242,179 @@ async function collectTypeScriptSetupDetails(
   return details;
 }
 
+/**
+ * Kind of evidence that a project uses an integration
+ * - import: a source file imports an AI SDK
+ * - dependency: a dependency manifest lists an AI SDK
+ * - language: the project uses the language, but this is no sign of AI usage
+ */
+export type DetectionEvidenceKind = 'import' | 'dependency' | 'language';
+
+/**
+ * A single piece of evidence found during detection
+ */
+export type DetectionEvidence = {
+  kind: DetectionEvidenceKind;
+  /** File the evidence was found in, relative to the install directory */
+  file: string;
+  /** 1-based line number, if the evidence is a single line */
+  line?: number;
+  /** The matching import line or manifest entry, or a description */
+  text: string;
+};
+
+/**
+ * Result of detecting one integration
+ */
+export type DetectionResult = {
+  /** Confidence between 0 and 1, 0 if the integration doesn't match */
+  confidence: number;
+  evidence: DetectionEvidence[];
+};
+
+/**
+ * Detection confidence by kind of evidence
+ */
+const CONFIDENCE: Record<DetectionEvidenceKind, number> = {
+  import: 0.9,
+  dependency: 0.7,
+  language: 0.3,
+};
+
+/**
+ * Minimum confidence for a project to count as using an AI SDK
+ */
+export const AI_SDK_CONFIDENCE_THRESHOLD = 0.5;
+
+// Source files are scanned until this many imports are found, so detection
+// stays fast in large repositories
+const MAX_IMPORT_EVIDENCE = 20;
+
+// Language evidence is only a weak signal, a few examples are enough
+const MAX_LANGUAGE_EVIDENCE = 5;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/-]/g, '\\$&');
+}
+
+function toDetectionResult(evidence: DetectionEvidence[]): DetectionResult {
+  return {
+    confidence: Math.max(0, ...evidence.map(({ kind }) => CONFIDENCE[kind])),
+    evidence,
+  };
+}
+
+/**
+ * Find import lines matching any of the patterns in source files
+ */
+async function findImportEvidence(
+  installDir: string,
+  source: string,
+  ignore: string[],
+  patterns: RegExp[],
+): Promise<DetectionEvidence[]> {
+  const files = await fg(source, { cwd: installDir, ignore, onlyFiles: true });
+
+  const evidence: DetectionEvidence[] = [];
+  for (const file of files.sort()) {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(
+        path.join(installDir, file),
+        'utf-8',
+      );
+    } catch {
+      // Skip files that can't be read
+      continue;
+    }
+
+    const lines = content.split('\n');
+    for (let index = 0; index < lines.length; index++) {
+      if (patterns.some((pattern) => pattern.test(lines[index]))) {
+        evidence.push({
+          kind: 'import',
+          file,
+          line: index + 1,
+          text: lines[index].trim(),
+        });
+        if (evidence.length >= MAX_IMPORT_EVIDENCE) {
+          return evidence;
+        }
+      }
+    }
+  }
+  return evidence;
+}
+
+/**
+ * Find the lines of a manifest file that mention any of the packages
+ */
+async function findManifestEvidence(
+  installDir: string,
+  file: string,
+  matches: (line: string, pkg: string) => boolean,
+  packages: string[],
+): Promise<DetectionEvidence[]> {
+  let content: string;
+  try {
+    content = await fs.promises.readFile(path.join(installDir, file), 'utf-8');
+  } catch {
+    return [];
+  }
+
+  const evidence: DetectionEvidence[] = [];
+  content.split('\n').forEach((line, index) => {
+    const lineLower = line.toLowerCase();
+    if (packages.some((pkg) => matches(lineLower, pkg.toLowerCase()))) {
+      evidence.push({
+        kind: 'dependency',
+        file,
+        line: index + 1,
+        text: line.trim(),
+      });
+    }
+  });
+  return evidence;
+}
+
+/**
+ * Find the dependencies of package.json that are in the packages list
+ */
+async function findPackageJsonEvidence(
+  installDir: string,
+  isMatch: (dependency: string) => boolean,
+): Promise<DetectionEvidence[]> {
+  let packageJson: {
+    dependencies?: Record<string, string>;
+    devDependencies?: Record<string, string>;
+  };
+  try {
+    packageJson = JSON.parse(
+      await fs.promises.readFile(
+        path.join(installDir, 'package.json'),
+        'utf-8',
+      ),
+    ) as typeof packageJson;
+  } catch {
+    // No package.json, or it couldn't be read/parsed
+    return [];
+  }
+
+  const deps = {
+    ...(packageJson.dependencies || {}),
+    ...(packageJson.devDependencies || {}),
+  };
+  return Object.entries(deps)
+    .filter(([dependency]) => isMatch(dependency))
+    .map(([dependency, version]) => ({
+      kind: 'dependency' as const,
+      file: 'package.json',
+      text: `"${dependency}": "${version}"`,
+    }));
+}
+
 // Python AI SDK import patterns to detect
-const PYTHON_AI_SDK_IMPORT_PATTERNS = [
+export const PYTHON_AI_SDK_IMPORT_PATTERNS = [
   // Direct provider SDKs
   /(?:from|import)\s+openai/,
   /(?:from|import)\s+anthropic/,
@@ -267,6 +440,14 @@ const PYTHON_AI_SDK_IMPORT_PATTERNS = [
   /from\s+google\.cloud\s+import\s+aiplatform/,
 ];
 
+export const PYTHON_SOURCE_IGNORE = [
+  '**/node_modules/**',
+  '**/__pycache__/**',
+  '**/.venv/**',
+  '**/venv/**',
+  '**/site-packages/**',
+];
+
 // Python AI SDK package names (for checking requirements/pyproject)
 const PYTHON_AI_SDK_PACKAGES = [
   // Direct provider SDKs
@@ -303,98 +484,100 @@ const PYTHON_AI_SDK_PACKAGES = [
 
 async function detectPythonProject(
   options: Pick<WizardOptions, 'installDir'>,
-): Promise<boolean> {
+): Promise<DetectionResult> {
   // Check for Python files with AI SDK imports
-  const pythonFiles = await fg('**/*.py', {
-    cwd: options.installDir,
-    ignore: [
-      '**/node_modules/**',
-      '**/__pycache__/**',
-      '**/.venv/**',
-      '**/venv/**',
-      '**/site-packages/**',
-    ],
-    onlyFiles: true,
-  });
-
-  for (const file of pythonFiles) {
-    try {
-      const filePath = path.join(options.installDir, file);
-      const content = await fs.promises.readFile(filePath, 'utf-8');
-
-      if (
-        PYTHON_AI_SDK_IMPORT_PATTERNS.some((pattern) => pattern.test(content))
-      ) {
-        return true;
-      }
-    } catch {
-      // Skip files that can't be read
-      continue;
-    }
-  }
-
-  // Check for AI SDK packages in requirements.txt
-  const requirementsPath = path.join(options.installDir, 'requirements.txt');
-  if (fs.existsSync(requirementsPath)) {
-    try {
-      const content = await fs.promises.readFile(requirementsPath, 'utf-8');
-      const lines = content.toLowerCase().split('\n');
-      for (const pkg of PYTHON_AI_SDK_PACKAGES) {
-        if (lines.some((line) => line.startsWith(pkg.toLowerCase()))) {
-          return true;
-        }
-      }
-    } catch {
-      // Skip if can't read
-    }
-  }
+  const imports = await findImportEvidence(
+    options.installDir,
+    '**/*.py',
+    PYTHON_SOURCE_IGNORE,
+    PYTHON_AI_SDK_IMPORT_PATTERNS,
+  );
+
+  // Check for AI SDK packages in requirements.txt, pyproject.toml (handles
+  // both regular and optional deps) and Pipfile
+  const dependencies = [
+    ...(await findManifestEvidence(
+      options.installDir,
+      'requirements.txt',
+      (line, pkg) => line.startsWith(pkg),
+      PYTHON_AI_SDK_PACKAGES,
+    )),
+    ...(await findManifestEvidence(
+      options.installDir,
+      'pyproject.toml',
+      // The package name, optionally followed by extras or a version specifier
+      (line, pkg) =>
+        new RegExp(`["']${escapeRegExp(pkg)}(?![\\w.-])`).test(line),
+      PYTHON_AI_SDK_PACKAGES,
+    )),
+    ...(await findManifestEvidence(
+      options.installDir,
+      'Pipfile',
+      (line, pkg) => line.includes(pkg),
+      PYTHON_AI_SDK_PACKAGES,
+    )),
+  ];
 
-  // Check for AI SDK packages in pyproject.toml
-  const pyprojectPath = path.join(options.installDir, 'pyproject.toml');
-  if (fs.existsSync(pyprojectPath)) {
-    try {
-      const content = await fs.promises.readFile(pyprojectPath, 'utf-8');
-      const contentLower = content.toLowerCase();
-      for (const pkg of PYTHON_AI_SDK_PACKAGES) {
-        // Check for package in dependencies (handles both regular and optional deps)
-        if (
-          contentLower.includes(`"${pkg.toLowerCase()}"`) ||
-          contentLower.includes(`'${pkg.toLowerCase()}'`)
-        ) {
-          return true;
-        }
-      }
-    } catch {
-      // Skip if can't read
-    }
-  }
+  return toDetectionResult([...imports, ...dependencies]);
+}
 
-  // Check for AI SDK packages in Pipfile
-  const pipfilePath = path.join(options.installDir, 'Pipfile');
-  if (fs.existsSync(pipfilePath)) {
-    try {
-      const content = await fs.promises.readFile(pipfilePath, 'utf-8');
-      const contentLower = content.toLowerCase();
-      for (const pkg of PYTHON_AI_SDK_PACKAGES) {
-        if (contentLower.includes(pkg.toLowerCase())) {
-          return true;
-        }
-      }
-    } catch {
-      // Skip if can't read
-    }
-  }
+// TypeScript AI SDK package names (for checking package.json dependencies)
+export const TYPESCRIPT_AI_SDK_PACKAGES = [
+  'openai',
+  '@anthropic-ai/sdk',
+  '@google/generative-ai',
+  '@google/genai',
+  '@mistralai/mistralai',
+  'cohere-ai',
+  'groq-sdk',
+  'replicate',
+  'langchain',
+  '@langchain/core',
+  'llamaindex',
+  '@aws-sdk/client-bedrock-runtime',
+];
 
-  return false;
-}
+export const TYPESCRIPT_AI_SDK_IMPORT_PATTERNS = TYPESCRIPT_AI_SDK_PACKAGES.map(
+  (pkg) =>
+    new RegExp(
+      `(?:from\\s+|require\\(\\s*|import\\(\\s*)['"]${escapeRegExp(
+        pkg,
+      )}(?:/[^'"]*)?['"]`,
+    ),
+);
+
+export const TYPESCRIPT_SOURCE_IGNORE = [
+  '**/node_modules/**',
+  '**/dist/**',
+  '**/build/**',
+  '**/.next/**',
+];
 
 async function detectTypeScriptProject(
   options: Pick<WizardOptions, 'installDir'>,
-): Promise<boolean> {
+): Promise<DetectionResult> {
+  // AI SDK imports and dependencies are direct evidence, the rest only shows
+  // that this is a TypeScript project
+  const imports = await findImportEvidence(
+    options.installDir,
+    '**/*.{ts,tsx,js,jsx,mjs,cjs}',
+    TYPESCRIPT_SOURCE_IGNORE,
+    TYPESCRIPT_AI_SDK_IMPORT_PATTERNS,
+  );
+  const dependencies = await findPackageJsonEvidence(
+    options.installDir,
+    (dependency) => TYPESCRIPT_AI_SDK_PACKAGES.includes(dependency),
+  );
+
+  const language: DetectionEvidence[] = [];
+
   // Check for tsconfig.json
-  const tsconfigPath = path.join(options.installDir, 'tsconfig.json');
-  if (fs.existsSync(tsconfigPath)) {
-    return true;
+  if (fs.existsSync(path.join(options.installDir, 'tsconfig.json'))) {
+    language.push({
+      kind: 'language',
+      file: 'tsconfig.json',
+      text: 'TypeScript configuration',
+    });
   }
 
   // Check for TypeScript files
@@ -403,81 +586,47 @@ async function detectTypeScriptProject(
     ignore: ['**/node_modules/**', '**/dist/**', '**/build/**'],
     onlyFiles: true,
   });
-
-  if (tsFiles.length > 0) {
-    return true;
+  for (const file of tsFiles.sort().slice(0, MAX_LANGUAGE_EVIDENCE)) {
+    language.push({ kind: 'language', file, text: 'TypeScript source file' });
   }
 
   // Check for TypeScript in package.json (if it exists)
-  const packageJsonPath = path.join(options.installDir, 'package.json');
-  if (fs.existsSync(packageJsonPath)) {
-    try {
-      const packageJsonContent = await fs.promises.readFile(
-        packageJsonPath,
-        'utf-8',
-      );
-      const packageJson = JSON.parse(packageJsonContent);
-      const deps = {
-        ...(packageJson.dependencies || {}),
-        ...(packageJson.devDependencies || {}),
-      };
-      if (
-        'typescript' in deps ||
-        '@types/node' in deps ||
-        '@types/react' in deps
-      ) {
-        return true;
-      }
-    } catch {
-      // package.json exists but couldn't be read/parsed - skip this check
-    }
+  for (const entry of await findPackageJsonEvidence(
+    options.installDir,
+    (dependency) =>
+      ['typescript', '@types/node', '@types/react'].includes(dependency),
+  )) {
+    language.push({ ...entry, kind: 'language' });
   }
 
-  return false;
+  return toDetectionResult([...imports, ...dependencies, ...language]);
 }
 
+// Vercel AI SDK import patterns to detect
+export const VERCEL_AI_SDK_IMPORT_PATTERNS = [
+  /from\s+['"]ai['"]/,
+  /from\s+['"]ai\/rsc['"]/,
+  /from\s+['"]@ai-sdk\//,
+];
+
 async function detectVercelAiSdkProject(
   options: Pick<WizardOptions, 'installDir'>,
-): Promise<boolean> {
-  // Check for 'ai' package in package.json
-  const packageJsonPath = path.join(options.installDir, 'package.json');
-  if (fs.existsSync(packageJsonPath)) {
-    try {
-      await fs.promises.readFile(packageJsonPath, 'utf-8');
-      // package.json exists and is readable - continue to file check
-    } catch {
-      // package.json exists but couldn't be read/parsed - continue to file check
-    }
-  }
-
+): Promise<DetectionResult> {
   // Check for Vercel AI SDK imports in source files
-  const sourceFiles = await fg('**/*.{ts,tsx,js,jsx}', {
-    cwd: options.installDir,
-    ignore: ['**/node_modules/**', '**/dist/**', '**/build/**', '**/.next/**'],
-    onlyFiles: true,
-  });
-
-  const aiSdkImportPatterns = [
-    /from\s+['"]ai['"]/,
-    /from\s+['"]ai\/rsc['"]/,
-    /from\s+['"]@ai-sdk\//,
-  ];
-
-  for (const file of sourceFiles) {
-    try {
-      const filePath = path.join(options.installDir, file);
-      const content = await fs.promises.readFile(filePath, 'utf-8');
-
-      if (aiSdkImportPatterns.some((pattern) => pattern.test(content))) {
-        return true;
-      }
-    } catch {
-      // Skip files that can't be read
-      continue;
-    }
-  }
-
-  return false;
+  const imports = await findImportEvidence(
+    options.installDir,
+    '**/*.{ts,tsx,js,jsx}',
+    TYPESCRIPT_SOURCE_IGNORE,
+    VERCEL_AI_SDK_IMPORT_PATTERNS,
+  );
+
+  // Check for the 'ai' package and its providers in package.json
+  const dependencies = await findPackageJsonEvidence(
+    options.installDir,
+    (dependency) => dependency === 'ai' || dependency.startsWith('@ai-sdk/'),
+  );
+
+  return toDetectionResult([...imports, ...dependencies]);
 }
 
 export const INTEGRATION_CONFIG = {
@@ -503,3 +652,106 @@ export const INTEGRATION_ORDER = [
   Integration.vercelAiSdk,
   Integration.typescript,
 ] as const;
+
+/**
+ * An integration detected in a project
+ */
+export type DetectedIntegration = DetectionResult & {
+  integration: Integration;
+};
+
+async function detectAll(
+  options: Pick<WizardOptions, 'installDir'>,
+): Promise<DetectedIntegration[]> {
+  const results: DetectedIntegration[] = [];
+  for (const integration of INTEGRATION_ORDER) {
+    results.push({
+      integration,
+      ...(await INTEGRATION_CONFIG[integration].detect(options)),
+    });
+  }
+  return results;
+}
+
+/**
+ * Select the matching integrations from detection results, most confident
+ * first (ties are broken by INTEGRATION_ORDER). A Vercel AI SDK project is
+ * also a TypeScript project, so the TypeScript integration is left out when
+ * the Vercel AI SDK is detected.
+ */
+function selectDetected(results: DetectedIntegration[]): DetectedIntegration[] {
+  const detected = results.filter(({ confidence }) => confidence > 0);
+
+  const hasVercelAiSdk = detected.some(
+    ({ integration }) => integration === Integration.vercelAiSdk,
+  );
+  return detected
+    .filter(
+      ({ integration }) =>
+        !(hasVercelAiSdk && integration === Integration.typescript),
+    )
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Detect every integration a project matches, most confident first
+ */
+export async function detectIntegrations(
+  options: Pick<WizardOptions, 'installDir'>,
+): Promise<DetectedIntegration[]> {
+  return selectDetected(await detectAll(options));
+}
+
+/**
+ * The integrations the wizard preselects: the most confident one, or when
+ * several match, every integration with evidence of AI SDK usage
+ */
+export function getPreselectedIntegrations(
+  detected: DetectedIntegration[],
+): Integration[] {
+  const likely = detected.filter(
+    ({ confidence }) => confidence >= AI_SDK_CONFIDENCE_THRESHOLD,
+  );
+  const preselected =
+    detected.length < 2 ? detected : likely.length > 0 ? likely : detected;
+  return preselected.map(({ integration }) => integration);
+}
+
+/**
+ * How the wizard classifies a project, for `wizard detect`
+ */
+export type DetectionReport = {
+  installDir: string;
+  /** Every integration in INTEGRATION_ORDER, including non-matching ones */
+  integrations: DetectedIntegration[];
+  /** The integrations the wizard would preselect */
+  preselected: Integration[];
+};
+
+/**
+ * Run every integration's detection and report the evidence found
+ */
+export async function getDetectionReport(
+  installDir: string,
+): Promise<DetectionReport> {
+  const integrations = await detectAll({ installDir });
+  return {
+    installDir,
+    integrations,
+    preselected: getPreselectedIntegrations(selectDetected(integrations)),
+  };
+}
+
+/**
+ * Detect the integration for a project only if it actually uses an AI SDK.
+ * A plain TypeScript project without an AI SDK dependency is not a match
+ * (used to pick packages in a monorepo).
+ */
+export async function detectAiIntegration(
+  options: Pick<WizardOptions, 'installDir'>,
+): Promise<Integration | undefined> {
+  const [detected] = await detectIntegrations(options);
+  return detected && detected.confidence >= AI_SDK_CONFIDENCE_THRESHOLD
+    ? detected.integration
+    : undefined;
+}
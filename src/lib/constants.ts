@@ -17,30 +17,74 @@ export function getIntegrationDescription(type: string): string {
   }
 }
 
+/**
+ * Process exit codes used by the wizard.
+ * Distinguishes an incomplete agent run from a hard failure so automated
+ * jobs (CI mode) can react to each.
+ */
+export enum ExitCode {
+  success = 0,
+  failure = 1,
+  incomplete = 2,
+}
+
 export const IS_DEV = ['test', 'development'].includes(
   process.env.NODE_ENV ?? '',
 );
 
 export const ISSUES_URL = 'https://github.com/raindrop/wizard/issues';
 
-export const OAUTH_URL = 'https://9260183011.propelauthtest.com'; // TEST URL
-export const OAUTH_CLIENT_ID = '140b68df6b9476693d817334f530ae0c';
-export const OAUTH_CLIENT_SECRET = ''; // PKCE doesn't need this
-export const OAUTH_AUTHORIZE_URL = `${OAUTH_URL}/propelauth/oauth/authorize`;
-export const OAUTH_TOKEN_URL = `${OAUTH_URL}/propelauth/oauth/token`;
-export const OAUTH_USERINFO_URL = `${OAUTH_URL}/propelauth/oauth/userinfo`;
+/**
+ * Where the agent's LLM requests go: through the Raindrop proxy (default),
+ * or directly to the user's own Anthropic, Bedrock or Vertex account
+ */
+export const LLM_PROVIDERS = [
+  'raindrop',
+  'anthropic',
+  'bedrock',
+  'vertex',
+] as const;
+
+export type LlmProvider = (typeof LLM_PROVIDERS)[number];
+
+export const DEFAULT_AGENT_MODEL = 'claude-sonnet-4-5-20250929';
+
 export const OAUTH_PORT = 8259;
 export const OAUTH_REDIRECT_URI = `http://localhost:${OAUTH_PORT}/callback`;
-export const API_BASE_URL = 'http://localhost:3000';
-export const WRITE_KEY_ENDPOINT = `${API_BASE_URL}/api/cli/users/key`;
-export const EVENTS_LIST_ENDPOINT = `${API_BASE_URL}/api/cli/events/list`;
-export const ANTHROPIC_BASE_URL = `${API_BASE_URL}/api/cli`;
-export const SESSION_START_ENDPOINT = `${API_BASE_URL}/api/cli/session/init`;
-export const SESSION_UPDATE_ENDPOINT = `${API_BASE_URL}/api/cli/session/update`;
+
+/**
+ * Default port of the local stand-in backend (`wizard dev-server`)
+ */
+export const DEV_SERVER_PORT = 8260;
+
+/**
+ * Default port of the local OTLP receiver of the test phase, the standard
+ * OTLP/HTTP port
+ */
+export const OTLP_RECEIVER_PORT = 4318;
+
+/**
+ * Environment variable the OTEL setups read the trace exporter URL from
+ */
+export const OTLP_TRACES_ENDPOINT_ENV = 'OTEL_EXPORTER_OTLP_TRACES_ENDPOINT';
+
+/**
+ * Agent tools that create or modify files in the project.
+ */
+export const FILE_MODIFYING_TOOLS = new Set([
+  'Edit',
+  'Write',
+  'MultiEdit',
+  'NotebookEdit',
+  'mcp__raindrop-wizard__AddAiSdkTelemetry',
+  'mcp__raindrop-wizard__InstrumentAiClients',
+]);
 
 /**
  * Safe bash command patterns that can be auto-approved without user confirmation.
- * Uses simple prefix matching with optional * wildcard at the end.
+ * Matched word by word against each segment of a compound command (see
+ * matchesSafePattern in bash-analysis.ts): a trailing * matches any remaining
+ * arguments, and a leading * matches a single command followed by that flag.
  */
 export const SAFE_BASH_PATTERNS: string[] = [
   // === Package Managers - Install/Lock ===
@@ -0,0 +1,164 @@
+/**
+ * Instrumentation coverage of a project's LLM call sites, for catching call
+ * sites added after the integration (`wizard audit`). Vercel AI SDK calls
+ * are checked one by one; for the other SDKs, a file that imports an AI SDK
+ * (matched with the detection patterns of config.ts) is a call site, covered
+ * if it uses the Raindrop SDK.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import fg from 'fast-glob';
+import { Integration } from './constants.js';
+import {
+  PYTHON_AI_SDK_IMPORT_PATTERNS,
+  PYTHON_SOURCE_IGNORE,
+  TYPESCRIPT_AI_SDK_IMPORT_PATTERNS,
+  TYPESCRIPT_SOURCE_IGNORE,
+} from './config.js';
+import { auditAiSdkTelemetry, getCallIssues } from './telemetry-audit.js';
+
+/**
+ * Default minimum coverage of `wizard audit`, in percent
+ */
+export const DEFAULT_MIN_COVERAGE = 100;
+
+/**
+ * An LLM call site and whether it's instrumented
+ */
+export interface CallSite {
+  integration: Integration;
+  /** Path relative to the audited directory */
+  file: string;
+  line: number;
+  /** The call, or the AI SDK import for file-level call sites */
+  text: string;
+  /** What the call site lacks, empty when it's instrumented */
+  issues: string[];
+  /**
+   * Why the call site could not be checked. It doesn't count as covered
+   * and should be checked by hand.
+   */
+  unchecked?: string;
+}
+
+export interface CoverageReport {
+  installDir: string;
+  sites: CallSite[];
+  /** Share of instrumented call sites from 0 to 1, 1 without call sites */
+  coverage: number;
+}
+
+/**
+ * How each language's files are found, and what shows a file uses Raindrop
+ */
+const FILE_LEVEL_SDKS = [
+  {
+    integration: Integration.python,
+    source: '**/*.py',
+    ignore: PYTHON_SOURCE_IGNORE,
+    importPatterns: PYTHON_AI_SDK_IMPORT_PATTERNS,
+    raindropPattern: /(?:from|import)\s+raindrop\b|\braindrop\.\w+/,
+  },
+  {
+    integration: Integration.typescript,
+    source: '**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs}',
+    ignore: TYPESCRIPT_SOURCE_IGNORE,
+    importPatterns: TYPESCRIPT_AI_SDK_IMPORT_PATTERNS,
+    raindropPattern: /['"]raindrop-ai(?:\/[^'"]*)?['"]|\braindrop\.\w+/,
+  },
+];
+
+async function findFileLevelCallSites(installDir: string): Promise<CallSite[]> {
+  const sites: CallSite[] = [];
+  for (const sdk of FILE_LEVEL_SDKS) {
+    const files = await fg(sdk.source, {
+      cwd: installDir,
+      ignore: sdk.ignore,
+      onlyFiles: true,
+    });
+
+    for (const file of files.sort()) {
+      let content: string;
+      try {
+        content = await fs.promises.readFile(
+          path.join(installDir, file),
+          'utf-8',
+        );
+      } catch {
+        // Skip files that can't be read
+        continue;
+      }
+
+      const lines = content.split('\n');
+      const index = lines.findIndex((line) =>
+        sdk.importPatterns.some((pattern) => pattern.test(line)),
+      );
+      if (index === -1) {
+        continue;
+      }
+      sites.push({
+        integration: sdk.integration,
+        file,
+        line: index + 1,
+        text: lines[index].trim(),
+        issues: sdk.raindropPattern.test(content)
+          ? []
+          : ['the file does not use the Raindrop SDK'],
+      });
+    }
+  }
+  return sites;
+}
+
+/**
+ * Whether a call site is instrumented: it lacks nothing and was checked
+ */
+export function isCovered(site: CallSite): boolean {
+  return site.issues.length === 0 && !site.unchecked;
+}
+
+/**
+ * Find the LLM call sites of a project and check they are instrumented.
+ * Throws if installDir is not a directory.
+ */
+export async function auditCoverage(
+  installDir: string,
+): Promise<CoverageReport> {
+  const stats = await fs.promises.stat(installDir).catch(() => undefined);
+  if (!stats?.isDirectory()) {
+    throw new Error(`${installDir} is not a directory`);
+  }
+
+  const telemetry = await auditAiSdkTelemetry(installDir);
+  const sites: CallSite[] = [
+    ...telemetry.calls.map((call) => ({
+      integration: Integration.vercelAiSdk,
+      file: call.file,
+      line: call.line,
+      text: call.functionName,
+      issues: getCallIssues(call),
+      ...(call.telemetry === 'unknown' && {
+        unchecked: "the telemetry settings can't be read from the code",
+      }),
+    })),
+    // Each file that can't be parsed counts as one call site that isn't
+    // covered, so it can't make the coverage look complete
+    ...telemetry.unparsedFiles.map((file) => ({
+      integration: Integration.vercelAiSdk,
+      file,
+      line: 1,
+      text: '(whole file)',
+      issues: [],
+      unchecked: 'the file could not be parsed',
+    })),
+    ...(await findFileLevelCallSites(installDir)),
+  ];
+
+  const covered = sites.filter(isCovered).length;
+  return {
+    installDir,
+    sites,
+    coverage: sites.length > 0 ? covered / sites.length : 1,
+  };
+}
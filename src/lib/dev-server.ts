@@ -0,0 +1,449 @@
+/**
+ * Local stand-in for the Raindrop backend (`wizard dev-server`), to run the
+ * whole wizard flow on a machine without access to Raindrop: OAuth login,
+ * write keys, session notifications, the LLM proxy and event ingestion
+ * (Raindrop JSON events and OTLP traces), with the ingested events served
+ * back through the events list the test phase polls.
+ * Nothing is persisted; every login succeeds with the same dev account.
+ */
+
+import http from 'http';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { DEV_SERVER_PORT } from './constants.js';
+import {
+  decodeOtlpTraces,
+  getAiSpanData,
+  getAiTraceIds,
+  toTraceEvent,
+  type OtlpSpan,
+} from './otlp.js';
+import type { ApiEvent } from './test-server.js';
+
+export const DEV_ACCESS_TOKEN = 'dev-access-token';
+export const DEV_WRITE_KEY = 'dev-write-key';
+export const DEV_ORG = { org_id: 'dev-org', org_name: 'Local Dev' };
+
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+const ANTHROPIC_API_URL = 'https://api.anthropic.com';
+
+export interface DevServerOptions {
+  /** Defaults to DEV_SERVER_PORT, 0 picks a free port */
+  port?: number;
+  host?: string;
+  /** Called after every request, e.g. to log it */
+  onRequest?: (method: string, pathname: string, status: number) => void;
+}
+
+export interface DevServer {
+  url: string;
+  /** Events ingested so far, by wizard session (undefined if untagged) */
+  events: { wizardSession?: string; event: ApiEvent }[];
+  close(): Promise<void>;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+type Route = (
+  req: http.IncomingMessage,
+  url: URL,
+  body: Buffer,
+) => Promise<RouteResult> | RouteResult;
+
+type RouteResult =
+  | { status: number; json?: unknown; headers?: Record<string, string> }
+  | { status: number; stream: Readable; headers: Record<string, string> };
+
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+function parseJson(body: Buffer): unknown {
+  try {
+    return JSON.parse(body.toString('utf-8'));
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+}
+
+function requireToken(req: http.IncomingMessage): void {
+  if (!req.headers.authorization?.startsWith('Bearer ')) {
+    throw new HttpError(401, 'Missing bearer token');
+  }
+}
+
+function header(req: http.IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * The wizard session a JSON event is tagged with, in any property whose
+ * name is a variant of wizardSession
+ */
+function findWizardSession(
+  properties: Record<string, unknown> | undefined,
+): string | undefined {
+  const key = Object.keys(properties ?? {}).find((key) =>
+    /wizard_?session$/i.test(key),
+  );
+  const value = key === undefined ? undefined : properties?.[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+// Raindrop track API payloads
+type TrackedEvent = {
+  event_id?: string;
+  user_id?: string;
+  event?: string;
+  timestamp?: string;
+  properties?: Record<string, unknown>;
+  ai_data?: {
+    model?: string;
+    input?: string;
+    output?: string;
+    convo_id?: string;
+  };
+  attachments?: { role?: string; [key: string]: unknown }[];
+};
+
+type TrackedSignal = {
+  event_id?: string;
+  signal_name?: string;
+  [key: string]: unknown;
+};
+
+function toArray<T>(payload: unknown): T[] {
+  if (Array.isArray(payload)) {
+    return payload as T[];
+  }
+  if (typeof payload === 'object' && payload !== null) {
+    return [payload as T];
+  }
+  throw new HttpError(400, 'Expected an object or an array of objects');
+}
+
+/**
+ * Start the dev server. Resolves once it's listening.
+ */
+export function startDevServer(
+  options: DevServerOptions = {},
+): Promise<DevServer> {
+  const events: DevServer['events'] = [];
+
+  const findEvent = (id: string | undefined) =>
+    id === undefined ? undefined : events.find(({ event }) => event.id === id);
+
+  const trackEvents = (
+    req: http.IncomingMessage,
+    body: Buffer,
+    partial: boolean,
+  ) => {
+    const receivedAt = new Date().toISOString();
+    for (const tracked of toArray<TrackedEvent>(parseJson(body))) {
+      const existing = findEvent(tracked.event_id);
+      const previous = existing?.event;
+      const event: ApiEvent = {
+        ...previous,
+        id: tracked.event_id ?? crypto.randomUUID(),
+        name: tracked.event ?? previous?.name,
+        timestamp: tracked.timestamp ?? previous?.timestamp ?? receivedAt,
+        receivedAt,
+        userId: tracked.user_id ?? previous?.userId,
+        properties: { ...previous?.properties, ...tracked.properties },
+        aiData: {
+          ...previous?.aiData,
+          ...(tracked.ai_data && {
+            model: tracked.ai_data.model,
+            input: tracked.ai_data.input,
+            output: tracked.ai_data.output,
+            convoId: tracked.ai_data.convo_id,
+          }),
+        },
+        inputAttachments: [
+          ...(previous?.inputAttachments ?? []),
+          ...(tracked.attachments ?? []).filter((a) => a.role !== 'output'),
+        ],
+        outputAttachments: [
+          ...(previous?.outputAttachments ?? []),
+          ...(tracked.attachments ?? []).filter((a) => a.role === 'output'),
+        ],
+        signals: previous?.signals ?? [],
+        isPending: partial,
+      };
+      const wizardSession =
+        header(req, 'x-wizard-session') ??
+        findWizardSession(event.properties) ??
+        existing?.wizardSession;
+
+      if (existing) {
+        existing.event = event;
+        existing.wizardSession = wizardSession;
+      } else {
+        events.push({ wizardSession, event });
+      }
+    }
+    return { status: 200, json: { success: true } };
+  };
+
+  const ingestSpans = (req: http.IncomingMessage, spans: OtlpSpan[]) => {
+    const receivedAt = new Date().toISOString();
+    // One event per trace with AI spans
+    for (const traceId of getAiTraceIds(spans)) {
+      const existing = findEvent(`trace-${traceId}`);
+      const traceSpans = [
+        ...((existing?.event.spans as OtlpSpan[] | undefined) ?? []),
+        ...spans.filter((span) => span.traceId === traceId),
+      ];
+      const event = toTraceEvent(traceSpans, receivedAt);
+      const wizardSession =
+        header(req, 'x-wizard-session') ??
+        traceSpans
+          .map((span) => getAiSpanData(span)?.wizardSession)
+          .find(Boolean);
+
+      if (existing) {
+        existing.event = event;
+        existing.wizardSession = wizardSession ?? existing.wizardSession;
+      } else {
+        events.push({ wizardSession, event });
+      }
+    }
+  };
+
+  const routes: Record<string, Route> = {
+    // OAuth: every authorization is granted at once
+    'GET /propelauth/oauth/authorize': (_req, url) => {
+      const redirectUri = url.searchParams.get('redirect_uri');
+      if (!redirectUri) {
+        throw new HttpError(400, 'Missing redirect_uri');
+      }
+      const redirect = new URL(redirectUri);
+      redirect.searchParams.set('code', 'dev-code');
+      redirect.searchParams.set('state', url.searchParams.get('state') ?? '');
+      return { status: 302, headers: { Location: redirect.toString() } };
+    },
+    'POST /propelauth/oauth/token': (_req, _url, body) => {
+      const params = new URLSearchParams(body.toString('utf-8'));
+      return {
+        status: 200,
+        json: {
+          access_token: DEV_ACCESS_TOKEN,
+          refresh_token: 'dev-refresh-token',
+          expires_in: 3600,
+          token_type: 'Bearer',
+          scope: params.get('scope') ?? 'openid email offline_access',
+        },
+      };
+    },
+    'GET /propelauth/oauth/userinfo': (req) => {
+      requireToken(req);
+      return {
+        status: 200,
+        json: {
+          user_id: 'dev-user',
+          email: 'dev@localhost',
+          first_name: 'Dev',
+          org_id_to_org_info: { [DEV_ORG.org_id]: DEV_ORG },
+        },
+      };
+    },
+
+    // Wizard API
+    'GET /api/cli/users/key': (req) => {
+      requireToken(req);
+      const orgId = header(req, 'x-org-id');
+      if (orgId && orgId !== DEV_ORG.org_id) {
+        throw new HttpError(403, `No access to organization ${orgId}`);
+      }
+      return {
+        status: 200,
+        json: { api_key: DEV_WRITE_KEY, org_id: DEV_ORG.org_id },
+      };
+    },
+    'POST /api/cli/session/init': (req) => {
+      requireToken(req);
+      return { status: 200, json: { success: true } };
+    },
+    'POST /api/cli/session/update': (req) => {
+      requireToken(req);
+      return { status: 200, json: { success: true } };
+    },
+    'GET /api/cli/events/list': (req) => {
+      requireToken(req);
+      const wizardSession = header(req, 'x-wizard-session');
+      // Untagged events can't be told apart, so every session gets them
+      return {
+        status: 200,
+        json: events
+          .filter(
+            (stored) =>
+              !wizardSession ||
+              !stored.wizardSession ||
+              stored.wizardSession === wizardSession,
+          )
+          .map(({ event }) => event),
+      };
+    },
+
+    // LLM proxy, forwarded to Anthropic with the key of whoever runs the
+    // dev server
+    'POST /api/cli/v1/messages': async (req, url, body) => {
+      const apiKey = process.env.ANTHROPIC_API_KEY;
+      if (!apiKey) {
+        return {
+          status: 503,
+          json: {
+            type: 'error',
+            error: {
+              type: 'api_error',
+              message:
+                'The dev server forwards LLM requests to Anthropic, which needs ANTHROPIC_API_KEY. To run the agent offline, replay a recorded run with RAINDROP_WIZARD_REPLAY.',
+            },
+          },
+        };
+      }
+      const response = await fetch(
+        `${ANTHROPIC_API_URL}/v1/messages${url.search}`,
+        {
+          method: 'POST',
+          headers: {
+            'content-type': 'application/json',
+            'anthropic-version':
+              header(req, 'anthropic-version') ?? '2023-06-01',
+            ...(header(req, 'anthropic-beta') && {
+              'anthropic-beta': header(req, 'anthropic-beta') as string,
+            }),
+            'x-api-key': apiKey,
+          },
+          body,
+        },
+      );
+      return {
+        status: response.status,
+        headers: {
+          'Content-Type':
+            response.headers.get('content-type') ?? 'application/json',
+        },
+        stream: response.body
+          ? Readable.fromWeb(response.body)
+          : Readable.from([]),
+      };
+    },
+
+    // Ingestion, under the SDKs' /v1 base path
+    'POST /v1/events/track': (req, _url, body) => trackEvents(req, body, false),
+    'POST /v1/events/track_partial': (req, _url, body) =>
+      trackEvents(req, body, true),
+    'POST /v1/signals/track': (_req, _url, body) => {
+      for (const signal of toArray<TrackedSignal>(parseJson(body))) {
+        const stored = findEvent(signal.event_id);
+        if (stored) {
+          stored.event.signals = [...(stored.event.signals ?? []), signal];
+        }
+      }
+      return { status: 200, json: { success: true } };
+    },
+    'POST /v1/users/identify': () => ({
+      status: 200,
+      json: { success: true },
+    }),
+    'POST /v1/traces': (req, _url, body) => {
+      const contentType = header(req, 'content-type') ?? '';
+      let spans: OtlpSpan[];
+      try {
+        spans = decodeOtlpTraces(body, contentType);
+      } catch (error) {
+        throw new HttpError(
+          400,
+          `Invalid OTLP request: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        );
+      }
+      ingestSpans(req, spans);
+      // An empty ExportTraceServiceResponse in either encoding
+      return contentType.includes('json')
+        ? { status: 200, json: {} }
+        : {
+            status: 200,
+            headers: { 'Content-Type': 'application/x-protobuf' },
+          };
+    },
+  };
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const method = req.method ?? 'GET';
+    const route = routes[`${method} ${url.pathname}`];
+
+    void (async () => {
+      let result: RouteResult;
+      try {
+        if (!route) {
+          throw new HttpError(404, `No route for ${method} ${url.pathname}`);
+        }
+        result = await route(req, url, await readBody(req));
+      } catch (error) {
+        result = {
+          status: error instanceof HttpError ? error.status : 500,
+          json: {
+            error: error instanceof Error ? error.message : String(error),
+          },
+        };
+      }
+
+      options.onRequest?.(method, url.pathname, result.status);
+      if ('stream' in result) {
+        res.writeHead(result.status, result.headers);
+        result.stream.pipe(res);
+        return;
+      }
+      res.writeHead(result.status, {
+        ...(result.json !== undefined && {
+          'Content-Type': 'application/json',
+        }),
+        ...result.headers,
+      });
+      res.end(result.json === undefined ? '' : JSON.stringify(result.json));
+    })();
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? DEV_SERVER_PORT, options.host, () => {
+      const address = server.address();
+      const port =
+        typeof address === 'object' && address ? address.port : options.port;
+      resolve({
+        url: `http://localhost:${String(port)}`,
+        events,
+        close: () =>
+          new Promise((resolveClose, rejectClose) => {
+            server.close((error) =>
+              error ? rejectClose(error) : resolveClose(),
+            );
+            server.closeAllConnections();
+          }),
+      });
+    });
+  });
+}
@@ -0,0 +1,99 @@
+/**
+ * Dry-run support: the agent works on a temporary copy of the project and
+ * the result is emitted as a unified diff instead of touching the project.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  DIFF_IGNORED_DIRECTORIES,
+  generateDirectoryDiff,
+} from '../utils/diff.js';
+import ui from '../utils/ui.js';
+
+/**
+ * A temporary copy of the project the agent works on during a dry run
+ */
+export interface DryRunWorkspace {
+  /** The real project directory */
+  originalDir: string;
+  /** The temporary copy the agent modifies */
+  workspaceDir: string;
+  /** Remove the temporary copy */
+  cleanup: () => void;
+}
+
+/**
+ * Copy the project into a temporary directory, leaving out git metadata,
+ * dependency and build directories (the agent reinstalls what it needs, so
+ * nothing it does can leak into the real project).
+ * The copy is removed when the process exits.
+ */
+export async function createDryRunWorkspace(
+  installDir: string,
+): Promise<DryRunWorkspace> {
+  const originalDir = path.resolve(installDir);
+  const tempRoot = await fs.promises.mkdtemp(
+    path.join(os.tmpdir(), 'raindrop-wizard-dry-run-'),
+  );
+  const workspaceDir = path.join(tempRoot, path.basename(originalDir));
+
+  await fs.promises.cp(originalDir, workspaceDir, {
+    recursive: true,
+    verbatimSymlinks: true,
+    filter: (source) =>
+      source === originalDir ||
+      !DIFF_IGNORED_DIRECTORIES.has(path.basename(source)),
+  });
+
+  const cleanup = () => {
+    fs.rmSync(tempRoot, { recursive: true, force: true });
+    process.removeListener('exit', cleanup);
+  };
+  process.on('exit', cleanup);
+
+  return { originalDir, workspaceDir, cleanup };
+}
+
+/**
+ * Emit the patch of everything the agent changed in the workspace and remove
+ * the workspace. The patch is written to the output file if one is given,
+ * and otherwise returned so it can be printed once the UI has released stdout.
+ */
+export async function emitDryRunPatch(
+  workspace: DryRunWorkspace,
+  outputPath?: string,
+): Promise<string | undefined> {
+  try {
+    const patch = await generateDirectoryDiff(
+      workspace.originalDir,
+      workspace.workspaceDir,
+    );
+
+    if (!patch) {
+      ui.addItem({
+        type: 'warning',
+        text: 'Dry run complete: the wizard would not change any files.',
+      });
+      return undefined;
+    }
+
+    if (outputPath) {
+      await fs.promises.writeFile(outputPath, patch, 'utf-8');
+      ui.addItem({
+        type: 'success',
+        text: `Dry run complete: wrote the patch to ${outputPath}. Apply it with \`git apply ${outputPath}\`.`,
+      });
+      return undefined;
+    }
+
+    ui.addItem({
+      type: 'success',
+      text: 'Dry run complete: no files in your project were changed. The patch is printed below.',
+    });
+    return patch;
+  } finally {
+    workspace.cleanup();
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * Backend endpoints the wizard talks to, grouped in named profiles (local,
+ * dev-server, or custom ones such as a hosted or self-hosted deployment).
+ * The profile is picked with --profile, RAINDROP_PROFILE or the config file
+ * (~/.raindrop-wizard/config.json), and single URLs can be overridden with
+ * environment variables.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { DEV_SERVER_PORT } from './constants.js';
+import { getStateDir } from '../utils/state-dir.js';
+
+/**
+ * Location of the config file, relative to the state directory
+ */
+export const CONFIG_FILE = 'config.json';
+
+const ProfileSchema = z
+  .object({
+    /** Raindrop app, serving the /api/cli routes */
+    apiUrl: z.string(),
+    /** OAuth provider, serving /propelauth/oauth/* */
+    oauthUrl: z.string(),
+    oauthClientId: z.string().min(1).optional(),
+    /** Overrides of single endpoints, which default to routes of apiUrl */
+    writeKeyUrl: z.string().optional(),
+    eventsUrl: z.string().optional(),
+    sessionUrl: z.string().optional(),
+    llmProxyUrl: z.string().optional(),
+    /** Ingestion URL the Raindrop SDK is routed to in the testing phase */
+    ingestUrl: z.string().optional(),
+  })
+  .strict();
+
+const ConfigFileSchema = z
+  .object({
+    /** Profile used when none is given with --profile or RAINDROP_PROFILE */
+    profile: z.string().optional(),
+    /** Custom profiles, which may also override the built-in ones */
+    profiles: z
+      .record(z.string().regex(/^[A-Za-z0-9_-]+$/), ProfileSchema)
+      .optional(),
+  })
+  .strict();
+
+export type EndpointProfile = z.infer<typeof ProfileSchema>;
+
+/**
+ * Profile used when none is selected
+ */
+export const DEFAULT_PROFILE = 'local';
+
+export const BUILTIN_PROFILES: Record<string, EndpointProfile> = {
+  // A Raindrop app on this machine, logging in with the PropelAuth test tenant
+  local: {
+    apiUrl: 'http://localhost:3000',
+    oauthUrl: 'https://9260183011.propelauthtest.com',
+    oauthClientId: '140b68df6b9476693d817334f530ae0c',
+  },
+  // The local stand-in backend started with `wizard dev-server`
+  'dev-server': {
+    apiUrl: `http://localhost:${DEV_SERVER_PORT}`,
+    oauthUrl: `http://localhost:${DEV_SERVER_PORT}`,
+    oauthClientId: 'raindrop-wizard-dev-server',
+    ingestUrl: `http://localhost:${DEV_SERVER_PORT}/v1`,
+  },
+};
+
+/**
+ * Resolved URLs of every backend endpoint
+ */
+export interface Endpoints {
+  profile: string;
+  oauthClientId: string;
+  oauthAuthorizeUrl: string;
+  oauthTokenUrl: string;
+  oauthUserinfoUrl: string;
+  writeKeyUrl: string;
+  eventsListUrl: string;
+  sessionStartUrl: string;
+  sessionUpdateUrl: string;
+  /** Base URL of the Anthropic-compatible LLM proxy used by the agent */
+  llmProxyUrl: string;
+  /**
+   * Ingestion URL the Raindrop SDK is routed to in the testing phase, if
+   * the backend isn't the one the SDK sends to by default
+   */
+  ingestUrl?: string;
+}
+
+let endpoints: Endpoints | undefined;
+// Profile requested on the command line, resolved on first use
+let selectedProfile: string | undefined;
+
+function readConfigFile(): z.infer<typeof ConfigFileSchema> {
+  const configPath = path.join(getStateDir(), CONFIG_FILE);
+
+  let content: string;
+  try {
+    content = fs.readFileSync(configPath, 'utf-8');
+  } catch {
+    return {};
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Could not parse ${configPath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+  }
+
+  const result = ConfigFileSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid ${configPath}: ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Check that a URL is absolute and uses https (or http on this machine, for
+ * a local backend). Returns the URL without a trailing slash.
+ */
+function validateUrl(name: string, value: string): string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error(`${name} is not a valid URL: ${value}`);
+  }
+  const isLoopback = ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname);
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && isLoopback)) {
+    throw new Error(
+      `${name} must use https (http is only allowed for localhost): ${value}`,
+    );
+  }
+  return value.replace(/\/+$/, '');
+}
+
+/**
+ * Resolve and validate the endpoints of a profile. Throws when the profile
+ * doesn't exist or one of its URLs is invalid.
+ */
+export function resolveEndpoints(profileName?: string): Endpoints {
+  const config = readConfigFile();
+  const profiles = { ...BUILTIN_PROFILES, ...config.profiles };
+  const name =
+    profileName ||
+    process.env.RAINDROP_PROFILE ||
+    config.profile ||
+    DEFAULT_PROFILE;
+
+  const profile = profiles[name];
+  if (!profile) {
+    throw new Error(
+      `Unknown profile "${name}". Available profiles: ${Object.keys(
+        profiles,
+      ).join(', ')}`,
+    );
+  }
+
+  const env = process.env;
+  const apiUrl = validateUrl('apiUrl', env.RAINDROP_API_URL || profile.apiUrl);
+  const oauthUrl = validateUrl(
+    'oauthUrl',
+    env.RAINDROP_OAUTH_URL || profile.oauthUrl,
+  );
+  const writeKeyUrl = validateUrl(
+    'writeKeyUrl',
+    profile.writeKeyUrl ?? `${apiUrl}/api/cli/users/key`,
+  );
+  const sessionUrl = validateUrl(
+    'sessionUrl',
+    profile.sessionUrl ?? `${apiUrl}/api/cli/session`,
+  );
+  const ingestUrl = env.RAINDROP_INGEST_URL || profile.ingestUrl;
+  const oauthClientId = env.RAINDROP_OAUTH_CLIENT_ID || profile.oauthClientId;
+  if (!oauthClientId) {
+    throw new Error(
+      `Profile "${name}" has no oauthClientId. Set it in ${path.join(
+        getStateDir(),
+        CONFIG_FILE,
+      )} or with RAINDROP_OAUTH_CLIENT_ID.`,
+    );
+  }
+
+  return {
+    profile: name,
+    oauthClientId,
+    oauthAuthorizeUrl: `${oauthUrl}/propelauth/oauth/authorize`,
+    oauthTokenUrl: `${oauthUrl}/propelauth/oauth/token`,
+    oauthUserinfoUrl: `${oauthUrl}/propelauth/oauth/userinfo`,
+    writeKeyUrl,
+    eventsListUrl: validateUrl(
+      'eventsUrl',
+      profile.eventsUrl ?? `${apiUrl}/api/cli/events/list`,
+    ),
+    sessionStartUrl: `${sessionUrl}/init`,
+    sessionUpdateUrl: `${sessionUrl}/update`,
+    llmProxyUrl: validateUrl(
+      'llmProxyUrl',
+      env.RAINDROP_LLM_PROXY_URL ||
+        (profile.llmProxyUrl ?? `${apiUrl}/api/cli`),
+    ),
+    ingestUrl: ingestUrl ? validateUrl('ingestUrl', ingestUrl) : undefined,
+  };
+}
+
+/**
+ * Select the profile for this wizard invocation without resolving it yet
+ */
+export function selectProfile(profileName?: string): void {
+  selectedProfile = profileName;
+  endpoints = undefined;
+}
+
+/**
+ * Select the profile for this wizard invocation, validating its URLs
+ */
+export function initEndpoints(profileName?: string): Endpoints {
+  selectedProfile = profileName;
+  endpoints = resolveEndpoints(profileName);
+  return endpoints;
+}
+
+/**
+ * The endpoints of the selected profile (resolved on first use if
+ * initEndpoints wasn't called)
+ */
+export function getEndpoints(): Endpoints {
+  endpoints ??= resolveEndpoints(selectedProfile);
+  return endpoints;
+}
+
+/**
+ * Name of the selected profile. Unlike getEndpoints, this works with an
+ * invalid config file, so local commands like `logout` aren't blocked by it.
+ */
+export function getProfileName(): string {
+  if (endpoints) {
+    return endpoints.profile;
+  }
+  let configProfile: string | undefined;
+  try {
+    configProfile = readConfigFile().profile;
+  } catch {
+    // Reported once the endpoints are used
+  }
+  return (
+    selectedProfile ||
+    process.env.RAINDROP_PROFILE ||
+    configProfile ||
+    DEFAULT_PROFILE
+  );
+}
@@ -0,0 +1,226 @@
+/**
+ * Checks of the events received in the testing phase against the Raindrop
+ * features the user chose to integrate
+ */
+
+import type { ApiEvent } from './test-server.js';
+
+/**
+ * Optional Raindrop features an integration can include
+ */
+export const EVENT_FEATURES = [
+  'identifyingUsers',
+  'conversations',
+  'attachments',
+  'signals',
+  'tracing',
+] as const;
+
+export type EventFeature = (typeof EVENT_FEATURES)[number];
+
+/**
+ * Feature names as the Raindrop docs and the agent's questions use them
+ */
+export const EVENT_FEATURE_NAMES: Record<EventFeature | 'tracking', string> = {
+  tracking: 'Tracking Events',
+  identifyingUsers: 'Identifying Users',
+  conversations: 'Conversations',
+  attachments: 'Attachments',
+  signals: 'Tracking Signals',
+  tracing: 'Tracing',
+};
+
+// How each feature shows up in the answer to the agent's features question
+const FEATURE_PATTERNS: Record<EventFeature, RegExp> = {
+  identifyingUsers: /identif|\busers?\b/i,
+  conversations: /conversation|convo|partial|interaction/i,
+  attachments: /attachment/i,
+  signals: /signal|feedback/i,
+  tracing: /tracing|\btraces?\b/i,
+};
+
+/**
+ * Result of checking the events for one feature
+ */
+export interface FeatureCheck {
+  feature: EventFeature | 'tracking';
+  name: string;
+  passed: boolean;
+  /** What passed or what is missing, e.g. "userId missing on 3/5 events" */
+  detail: string;
+}
+
+/**
+ * The features chosen in the answers to the agent's AskUserQuestion calls.
+ * Only questions about features count.
+ */
+export function detectFeatures(
+  answers: Record<string, string>,
+): EventFeature[] {
+  const chosen = Object.entries(answers)
+    .filter(([question]) => /feature/i.test(question))
+    .map(([, answer]) => answer)
+    .join('\n');
+  return EVENT_FEATURES.filter((feature) =>
+    FEATURE_PATTERNS[feature].test(chosen),
+  );
+}
+
+function isMissing(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+// A field every event must have
+function checkEveryEvent(
+  events: ApiEvent[],
+  fields: Record<string, (event: ApiEvent) => unknown>,
+): { passed: boolean; detail: string } {
+  const missing = Object.entries(fields)
+    .map(([field, getValue]) => ({
+      field,
+      count: events.filter((event) => isMissing(getValue(event))).length,
+    }))
+    .filter(({ count }) => count > 0);
+
+  if (missing.length === 0) {
+    return {
+      passed: true,
+      detail: `${Object.keys(fields).join(', ')} on every event`,
+    };
+  }
+  return {
+    passed: false,
+    detail: missing
+      .map(
+        ({ field, count }) =>
+          `${field} missing on ${count}/${events.length} events`,
+      )
+      .join(', '),
+  };
+}
+
+// Data only some events have, e.g. signals on the events users reacted to
+function checkSomeEvent(
+  events: ApiEvent[],
+  description: string,
+  hasData: (event: ApiEvent) => boolean,
+): { passed: boolean; detail: string } {
+  const count = events.filter(hasData).length;
+  return count > 0
+    ? {
+        passed: true,
+        detail: `${description} on ${count}/${events.length} events`,
+      }
+    : { passed: false, detail: `no event has ${description}` };
+}
+
+/**
+ * Check the events for the fields every event needs and for the data of
+ * each chosen feature
+ */
+export function checkEvents(
+  events: ApiEvent[],
+  features: EventFeature[],
+): FeatureCheck[] {
+  const check = (
+    feature: EventFeature | 'tracking',
+    result: { passed: boolean; detail: string },
+  ): FeatureCheck => ({
+    feature,
+    name: EVENT_FEATURE_NAMES[feature],
+    ...result,
+  });
+
+  if (events.length === 0) {
+    return [check('tracking', { passed: false, detail: 'no events received' })];
+  }
+
+  const checks = [
+    check(
+      'tracking',
+      checkEveryEvent(events, {
+        input: (event) => event.aiData?.input,
+        output: (event) => event.aiData?.output,
+        model: (event) => event.aiData?.model,
+      }),
+    ),
+  ];
+
+  for (const feature of EVENT_FEATURES.filter((f) => features.includes(f))) {
+    switch (feature) {
+      case 'identifyingUsers':
+        checks.push(
+          check(
+            feature,
+            checkEveryEvent(events, { userId: (event) => event.userId }),
+          ),
+        );
+        break;
+      case 'conversations':
+        checks.push(
+          check(
+            feature,
+            checkEveryEvent(events, {
+              convoId: (event) => event.aiData?.convoId,
+            }),
+          ),
+        );
+        break;
+      case 'attachments':
+        checks.push(
+          check(
+            feature,
+            checkSomeEvent(
+              events,
+              'attachments',
+              (event) =>
+                !isMissing(event.inputAttachments) ||
+                !isMissing(event.outputAttachments),
+            ),
+          ),
+        );
+        break;
+      case 'signals':
+        checks.push(
+          check(
+            feature,
+            checkSomeEvent(
+              events,
+              'signals',
+              (event) => !isMissing(event.signals),
+            ),
+          ),
+        );
+        break;
+      case 'tracing':
+        checks.push(
+          check(
+            feature,
+            checkSomeEvent(
+              events,
+              'tool calls or spans',
+              (event) => !isMissing(event.toolCalls) || !isMissing(event.spans),
+            ),
+          ),
+        );
+        break;
+    }
+  }
+
+  return checks;
+}
+
+/**
+ * Describe the failed checks for the agent, one per line
+ */
+export function formatFailedChecks(checks: FeatureCheck[]): string {
+  return checks
+    .filter((check) => !check.passed)
+    .map((check) => `- ${check.name}: ${check.detail}`)
+    .join('\n');
+}
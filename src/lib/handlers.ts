@@ -3,11 +3,35 @@
  * Handles UI integration for tool approvals and clarifying questions
  */
 
+import fs from 'node:fs/promises';
 import ui from '../utils/ui.js';
-import type { ToolApprovalResult, AgentQueryHandle } from '../ui/types.js';
+import type {
+  ToolApprovalResult,
+  AgentQueryHandle,
+  ClarifyingQuestionsProps,
+} from '../ui/types.js';
+import type { WizardOptions } from '../utils/types.js';
+import {
+  answerClarifyingQuestions,
+  type WizardAnswers,
+} from '../utils/answers.js';
 import { logToFile } from '../utils/debug.js';
-import { createTwoFilesPatch } from 'diff';
-import { SAFE_BASH_PATTERNS } from './constants.js';
+import { snapshotFile } from '../utils/journal.js';
+import { updateCheckpoint } from '../utils/checkpoint.js';
+import { generateEditDiff } from '../utils/diff.js';
+import { FILE_MODIFYING_TOOLS } from './constants.js';
+import { analyzeBashCommand } from './bash-analysis.js';
+import { detectFeatures } from './event-checks.js';
+import { CODEMOD_TOOLS } from './codemods.js';
+import {
+  DEFAULT_PERMISSION_POLICY,
+  describeRule,
+  evaluatePermission,
+  isBashSegmentAllowed,
+  targetsPermissionsFile,
+  PERMISSIONS_FILE,
+  type PermissionPolicy,
+} from './permissions.js';
 import { sendSessionUpdate } from '../utils/session.js';
 
 // ============================================================================
@@ -107,23 +131,23 @@ export function createAgentQueryHandle(
 // ============================================================================
 
 /**
- * Generate a unified diff for Edit tool inputs (old_string -> new_string)
+ * Diff of what a codemod tool would change in a file, undefined if the
+ * codemod fails (the tool reports why when it runs)
  */
-function generateEditDiff(
-  filePath: string,
-  oldString: string,
-  newString: string,
-): string {
-  // createTwoFilesPatch generates a unified diff
-  return createTwoFilesPatch(
-    filePath,
-    filePath,
-    oldString,
-    newString,
-    '', // old header
-    '', // new header
-    { context: 3 }, // context lines
-  );
+async function previewCodemod(
+  toolName: string,
+  input: Record<string, unknown>,
+  fileName: string,
+): Promise<string | undefined> {
+  const codemod =
+    CODEMOD_TOOLS[toolName.replace(/^mcp__raindrop-wizard__/, '')];
+  try {
+    const source = await fs.readFile(fileName, 'utf8');
+    return generateEditDiff(fileName, source, codemod(source, input).code);
+  } catch (error) {
+    logToFile('Error previewing codemod:', error);
+    return undefined;
+  }
 }
 
 /**
@@ -132,16 +156,11 @@ function generateEditDiff(
 async function handleToolApproval(
   toolName: string,
   input: Record<string, unknown>,
+  reason?: string,
 ): Promise<ToolApprovalResult> {
-  logToFile('Showing tool approval UI:', { toolName, input });
+  logToFile('Showing tool approval UI:', { toolName, input, reason });
 
-  // Extract file path
-  const fileName =
-    typeof input.file_path === 'string'
-      ? input.file_path
-      : typeof input.path === 'string'
-      ? input.path
-      : undefined;
+  const fileName = getToolFilePath(input);
 
   // Generate diff content for file modification tools
   let diffContent: string | undefined;
@@ -164,6 +183,13 @@ async function handleToolApproval(
   ) {
     // Write: show content as all additions (empty -> content)
     diffContent = generateEditDiff(fileName, '', input.content);
+  } else if (
+    toolName.startsWith('mcp__raindrop-wizard__') &&
+    FILE_MODIFYING_TOOLS.has(toolName) &&
+    fileName
+  ) {
+    // Codemod: show what it would change
+    diffContent = await previewCodemod(toolName, input, fileName);
   } else if (typeof input.file_diff === 'string') {
     // Use pre-generated diff if available
     diffContent = input.file_diff;
@@ -177,6 +203,7 @@ async function handleToolApproval(
       typeof input.description === 'string' ? input.description : undefined,
     diffContent,
     fileName,
+    reason,
   };
 
   try {
@@ -195,24 +222,59 @@ async function handleToolApproval(
 /**
  * Handle the AskUserQuestion tool by showing clarifying questions UI.
  * Input already contains { questions: [...] } in the correct format.
+ * Questions answered in the answers file (matched by header) are skipped.
  * Returns { questions, answers } as expected by the SDK.
  */
 async function handleClarifyingQuestions(
   input: Record<string, unknown>,
+  wizardSessionId: string,
+  answers?: WizardAnswers,
 ): Promise<ToolApprovalResult> {
   logToFile('Handling AskUserQuestion:', input);
 
   try {
     // Input is already in ClarifyingQuestionsProps format
-    const result = await ui.clarifyingQuestions(input as any);
+    const { questions } = input as unknown as ClarifyingQuestionsProps;
+    const { answered, remaining } = answerClarifyingQuestions(
+      answers,
+      questions,
+    );
+
+    if (Object.keys(answered).length > 0) {
+      ui.addItem({
+        type: 'clarifying-questions-result',
+        text: "Answered Wizard's questions from the answers file:",
+        questionsAndAnswers: questions
+          .filter((q) => q.question in answered)
+          .map((q) => ({ question: q.question, answer: answered[q.question] })),
+      });
+    }
+
+    const result =
+      remaining.length > 0
+        ? await ui.clarifyingQuestions({ questions: remaining })
+        : { questions: remaining, answers: {} };
     logToFile('Clarifying questions result:', result);
 
+    // Keep the chosen features so the testing phase can check their events
+    const allAnswers = { ...answered, ...result.answers };
+    const features = detectFeatures(allAnswers);
+    if (features.length > 0) {
+      await updateCheckpoint(wizardSessionId, (checkpoint) => {
+        checkpoint.features = [
+          ...new Set([...(checkpoint.features ?? []), ...features]),
+        ];
+      }).catch((error) =>
+        logToFile('Failed to checkpoint the features:', error),
+      );
+    }
+
     // Return questions + answers as expected by SDK
     return {
       behavior: 'allow',
       updatedInput: {
-        questions: result.questions,
-        answers: result.answers,
+        questions,
+        answers: allAnswers,
       },
     };
   } catch (error) {
@@ -240,6 +302,7 @@ export interface SessionInfo {
  */
 async function handlePlanApproval(
   input: Record<string, unknown>,
+  wizardSessionId: string,
   sessionInfo?: SessionInfo,
 ): Promise<ToolApprovalResult> {
   logToFile('Handling ExitPlanMode:', input);
@@ -251,6 +314,11 @@ async function handlePlanApproval(
     logToFile('Plan approval result:', result);
 
     if (result.approved) {
+      // Keep the approved plan for resuming the session
+      await updateCheckpoint(wizardSessionId, (checkpoint) => {
+        checkpoint.approvedPlan = planContent;
+      }).catch((error) => logToFile('Failed to checkpoint the plan:', error));
+
       // Send session update with approved plan
       if (sessionInfo) {
         sendSessionUpdate(
@@ -291,39 +359,40 @@ const AUTO_APPROVED_TOOLS = new Set([
 ]);
 
 /**
- * Check if a bash command matches a safe pattern and can be auto-approved.
+ * Get the file a file-modifying tool call targets
  */
-function isSafeBashCommand(command: string): boolean {
-  const trimmed = command.trim();
-  return SAFE_BASH_PATTERNS.some((pattern) => {
-    if (pattern.startsWith('*')) {
-      // Suffix match (e.g., '*--version')
-      return trimmed.endsWith(pattern.slice(1));
-    } else if (pattern.endsWith('*')) {
-      // Prefix match (e.g., 'npm install*')
-      return trimmed.startsWith(pattern.slice(0, -1));
-    } else {
-      // Exact match
-      return trimmed === pattern;
+function getToolFilePath(input: Record<string, unknown>): string | undefined {
+  for (const key of ['file_path', 'notebook_path', 'path']) {
+    if (typeof input[key] === 'string') {
+      return input[key];
     }
-  });
+  }
+  return undefined;
 }
 
+/**
+ * Domains the WebSearch tool is restricted to
+ */
+const WEB_SEARCH_ALLOWED_DOMAINS = ['raindrop.ai/docs', 'ai-sdk.dev/docs/'];
+
 /**
  * Create a canUseTool handler that integrates with the UI for approvals.
+ * - Applies the project's permission policy (deny > ask > allow)
  * - Handles AskUserQuestion by showing clarifying questions UI
  * - Handles ExitPlanMode by showing plan approval UI
  * - Handles WebSearch by restricting to allowed domains
  * - Shows approval UI for other tools
+ * - Snapshots files into the session journal before they are modified
  */
-export function createCanUseToolHandler(sessionInfo?: SessionInfo) {
-  return async (
+export function createCanUseToolHandler(
+  options: WizardOptions,
+  sessionInfo?: SessionInfo,
+  permissionPolicy: PermissionPolicy = DEFAULT_PERMISSION_POLICY,
+) {
+  const decide = async (
     toolName: string,
-    input: unknown,
+    inputRecord: Record<string, unknown>,
   ): Promise<ToolApprovalResult> => {
-    const inputRecord = input as Record<string, unknown>;
-    logToFile('canUseTool called:', { toolName, input: inputRecord });
-
     if (AUTO_APPROVED_TOOLS.has(toolName)) {
       return {
         behavior: 'allow',
@@ -331,15 +400,72 @@ export function createCanUseToolHandler(sessionInfo?: SessionInfo) {
       };
     }
 
-    // Auto-approve safe bash commands
+    // The agent must never be able to change its own permissions
+    if (
+      FILE_MODIFYING_TOOLS.has(toolName) &&
+      targetsPermissionsFile(inputRecord, options.installDir)
+    ) {
+      logToFile('Denying edit to permissions file');
+      return {
+        behavior: 'deny',
+        message: `${PERMISSIONS_FILE} can only be changed by the user.`,
+      };
+    }
+
+    const permission = evaluatePermission(
+      permissionPolicy,
+      toolName,
+      inputRecord,
+      options.installDir,
+    );
+    if (permission) {
+      logToFile('Permission rule matched:', permission);
+    }
+
+    if (permission?.decision === 'deny') {
+      return {
+        behavior: 'deny',
+        message: `${toolName} is denied by the rule ${describeRule(
+          permission.rule,
+        )} in ${PERMISSIONS_FILE}. Continue without it.`,
+      };
+    }
+
+    if (permission?.decision === 'allow') {
+      return {
+        behavior: 'allow',
+        updatedInput:
+          toolName === 'WebSearch'
+            ? { ...inputRecord, allowed_domains: WEB_SEARCH_ALLOWED_DOMAINS }
+            : inputRecord,
+      };
+    }
+
+    // Ask rules skip every auto-approval below and go straight to the user
+    if (permission?.decision === 'ask') {
+      return handleToolApproval(
+        toolName,
+        inputRecord,
+        `Matches the ask rule ${describeRule(
+          permission.rule,
+        )} in ${PERMISSIONS_FILE}`,
+      );
+    }
+
+    // Auto-approve bash commands whose every segment is safe
     if (toolName === 'Bash' && typeof inputRecord.command === 'string') {
-      if (isSafeBashCommand(inputRecord.command)) {
+      const analysis = analyzeBashCommand(inputRecord.command, {
+        builtinSafeCommands: permissionPolicy.builtinSafeCommands,
+        isAllowed: (words) => isBashSegmentAllowed(permissionPolicy, words),
+      });
+      if (analysis.safe) {
         logToFile('Auto-approving safe bash command:', inputRecord.command);
         return {
           behavior: 'allow',
           updatedInput: inputRecord,
         };
       }
+      return handleToolApproval(toolName, inputRecord, analysis.reason);
     }
 
     // Handle WebSearch by adding allowed domains restriction
@@ -348,22 +474,59 @@ export function createCanUseToolHandler(sessionInfo?: SessionInfo) {
         behavior: 'allow',
         updatedInput: {
           ...inputRecord,
-          allowed_domains: ['raindrop.ai/docs', 'ai-sdk.dev/docs/'],
+          allowed_domains: WEB_SEARCH_ALLOWED_DOMAINS,
         },
       };
     }
 
     // Handle AskUserQuestion specially
     if (toolName === 'AskUserQuestion') {
-      return handleClarifyingQuestions(inputRecord);
+      return handleClarifyingQuestions(
+        inputRecord,
+        options.sessionId,
+        options.answers,
+      );
     }
 
     // Handle ExitPlanMode specially
     if (toolName === 'ExitPlanMode') {
-      return handlePlanApproval(inputRecord, sessionInfo);
+      return handlePlanApproval(inputRecord, options.sessionId, sessionInfo);
     }
 
     // Show approval UI for other tools
     return handleToolApproval(toolName, inputRecord);
   };
+
+  return async (
+    toolName: string,
+    input: unknown,
+  ): Promise<ToolApprovalResult> => {
+    const inputRecord = input as Record<string, unknown>;
+    logToFile('canUseTool called:', { toolName, input: inputRecord });
+
+    const result = await decide(toolName, inputRecord);
+
+    // Snapshot files before they are modified so the run can be undone
+    // (a dry run only modifies a temporary copy)
+    if (
+      !options.dryRun &&
+      result.behavior === 'allow' &&
+      FILE_MODIFYING_TOOLS.has(toolName)
+    ) {
+      const filePath = getToolFilePath(result.updatedInput);
+      if (filePath) {
+        try {
+          await snapshotFile(options.sessionId, options.installDir, filePath);
+        } catch (error) {
+          logToFile('Error snapshotting file:', error);
+          return {
+            behavior: 'deny',
+            message: `Could not back up ${filePath} for undo. Do not modify this file.`,
+          };
+        }
+      }
+    }
+
+    return result;
+  };
 }
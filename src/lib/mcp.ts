@@ -3,41 +3,168 @@
  */
 
 import { createSdkMcpServer, tool } from '@anthropic-ai/claude-agent-sdk';
+import fs from 'node:fs/promises';
+import path from 'node:path';
 import { z } from 'zod';
 import { logToFile } from '../utils/debug.js';
+import { CODEMOD_TOOLS, INSTRUMENTED_MODULES } from './codemods.js';
+
+type McpToolHandler = (args: Record<string, unknown>) => unknown;
+
+/**
+ * The part of the MCP CallToolResult these tools return. The MCP SDK types
+ * aren't a dependency, and the agent SDK doesn't re-export them.
+ */
+interface CallToolResult {
+  content: Array<{ type: 'text'; text: string }>;
+  isError?: boolean;
+}
+
+// Tool handlers of the in-process servers, so a replayed agent run (see
+// agent-replay.ts) can call them like the SDK would
+const toolHandlers = new WeakMap<object, Map<string, McpToolHandler>>();
+
+/**
+ * Get the handler of a tool of an in-process MCP server
+ */
+export function getMcpToolHandler(
+  server: unknown,
+  toolName: string,
+): McpToolHandler | undefined {
+  if (typeof server !== 'object' || server === null) {
+    return undefined;
+  }
+  return toolHandlers.get(server)?.get(toolName);
+}
+
+function textResult(text: string, isError = false): CallToolResult {
+  return { content: [{ type: 'text', text }], ...(isError && { isError }) };
+}
+
+/**
+ * Run a codemod tool on the file the agent passed, writing the file only if
+ * the codemod changed it
+ */
+async function runCodemodTool(
+  toolName: string,
+  args: Record<string, unknown>,
+): Promise<CallToolResult> {
+  const filePath = args.file_path;
+  if (typeof filePath !== 'string' || !path.isAbsolute(filePath)) {
+    return textResult('file_path must be an absolute path', true);
+  }
+
+  try {
+    const source = await fs.readFile(filePath, 'utf8');
+    const result = CODEMOD_TOOLS[toolName](source, args);
+    if (result.code !== source) {
+      await fs.writeFile(filePath, result.code);
+    }
+    logToFile(`Ran codemod ${toolName} on ${filePath}:`, result.changes);
+
+    const lines = [
+      result.changes.length > 0
+        ? `Changed ${filePath}:\n${result.changes.join('\n')}`
+        : `${filePath} needed no changes.`,
+    ];
+    if (result.skipped.length > 0) {
+      lines.push(`Skipped, edit these by hand:\n${result.skipped.join('\n')}`);
+    }
+    return textResult(lines.join('\n\n'));
+  } catch (error) {
+    return textResult(
+      `${toolName} failed on ${filePath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      true,
+    );
+  }
+}
 
 /**
- * Create an in-process MCP server with the CompleteIntegration tool
+ * Create an in-process MCP server with the CompleteIntegration tool and the
+ * codemod tools (see codemods.ts)
  */
 export function createCompletionMcpServer(hasCompletedWorkRef: {
   value: boolean;
 }): any {
+  const completeIntegration = (): CallToolResult => {
+    logToFile(
+      'Agent called CompleteIntegration tool - integration is complete',
+    );
+
+    // Set the completion flag
+    hasCompletedWorkRef.value = true;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: 'Integration completion acknowledged. Transitioning to testing phase...',
+        },
+      ],
+    };
+  };
+
   const completionTool = tool(
     'CompleteIntegration',
     'Signals that the Raindrop integration is complete. Call this tool ONLY after you have: 1) Successfully installed the Raindrop package, 2) Integrated Raindrop into all relevant LLM API call sites, and 3) Verified the project builds/runs without errors.',
     z.object({}), // No input parameters
-    (_args: Record<string, never>, _extra: unknown): any => {
-      logToFile(
-        'Agent called CompleteIntegration tool - integration is complete',
-      );
-
-      // Set the completion flag
-      hasCompletedWorkRef.value = true;
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: 'Integration completion acknowledged. Transitioning to testing phase...',
-          },
-        ],
-      };
-    },
+    (_args: Record<string, never>, _extra: unknown) =>
+      Promise.resolve(completeIntegration()),
+  );
+
+  const addAiSdkTelemetry = (args: Record<string, unknown>) =>
+    runCodemodTool('AddAiSdkTelemetry', args);
+  const addAiSdkTelemetryTool = tool(
+    'AddAiSdkTelemetry',
+    'Enables experimental_telemetry on every Vercel AI SDK call (generateText, streamText, generateObject, streamObject, embed, embedMany) in a JavaScript/TypeScript file, keeping the rest of the file as is. Prefer this over editing the calls by hand. Reports the calls it could not change.',
+    z.object({
+      file_path: z.string().describe('Absolute path of the file'),
+      functionId: z
+        .string()
+        .optional()
+        .describe('functionId to add to the telemetry settings'),
+    }),
+    (args: Record<string, unknown>, _extra: unknown) => addAiSdkTelemetry(args),
   );
 
-  return createSdkMcpServer({
+  const instrumentAiClients = (args: Record<string, unknown>) =>
+    runCodemodTool('InstrumentAiClients', args);
+  const instrumentAiClientsTool = tool(
+    'InstrumentAiClients',
+    'Passes the OpenAI and/or Anthropic modules to `new Raindrop({...})` as instrumentModules in a JavaScript/TypeScript file, adding the imports they need. Prefer this over editing the Raindrop setup by hand.',
+    z.object({
+      file_path: z
+        .string()
+        .describe('Absolute path of the file that calls new Raindrop'),
+      modules: z
+        .array(
+          z.enum(
+            Object.keys(INSTRUMENTED_MODULES) as [
+              keyof typeof INSTRUMENTED_MODULES,
+            ],
+          ),
+        )
+        .min(1)
+        .describe('The AI client libraries the project uses'),
+    }),
+    (args: Record<string, unknown>, _extra: unknown) =>
+      instrumentAiClients(args),
+  );
+
+  const server = createSdkMcpServer({
     name: 'raindrop-wizard',
     version: '1.0.0',
-    tools: [completionTool],
+    tools: [completionTool, addAiSdkTelemetryTool, instrumentAiClientsTool],
   });
+  toolHandlers.set(
+    server,
+    new Map<string, McpToolHandler>([
+      ['CompleteIntegration', completeIntegration],
+      ['AddAiSdkTelemetry', addAiSdkTelemetry],
+      ['InstrumentAiClients', instrumentAiClients],
+    ]),
+  );
+  return server;
 }
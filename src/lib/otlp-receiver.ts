@@ -0,0 +1,140 @@
+/**
+ * Local OTLP/HTTP receiver for the test phase (--otlp-receiver): the
+ * project's trace exporter is pointed at it through an environment variable,
+ * so OTEL integrations can be checked offline and before a write key exists.
+ */
+
+import http from 'http';
+import { OTLP_RECEIVER_PORT } from './constants.js';
+import {
+  decodeOtlpTraces,
+  getAiTraceIds,
+  toTraceEvent,
+  type OtlpSpan,
+} from './otlp.js';
+import type { ApiEvent } from './test-server.js';
+
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+export interface OtlpReceiverOptions {
+  /** Defaults to OTLP_RECEIVER_PORT, or a free port if that one is in use */
+  port?: number;
+  host?: string;
+  /** Called with the event of every trace with AI spans, again as it grows */
+  onEvent: (event: ApiEvent) => void;
+}
+
+export interface OtlpReceiver {
+  /** URL to export traces to */
+  tracesUrl: string;
+  close(): Promise<void>;
+}
+
+function readBody(req: http.IncomingMessage): Promise<Buffer | undefined> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        resolve(undefined);
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+function listen(server: http.Server, port: number, host?: string) {
+  return new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+}
+
+/**
+ * Start the receiver. Resolves once it's listening.
+ */
+export async function startOtlpReceiver(
+  options: OtlpReceiverOptions,
+): Promise<OtlpReceiver> {
+  // Spans received so far, by trace, since a trace can span several exports
+  const traces = new Map<string, OtlpSpan[]>();
+
+  const server = http.createServer((req, res) => {
+    void (async () => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      if (req.method !== 'POST' || url.pathname !== '/v1/traces') {
+        res.writeHead(404).end();
+        return;
+      }
+
+      const body = await readBody(req).catch(() => undefined);
+      const contentType = req.headers['content-type'] ?? '';
+      let spans: OtlpSpan[];
+      try {
+        if (!body) {
+          throw new Error('Request body too large');
+        }
+        spans = decodeOtlpTraces(body, contentType);
+      } catch (error) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(
+          JSON.stringify({
+            error: error instanceof Error ? error.message : String(error),
+          }),
+        );
+        return;
+      }
+
+      const receivedAt = new Date().toISOString();
+      for (const traceId of getAiTraceIds(spans)) {
+        const traceSpans = [
+          ...(traces.get(traceId) ?? []),
+          ...spans.filter((span) => span.traceId === traceId),
+        ];
+        traces.set(traceId, traceSpans);
+        options.onEvent(toTraceEvent(traceSpans, receivedAt));
+      }
+
+      // An empty ExportTraceServiceResponse in either encoding
+      if (contentType.includes('json')) {
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end('{}');
+      } else {
+        res.writeHead(200, { 'Content-Type': 'application/x-protobuf' }).end();
+      }
+    })();
+  });
+
+  const port = options.port ?? OTLP_RECEIVER_PORT;
+  try {
+    await listen(server, port, options.host);
+  } catch (error) {
+    // Another collector may already use the standard port
+    if (
+      options.port !== undefined ||
+      (error as NodeJS.ErrnoException).code !== 'EADDRINUSE'
+    ) {
+      throw error;
+    }
+    await listen(server, 0, options.host);
+  }
+
+  const address = server.address();
+  return {
+    tracesUrl: `http://localhost:${String(
+      typeof address === 'object' && address ? address.port : port,
+    )}/v1/traces`,
+    close: () =>
+      new Promise((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+      }),
+  };
+}
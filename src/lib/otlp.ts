@@ -0,0 +1,274 @@
+/**
+ * Decoding of OTLP/HTTP trace exports (protobuf or JSON) into plain spans,
+ * and extraction of the AI data the Vercel AI SDK and OpenTelemetry GenAI
+ * instrumentations record on them
+ */
+
+import otlpRoot from '@opentelemetry/otlp-transformer/build/src/generated/root.js';
+import type { ApiEvent } from './test-server.js';
+
+/**
+ * A span with its attributes and resource attributes as plain values
+ */
+export interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  /** ISO timestamps */
+  startTime?: string;
+  endTime?: string;
+  attributes: Record<string, unknown>;
+  resource: Record<string, unknown>;
+  status?: { code?: number; message?: string };
+}
+
+/**
+ * AI call data found on a span
+ */
+export interface AiSpanData {
+  model?: string;
+  input?: string;
+  output?: string;
+  userId?: string;
+  convoId?: string;
+  eventName?: string;
+  wizardSession?: string;
+}
+
+// The parts of the OTLP messages the decoder reads, in the shape of the
+// OTLP/JSON encoding (protobuf messages are converted to it)
+type AnyValue = {
+  stringValue?: string;
+  boolValue?: boolean;
+  intValue?: string | number;
+  doubleValue?: number;
+  arrayValue?: { values?: AnyValue[] };
+  kvlistValue?: { values?: KeyValue[] };
+  bytesValue?: string;
+};
+type KeyValue = { key: string; value?: AnyValue };
+type Span = {
+  traceId?: string;
+  spanId?: string;
+  parentSpanId?: string;
+  name?: string;
+  startTimeUnixNano?: string | number;
+  endTimeUnixNano?: string | number;
+  attributes?: KeyValue[];
+  status?: { code?: number; message?: string };
+};
+type ExportTraceServiceRequest = {
+  resourceSpans?: {
+    resource?: { attributes?: KeyValue[] };
+    scopeSpans?: { spans?: Span[] }[];
+  }[];
+};
+
+type ProtobufMessageType = {
+  decode(data: Uint8Array): unknown;
+  toObject(message: unknown, options: Record<string, unknown>): unknown;
+};
+
+// Static protobuf code generated from the OTLP protos
+const { opentelemetry } = otlpRoot as unknown as {
+  opentelemetry: {
+    proto: {
+      collector: {
+        trace: { v1: { ExportTraceServiceRequest: ProtobufMessageType } };
+      };
+    };
+  };
+};
+
+function toAnyValue(value: AnyValue | undefined): unknown {
+  if (!value) {
+    return undefined;
+  }
+  if (value.stringValue !== undefined) {
+    return value.stringValue;
+  }
+  if (value.boolValue !== undefined) {
+    return value.boolValue;
+  }
+  if (value.intValue !== undefined) {
+    return Number(value.intValue);
+  }
+  if (value.doubleValue !== undefined) {
+    return value.doubleValue;
+  }
+  if (value.arrayValue) {
+    return (value.arrayValue.values ?? []).map(toAnyValue);
+  }
+  if (value.kvlistValue) {
+    return toAttributes(value.kvlistValue.values);
+  }
+  return value.bytesValue;
+}
+
+function toAttributes(keyValues: KeyValue[] = []): Record<string, unknown> {
+  return Object.fromEntries(
+    keyValues.map(({ key, value }) => [key, toAnyValue(value)]),
+  );
+}
+
+function toIsoTime(unixNano: string | number | undefined): string | undefined {
+  if (unixNano === undefined || unixNano === '0' || unixNano === 0) {
+    return undefined;
+  }
+  return new Date(Number(BigInt(unixNano) / 1000000n)).toISOString();
+}
+
+/**
+ * Decode an OTLP/HTTP trace export request. Protobuf is the default
+ * encoding of OTLP/HTTP; JSON is used when the content type says so.
+ * Throws when the body can't be decoded.
+ */
+export function decodeOtlpTraces(
+  body: Buffer,
+  contentType = 'application/x-protobuf',
+): OtlpSpan[] {
+  let request: ExportTraceServiceRequest;
+  // Ids are hex in OTLP/JSON and raw bytes in protobuf
+  let toId: (id: string | undefined) => string;
+
+  if (contentType.includes('json')) {
+    request = JSON.parse(body.toString('utf-8')) as ExportTraceServiceRequest;
+    toId = (id) => id ?? '';
+  } else {
+    const messageType =
+      opentelemetry.proto.collector.trace.v1.ExportTraceServiceRequest;
+    request = messageType.toObject(messageType.decode(body), {
+      longs: String,
+      bytes: String,
+      defaults: false,
+    }) as ExportTraceServiceRequest;
+    toId = (id) => Buffer.from(id ?? '', 'base64').toString('hex');
+  }
+
+  return (request.resourceSpans ?? []).flatMap((resourceSpans) => {
+    const resource = toAttributes(resourceSpans.resource?.attributes);
+    return (resourceSpans.scopeSpans ?? []).flatMap((scopeSpans) =>
+      (scopeSpans.spans ?? []).map((span) => ({
+        traceId: toId(span.traceId),
+        spanId: toId(span.spanId),
+        parentSpanId: span.parentSpanId ? toId(span.parentSpanId) : undefined,
+        name: span.name ?? '',
+        startTime: toIsoTime(span.startTimeUnixNano),
+        endTime: toIsoTime(span.endTimeUnixNano),
+        attributes: toAttributes(span.attributes),
+        resource,
+        status: span.status,
+      })),
+    );
+  });
+}
+
+function stringify(value: unknown): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Telemetry metadata of a Vercel AI SDK span, with or without the key
+ * prefix raindrop.metadata() adds
+ */
+function getMetadata(
+  attributes: Record<string, unknown>,
+  name: string,
+): string | undefined {
+  const pattern = new RegExp(
+    `^ai\\.telemetry\\.metadata\\.(raindrop[._])?${name}$`,
+    'i',
+  );
+  const key = Object.keys(attributes).find((key) => pattern.test(key));
+  return key === undefined ? undefined : stringify(attributes[key]);
+}
+
+/**
+ * The AI call recorded on a span, or undefined if it isn't an AI span
+ */
+export function getAiSpanData(span: OtlpSpan): AiSpanData | undefined {
+  const attributes = span.attributes;
+  const isAiSpan = Object.keys(attributes).some(
+    (key) => key.startsWith('ai.') || key.startsWith('gen_ai.'),
+  );
+  if (!isAiSpan) {
+    return undefined;
+  }
+
+  return {
+    model: stringify(
+      attributes['ai.model.id'] ??
+        attributes['gen_ai.response.model'] ??
+        attributes['gen_ai.request.model'],
+    ),
+    input: stringify(
+      attributes['ai.prompt.messages'] ??
+        attributes['ai.prompt'] ??
+        attributes['ai.value'] ??
+        attributes['gen_ai.input.messages'] ??
+        attributes['gen_ai.prompt'],
+    ),
+    output: stringify(
+      attributes['ai.response.text'] ??
+        attributes['ai.response.object'] ??
+        attributes['ai.result.text'] ??
+        attributes['gen_ai.output.messages'] ??
+        attributes['gen_ai.completion'],
+    ),
+    userId: getMetadata(attributes, 'user_?id'),
+    convoId: getMetadata(attributes, 'convo_?id'),
+    eventName:
+      getMetadata(attributes, 'event_?name') ??
+      stringify(attributes['ai.telemetry.functionId']),
+    wizardSession: getMetadata(attributes, 'wizard_?session'),
+  };
+}
+
+/**
+ * Ids of the traces that have AI spans
+ */
+export function getAiTraceIds(spans: OtlpSpan[]): string[] {
+  return [
+    ...new Set(
+      spans.filter((span) => getAiSpanData(span)).map((span) => span.traceId),
+    ),
+  ];
+}
+
+/**
+ * The event of a trace with AI spans, in the shape of the events list API.
+ * The trace is described by its outermost AI span.
+ */
+export function toTraceEvent(
+  traceSpans: OtlpSpan[],
+  receivedAt: string,
+): ApiEvent {
+  const spanIds = new Set(traceSpans.map((span) => span.spanId));
+  const aiSpans = traceSpans.filter((span) => getAiSpanData(span));
+  const topSpan =
+    aiSpans.find(
+      (span) => !span.parentSpanId || !spanIds.has(span.parentSpanId),
+    ) ?? aiSpans[0];
+  const aiData = getAiSpanData(topSpan) ?? {};
+
+  return {
+    id: `trace-${topSpan.traceId}`,
+    name: aiData.eventName ?? topSpan.name,
+    timestamp: topSpan.startTime ?? receivedAt,
+    receivedAt,
+    userId: aiData.userId,
+    aiData: {
+      model: aiData.model,
+      input: aiData.input,
+      output: aiData.output,
+      convoId: aiData.convoId,
+    },
+    format: 'otel',
+    spans: traceSpans,
+    aiAttributes: topSpan.attributes,
+  };
+}
@@ -0,0 +1,339 @@
+/**
+ * Declarative tool-permission policy for the Claude agent.
+ * Loaded from .raindrop-wizard/permissions.json in the install directory and
+ * evaluated by the canUseTool handler before any built-in auto-approval.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { minimatch } from 'minimatch';
+import { z } from 'zod';
+import { parseShellCommand } from './bash-analysis.js';
+
+/**
+ * Location of the permissions file, relative to the install directory
+ */
+export const PERMISSIONS_FILE = path.join(
+  '.raindrop-wizard',
+  'permissions.json',
+);
+
+/**
+ * Tools that permission rules can target
+ */
+export const PERMISSION_TOOLS = [
+  'Bash',
+  'Edit',
+  'Write',
+  'WebSearch',
+  'WebFetch',
+] as const;
+
+export type PermissionTool = (typeof PERMISSION_TOOLS)[number];
+
+/**
+ * Tools that are covered by the rules of another tool. An Edit rule also
+ * applies to every other tool that edits an existing file.
+ */
+const PERMISSION_TOOL_FAMILIES: Record<string, PermissionTool> = {
+  MultiEdit: 'Edit',
+  NotebookEdit: 'Edit',
+  'mcp__raindrop-wizard__AddAiSdkTelemetry': 'Edit',
+  'mcp__raindrop-wizard__InstrumentAiClients': 'Edit',
+};
+
+/**
+ * Filesystems that ignore case by default, where paths differing only in
+ * case name the same file
+ */
+const CASE_INSENSITIVE_FS =
+  process.platform === 'darwin' || process.platform === 'win32';
+
+const PermissionRuleSchema = z
+  .object({
+    tool: z.enum(PERMISSION_TOOLS),
+    /** Bash: command matcher, e.g. "npm install *" or "docker compose up *" */
+    command: z.string().min(1).optional(),
+    /** Edit/Write: path glob relative to the install directory, e.g. "src/**" */
+    path: z.string().min(1).optional(),
+    /** WebFetch: host glob, e.g. "*.raindrop.ai" */
+    domain: z.string().min(1).optional(),
+  })
+  .strict();
+
+const PermissionPolicySchema = z
+  .object({
+    /** Auto-approve the built-in list of safe Bash commands (SAFE_BASH_PATTERNS) */
+    builtinSafeCommands: z.boolean().default(true),
+    allow: z.array(PermissionRuleSchema).default([]),
+    deny: z.array(PermissionRuleSchema).default([]),
+    ask: z.array(PermissionRuleSchema).default([]),
+  })
+  .strict();
+
+export type PermissionRule = z.infer<typeof PermissionRuleSchema>;
+export type PermissionPolicy = z.infer<typeof PermissionPolicySchema>;
+export type PermissionDecision = 'allow' | 'deny' | 'ask';
+
+/**
+ * A matched permission rule and the decision it carries
+ */
+export interface PermissionMatch {
+  decision: PermissionDecision;
+  rule: PermissionRule;
+}
+
+/**
+ * Policy used when no permissions file exists: built-in behavior only
+ */
+export const DEFAULT_PERMISSION_POLICY: PermissionPolicy = {
+  builtinSafeCommands: true,
+  allow: [],
+  deny: [],
+  ask: [],
+};
+
+/**
+ * Load the permission policy for a project.
+ * Returns the default policy when the file does not exist, and throws
+ * when it exists but cannot be parsed or validated.
+ */
+export async function loadPermissionPolicy(
+  installDir: string,
+): Promise<PermissionPolicy> {
+  const policyPath = path.join(installDir, PERMISSIONS_FILE);
+
+  let content: string;
+  try {
+    content = await fs.promises.readFile(policyPath, 'utf-8');
+  } catch {
+    return DEFAULT_PERMISSION_POLICY;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Could not parse ${PERMISSIONS_FILE}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+  }
+
+  const result = PermissionPolicySchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid ${PERMISSIONS_FILE}: ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Match command words against a command matcher.
+ * Matcher words are separated by spaces and each is a glob for one command
+ * word; a trailing "*" matches any remaining arguments (including none).
+ */
+export function matchCommand(commandWords: string[], matcher: string): boolean {
+  const patternWords = matcher.trim().split(/\s+/);
+
+  const lastPattern = patternWords[patternWords.length - 1];
+  const matchesRest = lastPattern === '*' || lastPattern === '**';
+  const fixedPatterns = matchesRest ? patternWords.slice(0, -1) : patternWords;
+
+  if (
+    commandWords.length < fixedPatterns.length ||
+    (!matchesRest && commandWords.length !== fixedPatterns.length)
+  ) {
+    return false;
+  }
+
+  return fixedPatterns.every((pattern, i) =>
+    minimatch(commandWords[i], pattern, { dot: true, nocomment: true }),
+  );
+}
+
+/**
+ * Match a file path against a path glob. Relative globs are matched against
+ * the path relative to the install directory; absolute globs against the
+ * absolute path.
+ */
+function matchPath(
+  filePath: string,
+  pattern: string,
+  installDir: string,
+): boolean {
+  const absolutePath = path.resolve(installDir, filePath);
+  if (path.isAbsolute(pattern)) {
+    return minimatch(absolutePath, pattern, { dot: true });
+  }
+
+  const relativePath = path.relative(installDir, absolutePath);
+  if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+    return false;
+  }
+  return minimatch(relativePath.split(path.sep).join('/'), pattern, {
+    dot: true,
+  });
+}
+
+/**
+ * Get the file a file tool call targets, if any
+ */
+function getInputFilePath(input: Record<string, unknown>): string | undefined {
+  for (const key of ['file_path', 'notebook_path', 'path']) {
+    if (typeof input[key] === 'string') {
+      return input[key];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolve symlinks in a path. Files that don't exist yet (e.g. a Write that
+ * creates one) are resolved through their closest existing parent directory.
+ */
+function resolveRealPath(filePath: string): string {
+  const missingParts: string[] = [];
+  let current = filePath;
+  for (;;) {
+    try {
+      return path.join(fs.realpathSync(current), ...missingParts);
+    } catch {
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return filePath;
+      }
+      missingParts.unshift(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+/**
+ * Extract the host from a URL, or undefined if it can't be parsed
+ */
+function getHost(url: string): string | undefined {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check whether a single rule applies to a tool call
+ */
+export function ruleMatches(
+  rule: PermissionRule,
+  toolName: string,
+  input: Record<string, unknown>,
+  installDir: string,
+): boolean {
+  if (rule.tool !== (PERMISSION_TOOL_FAMILIES[toolName] ?? toolName)) {
+    return false;
+  }
+
+  if (rule.command !== undefined) {
+    if (typeof input.command !== 'string') {
+      return false;
+    }
+    // Compound commands match when any of their segments matches
+    const { command } = rule;
+    const { segments } = parseShellCommand(input.command);
+    if (!segments.some((segment) => matchCommand(segment.words, command))) {
+      return false;
+    }
+  }
+
+  if (rule.path !== undefined) {
+    const filePath = getInputFilePath(input);
+    if (!filePath || !matchPath(filePath, rule.path, installDir)) {
+      return false;
+    }
+  }
+
+  if (rule.domain !== undefined) {
+    const host = typeof input.url === 'string' ? getHost(input.url) : undefined;
+    if (!host || !minimatch(host, rule.domain, { nocase: true })) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Evaluate the policy for a tool call.
+ * Deny rules win over ask rules, which win over allow rules.
+ * Bash deny and ask rules match when any segment of a compound command
+ * matches. Bash allow rules with a command matcher are applied per segment
+ * by analyzeBashCommand (see isBashSegmentAllowed), so they are skipped here.
+ * Returns undefined when no rule matches.
+ */
+export function evaluatePermission(
+  policy: PermissionPolicy,
+  toolName: string,
+  input: Record<string, unknown>,
+  installDir: string,
+): PermissionMatch | undefined {
+  const decisions: PermissionDecision[] = ['deny', 'ask', 'allow'];
+  for (const decision of decisions) {
+    const rule = policy[decision].find(
+      (r) =>
+        !(decision === 'allow' && r.tool === 'Bash' && r.command) &&
+        ruleMatches(r, toolName, input, installDir),
+    );
+    if (rule) {
+      return { decision, rule };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check whether a single Bash command segment is allowed by an allow rule
+ */
+export function isBashSegmentAllowed(
+  policy: PermissionPolicy,
+  words: string[],
+): boolean {
+  return policy.allow.some(
+    (rule) =>
+      rule.tool === 'Bash' &&
+      rule.command !== undefined &&
+      matchCommand(words, rule.command),
+  );
+}
+
+/**
+ * Check whether a file tool call targets the permissions file itself.
+ * The agent must never be able to grant itself permissions, so paths are
+ * compared after resolving symlinks and, where the filesystem ignores case,
+ * without case.
+ */
+export function targetsPermissionsFile(
+  input: Record<string, unknown>,
+  installDir: string,
+): boolean {
+  const filePath = getInputFilePath(input);
+  if (filePath === undefined) {
+    return false;
+  }
+
+  const normalize = (p: string) => {
+    const realPath = resolveRealPath(path.resolve(installDir, p));
+    return CASE_INSENSITIVE_FS ? realPath.toLowerCase() : realPath;
+  };
+  return normalize(filePath) === normalize(PERMISSIONS_FILE);
+}
+
+/**
+ * Describe a rule for display, e.g. 'Bash "npx *"' or 'Edit "src/**"'
+ */
+export function describeRule(rule: PermissionRule): string {
+  const matcher = rule.command ?? rule.path ?? rule.domain;
+  return matcher ? `${rule.tool} "${matcher}"` : rule.tool;
+}
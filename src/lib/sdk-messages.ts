@@ -7,7 +7,7 @@ import ui from '../utils/ui.js';
 import { debug, logToFile } from '../utils/debug.js';
 import type { PendingToolCall } from './handlers.js';
 import type { WizardOptions } from '../utils/types.js';
-import { createTwoFilesPatch } from 'diff';
+import { generateEditDiff } from '../utils/diff.js';
 
 // Using `any` because typed imports from ESM modules require import attributes
 // syntax which prettier cannot parse.
@@ -23,25 +23,6 @@ const INTERNAL_TOOLS = new Set([
   'ExitPlanMode',
 ]);
 
-/**
- * Generate a unified diff for Edit tool inputs (old_string -> new_string)
- */
-function generateEditDiff(
-  filePath: string,
-  oldString: string,
-  newString: string,
-): string {
-  return createTwoFilesPatch(
-    filePath,
-    filePath,
-    oldString,
-    newString,
-    '', // old header
-    '', // new header
-    { context: 3 }, // context lines
-  );
-}
-
 /**
  * Extract summary for Edit tool (line changes)
  */
@@ -0,0 +1,19 @@
+/**
+ * Location of the Claude Code CLI bundled with the agent SDK
+ */
+
+import path from 'path';
+import { createRequire } from 'module';
+
+// Create a require function for ESM compatibility
+const require = createRequire(import.meta.url);
+
+/**
+ * Get the path to the bundled Claude Code CLI from the SDK package.
+ * This ensures we use the SDK's bundled version rather than the user's installed Claude Code.
+ */
+export function getClaudeCodeExecutablePath(): string {
+  // require.resolve finds the package's main entry, then we get cli.js from same dir
+  const sdkPackagePath = require.resolve('@anthropic-ai/claude-agent-sdk');
+  return path.join(path.dirname(sdkPackagePath), 'cli.js');
+}
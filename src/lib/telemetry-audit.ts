@@ -0,0 +1,212 @@
+/**
+ * Static check that every Vercel AI SDK call sends its traces to Raindrop:
+ * telemetry must be enabled at all call sites, and the top-level calls need
+ * the Raindrop metadata (see vercelAiSdk/docs.md)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import fg from 'fast-glob';
+import { findAiSdkCalls, type AiSdkCall } from './codemods.js';
+import {
+  TYPESCRIPT_SOURCE_IGNORE,
+  VERCEL_AI_SDK_IMPORT_PATTERNS,
+} from './config.js';
+import {
+  findNodes,
+  findProperty,
+  parseProgram,
+  type AstNode,
+} from '../utils/ast.js';
+
+const SOURCE_FILES = '**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs}';
+
+/**
+ * Telemetry of a call: 'unknown' when it's set with an expression the
+ * scanner can't evaluate
+ */
+export type TelemetryStatus = 'enabled' | 'disabled' | 'missing' | 'unknown';
+
+/**
+ * A Vercel AI SDK call and how it's instrumented
+ */
+export interface AiSdkCallAudit {
+  /** Path relative to the scanned directory */
+  file: string;
+  line: number;
+  functionName: AiSdkCall['functionName'];
+  telemetry: TelemetryStatus;
+  /**
+   * Whether raindrop.metadata() is passed, undefined for calls nested in a
+   * tool's execute, which need none
+   */
+  metadata?: boolean;
+}
+
+export interface TelemetryAudit {
+  calls: AiSdkCallAudit[];
+  /** Files that import the Vercel AI SDK but could not be parsed */
+  unparsedFiles: string[];
+}
+
+function getTelemetryStatus(telemetry: AstNode | undefined): TelemetryStatus {
+  if (!telemetry) {
+    return 'missing';
+  }
+  const value = telemetry.value as AstNode;
+  if (value.type !== 'ObjectExpression') {
+    return 'unknown';
+  }
+  const isEnabled = findProperty(value, 'isEnabled')?.value as
+    | AstNode
+    | undefined;
+  if (!isEnabled) {
+    return 'disabled';
+  }
+  if (isEnabled.type !== 'BooleanLiteral') {
+    return 'unknown';
+  }
+  return isEnabled.value ? 'enabled' : 'disabled';
+}
+
+// Metadata set with anything but an object literal can't be checked and is
+// taken to be the Raindrop metadata
+function hasRaindropMetadata(telemetry: AstNode | undefined): boolean {
+  const value = telemetry?.value as AstNode | undefined;
+  if (value?.type !== 'ObjectExpression') {
+    return value !== undefined;
+  }
+  const metadata = findProperty(value, 'metadata')?.value as
+    | AstNode
+    | undefined;
+  if (!metadata) {
+    return false;
+  }
+  if (metadata.type !== 'ObjectExpression') {
+    return true;
+  }
+  return findNodes(metadata, 'CallExpression').some((call) => {
+    const callee = call.callee as AstNode;
+    return (
+      callee.type === 'MemberExpression' &&
+      (callee.property as AstNode).name === 'metadata'
+    );
+  });
+}
+
+// Offset ranges of the functions passed as a tool's execute
+function getToolExecuteRanges(program: AstNode): Array<[number, number]> {
+  return [
+    ...findNodes(program, 'ObjectProperty'),
+    ...findNodes(program, 'ObjectMethod'),
+  ].flatMap((property) => {
+    const key = property.key as AstNode;
+    if (property.computed || key.name !== 'execute') {
+      return [];
+    }
+    const value =
+      property.type === 'ObjectMethod' ? property : (property.value as AstNode);
+    return [[value.start ?? 0, value.end ?? 0] as [number, number]];
+  });
+}
+
+/**
+ * Audit the Vercel AI SDK calls of a module. Throws on syntax errors.
+ */
+export function auditAiSdkSource(
+  source: string,
+  file: string,
+): AiSdkCallAudit[] {
+  const program = parseProgram(source);
+  const toolExecutes = getToolExecuteRanges(program);
+
+  return findAiSdkCalls(program).map((call) => {
+    const telemetry = call.options
+      ? findProperty(call.options, 'experimental_telemetry')
+      : undefined;
+    const start = call.node.start ?? 0;
+    const nested = toolExecutes.some(
+      ([rangeStart, rangeEnd]) => start > rangeStart && start < rangeEnd,
+    );
+    return {
+      file,
+      line: call.line,
+      functionName: call.functionName,
+      telemetry: call.options ? getTelemetryStatus(telemetry) : 'unknown',
+      metadata: nested
+        ? undefined
+        : call.options
+        ? hasRaindropMetadata(telemetry)
+        : true,
+    };
+  });
+}
+
+/**
+ * Audit the Vercel AI SDK calls of every source file in a directory
+ */
+export async function auditAiSdkTelemetry(
+  installDir: string,
+): Promise<TelemetryAudit> {
+  const files = await fg(SOURCE_FILES, {
+    cwd: installDir,
+    ignore: TYPESCRIPT_SOURCE_IGNORE,
+    onlyFiles: true,
+  });
+
+  const audit: TelemetryAudit = { calls: [], unparsedFiles: [] };
+  for (const file of files.sort()) {
+    let source: string;
+    try {
+      source = await fs.promises.readFile(path.join(installDir, file), 'utf-8');
+    } catch {
+      // Skip files that can't be read
+      continue;
+    }
+    if (
+      !VERCEL_AI_SDK_IMPORT_PATTERNS.some((pattern) => pattern.test(source))
+    ) {
+      continue;
+    }
+
+    try {
+      audit.calls.push(...auditAiSdkSource(source, file));
+    } catch {
+      audit.unparsedFiles.push(file);
+    }
+  }
+  return audit;
+}
+
+/**
+ * What a call lacks, empty when it's fully instrumented or can't be checked
+ */
+export function getCallIssues(call: AiSdkCallAudit): string[] {
+  const issues: string[] = [];
+  if (call.telemetry === 'missing') {
+    issues.push('experimental_telemetry is missing');
+  } else if (call.telemetry === 'disabled') {
+    issues.push('experimental_telemetry is not enabled');
+  }
+  if (call.metadata === false) {
+    issues.push('no raindrop.metadata() in experimental_telemetry');
+  }
+  return issues;
+}
+
+/**
+ * The calls that lack telemetry or metadata, one per line, or an empty
+ * string if there are none
+ */
+export function formatTelemetryIssues(calls: AiSdkCallAudit[]): string {
+  return calls
+    .map((call) => ({ call, issues: getCallIssues(call) }))
+    .filter(({ issues }) => issues.length > 0)
+    .map(
+      ({ call, issues }) =>
+        `- ${call.file}:${call.line} ${call.functionName}: ${issues.join(
+          ', ',
+        )}`,
+    )
+    .join('\n');
+}
@@ -1,12 +1,22 @@
 import Chalk from 'chalk';
+import path from 'path';
 
 // chalk v2 types don't work well with ESM default imports
 const chalk = Chalk as any;
 import ui from '../utils/ui.js';
 import { logToFile } from '../utils/debug.js';
 import { waitForUserKeyPress } from '../utils/clack-utils.js';
-import { EVENTS_LIST_ENDPOINT } from './constants.js';
+import { getEndpoints } from './endpoints.js';
 import { buildTestFeedbackMessage } from './agent-prompts.js';
+import { checkEvents, formatFailedChecks } from './event-checks.js';
+import { findCheckpoint } from '../utils/checkpoint.js';
+import {
+  auditAiSdkTelemetry,
+  formatTelemetryIssues,
+} from './telemetry-audit.js';
+import { startOtlpReceiver, type OtlpReceiver } from './otlp-receiver.js';
+import { OTLP_TRACES_ENDPOINT_ENV } from './constants.js';
+import { addTestUrl, removeTestUrl } from '../utils/test-url.js';
 import type { WizardOptions } from '../utils/types.js';
 
 const POLL_INTERVAL_MS = 2000;
@@ -14,7 +24,7 @@ const POLL_INTERVAL_MS = 2000;
 /**
  * Event format from the events list API
  */
-interface ApiEvent {
+export interface ApiEvent {
   id: string;
   name?: string;
   timestamp?: string;
@@ -49,15 +59,17 @@ export interface ReceivedEvent {
 /**
  * Fetch events from the API endpoint, filtered by wizard session ID
  */
-async function fetchEvents(
+export async function fetchEvents(
   accessToken: string,
+  orgId: string,
   wizardSessionId: string,
 ): Promise<ApiEvent[]> {
   try {
-    const response = await fetch(EVENTS_LIST_ENDPOINT, {
+    const response = await fetch(getEndpoints().eventsListUrl, {
       headers: {
         Authorization: `Bearer ${accessToken}`,
         'x-wizard-session': wizardSessionId,
+        'x-org-id': orgId,
       },
     });
     if (!response.ok) {
@@ -72,6 +84,25 @@ async function fetchEvents(
   }
 }
 
+/**
+ * Show an event in the history
+ */
+export function showReceivedEvent(event: ApiEvent): void {
+  ui.addItem({
+    type: 'received-event',
+    text: event.name || 'unknown',
+    receivedEvent: {
+      id: event.id,
+      eventName: event.name || 'unknown',
+      timestamp: event.timestamp,
+      model: event.aiData?.model,
+      userId: event.userId,
+      input: event.aiData?.input,
+      output: event.aiData?.output,
+    },
+  });
+}
+
 /**
  * Test the integration by polling the events list endpoint.
  * Returns feedbackPrompt if user wants to retry, otherwise shouldRetry is false.
@@ -79,13 +110,122 @@ async function fetchEvents(
 export async function testIntegration(
   options: WizardOptions,
   accessToken: string,
+  orgId: string,
+): Promise<{ shouldRetry: boolean; feedbackPrompt?: string }> {
+  // Add header to indicate start of testing phase
+  ui.addItem({ type: 'phase', text: '### Testing ###' });
+
+  // Nobody can interact with the app in CI mode - skip manual testing
+  if (options.ci) {
+    ui.addItem({
+      type: 'step',
+      text: 'Skipping interactive testing in CI mode. Run your app and check your Raindrop dashboard to verify events arrive.',
+    });
+    return { shouldRetry: false };
+  }
+
+  // The changes only exist in a temporary copy during a dry run
+  if (options.dryRun) {
+    ui.addItem({
+      type: 'step',
+      text: 'Skipping testing in a dry run. Apply the patch and run your app to verify events arrive.',
+    });
+    return { shouldRetry: false };
+  }
+
+  // Route the SDK to the test ingestion URL while testing
+  const testUrl = options.testUrl ?? getEndpoints().ingestUrl;
+  if (testUrl) {
+    try {
+      const injections = await addTestUrl({
+        sessionId: options.sessionId,
+        installDir: options.installDir,
+        testUrl,
+      });
+      if (injections.length > 0) {
+        ui.addItem({
+          type: 'step',
+          text: `Sending events to ${testUrl} while testing, set in ${injections
+            .map((injection) =>
+              path.relative(options.installDir, injection.file),
+            )
+            .join(', ')}. This is undone when testing ends.`,
+        });
+      }
+    } catch (error) {
+      logToFile('Error adding the test URL:', error);
+      ui.addItem({
+        type: 'warning',
+        text: `Could not point the Raindrop SDK at ${testUrl}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      });
+    }
+  }
+
+  try {
+    return await collectTestResults(options, accessToken, orgId);
+  } finally {
+    if (testUrl) {
+      try {
+        removeTestUrl(options.sessionId);
+      } catch (error) {
+        logToFile('Error removing the test URL:', error);
+      }
+    }
+  }
+}
+
+/**
+ * Show the events that arrive while the user interacts with the app, check
+ * them, and ask whether they look good
+ */
+async function collectTestResults(
+  options: WizardOptions,
+  accessToken: string,
+  orgId: string,
 ): Promise<{ shouldRetry: boolean; feedbackPrompt?: string }> {
   const receivedEvents: ReceivedEvent[] = [];
   const seenEventIds = new Set<string>();
   let isPolling = true;
 
-  // Add header to indicate start of testing phase
-  ui.addItem({ type: 'phase', text: '### Testing ###' });
+  // Traces the project exports to the local receiver are shown like the
+  // events of the backend
+  let otlpReceiver: OtlpReceiver | undefined;
+  if (options.otlpReceiver) {
+    try {
+      otlpReceiver = await startOtlpReceiver({
+        onEvent: (event) => {
+          // A trace exported in several batches replaces its earlier event
+          const received = receivedEvents.find(
+            ({ data }) => data.id === event.id,
+          );
+          if (received) {
+            received.data = event;
+            return;
+          }
+          seenEventIds.add(event.id);
+          receivedEvents.push({
+            url: otlpReceiver?.tracesUrl ?? '',
+            data: event,
+          });
+          showReceivedEvent(event);
+        },
+      });
+      ui.addItem({
+        type: 'step',
+        text: `Receiving traces locally. Run your app with ${OTLP_TRACES_ENDPOINT_ENV}=${otlpReceiver.tracesUrl} to send them here.`,
+      });
+    } catch (error) {
+      logToFile('Error starting the OTLP receiver:', error);
+      ui.addItem({
+        type: 'warning',
+        text: `Could not start the local OTLP receiver: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      });
+    }
+  }
 
   const testSpinner = ui.spinner();
   testSpinner.start(
@@ -97,7 +237,7 @@ export async function testIntegration(
   // Start polling in the background
   void (async () => {
     while (isPolling) {
-      const events = await fetchEvents(accessToken, options.sessionId);
+      const events = await fetchEvents(accessToken, orgId, options.sessionId);
 
       for (const event of events) {
         // Skip events we've already seen
@@ -109,21 +249,12 @@ export async function testIntegration(
           seenEventIds.add(event.id);
         }
 
-        receivedEvents.push({ url: EVENTS_LIST_ENDPOINT, data: event });
-
-        ui.addItem({
-          type: 'received-event',
-          text: event.name || 'unknown',
-          receivedEvent: {
-            id: event.id,
-            eventName: event.name || 'unknown',
-            timestamp: event.timestamp,
-            model: event.aiData?.model,
-            userId: event.userId,
-            input: event.aiData?.input,
-            output: event.aiData?.output,
-          },
+        receivedEvents.push({
+          url: getEndpoints().eventsListUrl,
+          data: event,
         });
+
+        showReceivedEvent(event);
       }
 
       // Wait before next poll
@@ -137,17 +268,60 @@ export async function testIntegration(
   // Stop polling and spinner
   isPolling = false;
   testSpinner.stop();
+  await otlpReceiver
+    ?.close()
+    .catch((error) => logToFile('Error closing the OTLP receiver:', error));
   // Let pollPromise finish in the background - no need to wait
 
   logToFile(`Polling stopped, received ${receivedEvents.length} events`);
 
+  // Check the events against the features the user chose
+  const checkpoint = await findCheckpoint({
+    sessionId: options.sessionId,
+    installDir: options.installDir,
+  });
+  const checks = checkEvents(
+    receivedEvents.map((event) => event.data),
+    checkpoint?.features ?? [],
+  );
+  for (const check of checks) {
+    ui.addItem({
+      type: check.passed ? 'success' : 'warning',
+      text: `${check.name}: ${check.detail}`,
+    });
+  }
+  const failedChecks = formatFailedChecks(checks);
+
+  // Untraced Vercel AI SDK calls only show up in the code
+  let telemetryIssues = '';
+  try {
+    const audit = await auditAiSdkTelemetry(options.installDir);
+    telemetryIssues = formatTelemetryIssues(audit.calls);
+    if (telemetryIssues) {
+      ui.addItem({
+        type: 'warning',
+        text: `Vercel AI SDK calls without full telemetry:\n${telemetryIssues}`,
+      });
+    } else if (audit.calls.length > 0) {
+      ui.addItem({
+        type: 'success',
+        text: `All ${audit.calls.length} Vercel AI SDK calls are instrumented`,
+      });
+    }
+  } catch (error) {
+    logToFile('Error auditing the AI SDK telemetry:', error);
+  }
+
   // Ask if results look good (with inline text input for feedback)
-  const result = await ui.feedbackSelect({
+  const result = await ui.feedbackSelect<'proceed' | 'fix' | 'feedback'>({
     message: 'Do the results look good?',
     options: [
-      { value: true, label: 'Yes, looks good - proceed' },
+      { value: 'proceed', label: 'Yes, looks good - proceed' },
+      ...(failedChecks || telemetryIssues
+        ? [{ value: 'fix' as const, label: 'No, fix the failed checks' }]
+        : []),
       {
-        value: false,
+        value: 'feedback',
         label: 'No, I need to provide feedback',
         allowTextInput: true,
       },
@@ -155,15 +329,20 @@ export async function testIntegration(
   });
 
   // User selected "Yes, looks good"
-  if (result.type === 'option' && result.value === true) {
+  if (result.type === 'option' && result.value === 'proceed') {
     return { shouldRetry: false };
   }
 
-  // User typed feedback
-  const userFeedback = result.value as string;
+  // User typed feedback, or asked to fix the failed checks
+  const userFeedback = result.type === 'text' ? result.value : undefined;
 
   // Build feedback prompt for agent
-  const feedbackPrompt = buildTestFeedbackMessage(receivedEvents, userFeedback);
+  const feedbackPrompt = buildTestFeedbackMessage(
+    receivedEvents,
+    userFeedback,
+    failedChecks || undefined,
+    telemetryIssues || undefined,
+  );
 
   return { shouldRetry: true, feedbackPrompt };
 }
@@ -0,0 +1,312 @@
+/**
+ * Automated verification of an integration (--verify): a smoke test makes
+ * one LLM call through the instrumented code, and the event it produces is
+ * checked for the fields every Raindrop event needs, without anyone having
+ * to interact with the app.
+ */
+
+import { spawn } from 'child_process';
+import ui from '../utils/ui.js';
+import { logToFile } from '../utils/debug.js';
+import {
+  fetchEvents,
+  showReceivedEvent,
+  type ApiEvent,
+} from './test-server.js';
+import {
+  buildSmokeTestPrompt,
+  buildVerificationFeedbackMessage,
+} from './agent-prompts.js';
+import {
+  auditAiSdkTelemetry,
+  formatTelemetryIssues,
+} from './telemetry-audit.js';
+import type { WizardOptions } from '../utils/types.js';
+
+export const DEFAULT_VERIFY_TIMEOUT_SECONDS = 120;
+
+/**
+ * User id the smoke test tracks its event with
+ */
+export const SMOKE_TEST_USER_ID = 'raindrop-wizard-smoke-test';
+
+const POLL_INTERVAL_MS = 2000;
+// Keep the end of long smoke test output, where errors usually are
+const MAX_OUTPUT_LENGTH = 4000;
+
+/**
+ * Fields an event must have for verification to pass
+ */
+export const VERIFIED_FIELDS = ['input', 'output', 'model', 'userId'] as const;
+
+export type VerifiedField = (typeof VERIFIED_FIELDS)[number];
+
+/**
+ * The verified fields an event lacks
+ */
+export function getMissingFields(event: ApiEvent): VerifiedField[] {
+  const values: Record<VerifiedField, unknown> = {
+    input: event.aiData?.input,
+    output: event.aiData?.output,
+    model: event.aiData?.model,
+    userId: event.userId,
+  };
+  return VERIFIED_FIELDS.filter((field) => {
+    const value = values[field];
+    return value === undefined || value === null || value === '';
+  });
+}
+
+/**
+ * Run the smoke test command in the project. The wizard session is passed
+ * as RAINDROP_WIZARD_SESSION.
+ */
+function runSmokeTestCommand(
+  command: string,
+  options: WizardOptions,
+  timeoutMs: number,
+): Promise<{ exitCode: number | null; output: string }> {
+  return new Promise((resolve) => {
+    // In its own process group, so the processes the command starts (e.g.
+    // npm scripts or a dev server) can be stopped with it
+    const detached = process.platform !== 'win32';
+    const child = spawn(command, {
+      cwd: options.installDir,
+      shell: true,
+      detached,
+      env: { ...process.env, RAINDROP_WIZARD_SESSION: options.sessionId },
+    });
+
+    const killCommand = () => {
+      try {
+        if (detached && child.pid) {
+          process.kill(-child.pid, 'SIGTERM');
+        } else {
+          child.kill();
+        }
+      } catch {
+        // Already exited
+      }
+    };
+    // A detached group doesn't get the wizard's Ctrl+C
+    process.once('exit', killCommand);
+
+    let output = '';
+    const append = (chunk: Buffer) => {
+      output = (output + chunk.toString('utf-8')).slice(-MAX_OUTPUT_LENGTH);
+    };
+    child.stdout.on('data', append);
+    child.stderr.on('data', append);
+
+    let settled = false;
+    const finish = (result: { exitCode: number | null; output: string }) => {
+      if (!settled) {
+        settled = true;
+        clearTimeout(timer);
+        process.removeListener('exit', killCommand);
+        resolve(result);
+      }
+    };
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      append(Buffer.from(`\nTimed out after ${timeoutMs / 1000}s`));
+      killCommand();
+    }, timeoutMs);
+
+    child.on('error', (error) => {
+      finish({ exitCode: null, output: `${output}${error.message}` });
+    });
+    child.on('exit', (exitCode) => {
+      // Processes that survived the kill may still hold the output open
+      if (timedOut) {
+        child.stdout.destroy();
+        child.stderr.destroy();
+        finish({ exitCode, output });
+      }
+    });
+    child.on('close', (exitCode) => {
+      finish({ exitCode, output });
+    });
+  });
+}
+
+/**
+ * Poll for new events of the session until one has every verified field or
+ * the timeout passes. Returns the most complete new event, if any arrived.
+ */
+async function waitForEvent(
+  options: WizardOptions,
+  accessToken: string,
+  orgId: string,
+  knownEventIds: Set<string>,
+  timeoutMs: number,
+): Promise<ApiEvent | undefined> {
+  const deadline = Date.now() + timeoutMs;
+  let best: ApiEvent | undefined;
+
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    const events = await fetchEvents(accessToken, orgId, options.sessionId);
+    for (const event of events) {
+      if (knownEventIds.has(event.id)) {
+        continue;
+      }
+      knownEventIds.add(event.id);
+      showReceivedEvent(event);
+
+      if (
+        !best ||
+        getMissingFields(event).length < getMissingFields(best).length
+      ) {
+        best = event;
+      }
+    }
+
+    if (
+      (best && getMissingFields(best).length === 0) ||
+      Date.now() > deadline
+    ) {
+      return best;
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+/**
+ * Verify the integration with a smoke test: the --verify-command, or a
+ * script the agent writes and runs (runAgent resumes the agent with a
+ * prompt). Returns a feedback prompt for the agent when verification fails.
+ */
+export async function verifyIntegration(
+  options: WizardOptions,
+  accessToken: string,
+  orgId: string,
+  runAgent: (prompt: string) => Promise<void>,
+): Promise<{ shouldRetry: boolean; feedbackPrompt?: string }> {
+  ui.addItem({ type: 'phase', text: '### Verification ###' });
+
+  // The changes only exist in a temporary copy during a dry run
+  if (options.dryRun) {
+    ui.addItem({
+      type: 'step',
+      text: 'Skipping verification in a dry run. Apply the patch and run your app to verify events arrive.',
+    });
+    return { shouldRetry: false };
+  }
+
+  // The smoke test exercises one call, the others are checked in the code.
+  // Missing metadata is only a warning: which calls are top-level is a guess.
+  try {
+    const { calls } = await auditAiSdkTelemetry(options.installDir);
+    const untraced = formatTelemetryIssues(
+      calls.filter(
+        (call) => call.telemetry === 'missing' || call.telemetry === 'disabled',
+      ),
+    );
+    const withoutMetadata = formatTelemetryIssues(
+      calls.filter((call) => call.metadata === false),
+    );
+    if (untraced) {
+      const failure = `Telemetry is not enabled on every Vercel AI SDK call:\n${untraced}`;
+      ui.addItem({ type: 'error', text: `Verification failed: ${failure}` });
+      return {
+        shouldRetry: true,
+        feedbackPrompt: buildVerificationFeedbackMessage(failure),
+      };
+    }
+    if (withoutMetadata) {
+      ui.addItem({
+        type: 'warning',
+        text: `Vercel AI SDK calls without Raindrop metadata:\n${withoutMetadata}`,
+      });
+    }
+  } catch (error) {
+    logToFile('Error auditing the AI SDK telemetry:', error);
+  }
+
+  const timeoutMs =
+    (options.verifyTimeout ?? DEFAULT_VERIFY_TIMEOUT_SECONDS) * 1000;
+
+  // Only events sent by this smoke test count
+  const knownEventIds = new Set(
+    (await fetchEvents(accessToken, orgId, options.sessionId)).map(
+      (event) => event.id,
+    ),
+  );
+
+  let smokeTestOutput: string | undefined;
+  if (options.verifyCommand) {
+    const spinner = ui.spinner();
+    spinner.start(`Running the smoke test: ${options.verifyCommand}`);
+    const result = await runSmokeTestCommand(
+      options.verifyCommand,
+      options,
+      timeoutMs,
+    );
+    spinner.stop();
+    logToFile('Smoke test result:', result);
+    smokeTestOutput = result.output.trim() || undefined;
+
+    if (result.exitCode !== 0) {
+      const failure = `The smoke test command \`${
+        options.verifyCommand
+      }\` failed${
+        result.exitCode === null ? '' : ` with exit code ${result.exitCode}`
+      }.`;
+      ui.addItem({ type: 'error', text: `Verification failed: ${failure}` });
+      return {
+        shouldRetry: true,
+        feedbackPrompt: buildVerificationFeedbackMessage(
+          failure,
+          smokeTestOutput,
+        ),
+      };
+    }
+  } else {
+    await runAgent(buildSmokeTestPrompt(options.sessionId, SMOKE_TEST_USER_ID));
+  }
+
+  const spinner = ui.spinner();
+  spinner.start('Waiting for the smoke test event...');
+  const event = await waitForEvent(
+    options,
+    accessToken,
+    orgId,
+    knownEventIds,
+    timeoutMs,
+  );
+  spinner.stop();
+
+  let failure: string | undefined;
+  if (!event) {
+    failure = `No event arrived within ${
+      timeoutMs / 1000
+    }s of the smoke test. Check that the Raindrop SDK is initialized with the write key and the wizard session, and that it flushes its events before the process exits.`;
+  } else {
+    const missing = getMissingFields(event);
+    if (missing.length > 0) {
+      failure = `The event "${
+        event.name || 'unknown'
+      }" is missing ${missing.join(', ')}.`;
+    }
+  }
+
+  if (failure) {
+    ui.addItem({ type: 'error', text: `Verification failed: ${failure}` });
+    return {
+      shouldRetry: true,
+      feedbackPrompt: buildVerificationFeedbackMessage(
+        failure,
+        smokeTestOutput,
+      ),
+    };
+  }
+
+  ui.addItem({
+    type: 'success',
+    text: `Verification passed: the event has ${VERIFIED_FIELDS.join(', ')}.`,
+  });
+  return { shouldRetry: false };
+}
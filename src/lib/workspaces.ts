@@ -0,0 +1,413 @@
+/**
+ * Monorepo / workspace detection.
+ * Enumerates the packages of pnpm, yarn, npm and bun workspaces (optionally
+ * orchestrated by Turborepo or Nx), standalone Nx projects and uv workspaces,
+ * so the wizard can run once per package with the right filter commands.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import fg from 'fast-glob';
+import YAML from 'yaml';
+import { detectAiIntegration } from './config.js';
+import type { Integration } from './constants.js';
+
+export type WorkspacePackageManager = 'pnpm' | 'yarn' | 'npm' | 'bun' | 'uv';
+
+export type WorkspaceTaskRunner = 'turbo' | 'nx';
+
+/**
+ * A package inside a workspace
+ */
+export interface WorkspacePackage {
+  name: string;
+  /** Absolute path of the package directory */
+  dir: string;
+  /** Package directory relative to the workspace root */
+  relativeDir: string;
+  packageManager: WorkspacePackageManager;
+  /** Integration detected from the package's AI SDK usage, if any */
+  integration?: Integration;
+}
+
+/**
+ * A workspace and its packages
+ */
+export interface Workspace {
+  root: string;
+  taskRunner?: WorkspaceTaskRunner;
+  packages: WorkspacePackage[];
+}
+
+/**
+ * The workspace package a wizard run is scoped to
+ */
+export interface WorkspaceTarget {
+  root: string;
+  taskRunner?: WorkspaceTaskRunner;
+  packageName: string;
+  relativeDir: string;
+  packageManager: WorkspacePackageManager;
+}
+
+const IGNORED_GLOBS = [
+  '**/node_modules/**',
+  '**/.venv/**',
+  '**/venv/**',
+  '**/dist/**',
+  '**/build/**',
+];
+
+/**
+ * The fields read from package.json and Nx project.json manifests
+ */
+type Manifest = {
+  name?: unknown;
+  workspaces?: unknown;
+};
+
+async function readManifest(filePath: string): Promise<Manifest | null> {
+  try {
+    return JSON.parse(
+      await fs.promises.readFile(filePath, 'utf-8'),
+    ) as Manifest;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the package globs of a JS workspace, from pnpm-workspace.yaml or the
+ * "workspaces" field of package.json
+ */
+async function getNodeWorkspaceGlobs(root: string): Promise<string[]> {
+  const pnpmWorkspacePath = path.join(root, 'pnpm-workspace.yaml');
+  if (fs.existsSync(pnpmWorkspacePath)) {
+    try {
+      const config = YAML.parse(
+        await fs.promises.readFile(pnpmWorkspacePath, 'utf-8'),
+      ) as { packages?: unknown } | null;
+      if (Array.isArray(config?.packages)) {
+        return config.packages.filter(
+          (glob): glob is string => typeof glob === 'string',
+        );
+      }
+    } catch {
+      // Invalid pnpm-workspace.yaml - fall through to package.json
+    }
+  }
+
+  const packageJson = await readManifest(path.join(root, 'package.json'));
+  const workspaces = packageJson?.workspaces;
+  const globs = Array.isArray(workspaces)
+    ? workspaces
+    : (workspaces as { packages?: unknown } | undefined)?.packages;
+  return Array.isArray(globs)
+    ? globs.filter((glob): glob is string => typeof glob === 'string')
+    : [];
+}
+
+function detectNodePackageManager(root: string): WorkspacePackageManager {
+  if (fs.existsSync(path.join(root, 'pnpm-workspace.yaml'))) {
+    return 'pnpm';
+  }
+  if (
+    fs.existsSync(path.join(root, 'bun.lockb')) ||
+    fs.existsSync(path.join(root, 'bun.lock'))
+  ) {
+    return 'bun';
+  }
+  if (fs.existsSync(path.join(root, 'yarn.lock'))) {
+    return 'yarn';
+  }
+  return 'npm';
+}
+
+/**
+ * Find the directories matching workspace globs that contain a manifest.
+ * Globs starting with "!" exclude directories.
+ */
+async function findPackageDirs(
+  root: string,
+  globs: string[],
+  manifest: string,
+  excludes: string[] = [],
+): Promise<string[]> {
+  const include = globs.filter((glob) => !glob.startsWith('!'));
+  const exclude = [
+    ...globs.filter((glob) => glob.startsWith('!')).map((g) => g.slice(1)),
+    ...excludes,
+  ];
+  const normalize = (glob: string) =>
+    glob.replace(/^\.\//, '').replace(/\/$/, '');
+
+  const manifests = await fg(
+    include.map((glob) => `${normalize(glob)}/${manifest}`),
+    {
+      cwd: root,
+      ignore: [
+        ...IGNORED_GLOBS,
+        ...exclude.map((glob) => `${normalize(glob)}/${manifest}`),
+      ],
+      onlyFiles: true,
+    },
+  );
+  return manifests.map((file) => path.dirname(file)).sort();
+}
+
+async function getNodePackages(root: string): Promise<WorkspacePackage[]> {
+  const globs = await getNodeWorkspaceGlobs(root);
+  if (globs.length === 0) {
+    return [];
+  }
+
+  const packageManager = detectNodePackageManager(root);
+  const dirs = await findPackageDirs(root, globs, 'package.json');
+  const packages: WorkspacePackage[] = [];
+  for (const relativeDir of dirs) {
+    const packageJson = await readManifest(
+      path.join(root, relativeDir, 'package.json'),
+    );
+    packages.push({
+      name:
+        typeof packageJson?.name === 'string'
+          ? packageJson.name
+          : path.basename(relativeDir),
+      dir: path.join(root, relativeDir),
+      relativeDir,
+      packageManager,
+    });
+  }
+  return packages;
+}
+
+/**
+ * Nx projects that are not part of a package manager workspace are
+ * identified by their project.json
+ */
+async function getNxProjects(root: string): Promise<WorkspacePackage[]> {
+  const projectFiles = await fg('**/project.json', {
+    cwd: root,
+    ignore: IGNORED_GLOBS,
+    onlyFiles: true,
+  });
+
+  const packageManager = detectNodePackageManager(root);
+  const packages: WorkspacePackage[] = [];
+  for (const file of projectFiles.sort()) {
+    const relativeDir = path.dirname(file);
+    if (relativeDir === '.') {
+      continue;
+    }
+    const project = await readManifest(path.join(root, file));
+    packages.push({
+      name:
+        typeof project?.name === 'string'
+          ? project.name
+          : path.basename(relativeDir),
+      dir: path.join(root, relativeDir),
+      relativeDir,
+      packageManager,
+    });
+  }
+  return packages;
+}
+
+/**
+ * Get the contents of a TOML table, e.g. [tool.uv.workspace]
+ */
+function getTomlTable(content: string, table: string): string | undefined {
+  const header = new RegExp(
+    `^\\[${table.replace(/\./g, '\\.')}\\]\\s*$`,
+    'm',
+  ).exec(content);
+  if (!header) {
+    return undefined;
+  }
+  const body = content.slice(header.index + header[0].length);
+  const next = /^\[/m.exec(body);
+  return next ? body.slice(0, next.index) : body;
+}
+
+/**
+ * Get the strings of a TOML array value, e.g. members = ["packages/*"]
+ */
+function getTomlStringArray(table: string, key: string): string[] {
+  const match = new RegExp(`^\\s*${key}\\s*=\\s*\\[([\\s\\S]*?)\\]`, 'm').exec(
+    table,
+  );
+  if (!match) {
+    return [];
+  }
+  return [...match[1].matchAll(/["']([^"']+)["']/g)].map((m) => m[1]);
+}
+
+async function getUvPackages(root: string): Promise<WorkspacePackage[]> {
+  let content: string;
+  try {
+    content = await fs.promises.readFile(
+      path.join(root, 'pyproject.toml'),
+      'utf-8',
+    );
+  } catch {
+    return [];
+  }
+
+  const workspaceTable = getTomlTable(content, 'tool.uv.workspace');
+  if (!workspaceTable) {
+    return [];
+  }
+
+  const dirs = await findPackageDirs(
+    root,
+    getTomlStringArray(workspaceTable, 'members'),
+    'pyproject.toml',
+    getTomlStringArray(workspaceTable, 'exclude'),
+  );
+
+  const packages: WorkspacePackage[] = [];
+  for (const relativeDir of dirs) {
+    let name = path.basename(relativeDir);
+    try {
+      const memberContent = await fs.promises.readFile(
+        path.join(root, relativeDir, 'pyproject.toml'),
+        'utf-8',
+      );
+      const projectTable = getTomlTable(memberContent, 'project') ?? '';
+      name = /^\s*name\s*=\s*["']([^"']+)["']/m.exec(projectTable)?.[1] ?? name;
+    } catch {
+      // Use the directory name
+    }
+    packages.push({
+      name,
+      dir: path.join(root, relativeDir),
+      relativeDir,
+      packageManager: 'uv',
+    });
+  }
+  return packages;
+}
+
+/**
+ * Detect a workspace rooted at the install directory and enumerate its
+ * packages, including which integration each package's AI SDK usage maps to.
+ * Returns undefined when the directory is not a workspace root.
+ */
+export async function detectWorkspace(
+  installDir: string,
+): Promise<Workspace | undefined> {
+  const root = path.resolve(installDir);
+
+  const taskRunner: WorkspaceTaskRunner | undefined = fs.existsSync(
+    path.join(root, 'turbo.json'),
+  )
+    ? 'turbo'
+    : fs.existsSync(path.join(root, 'nx.json'))
+    ? 'nx'
+    : undefined;
+
+  let nodePackages = await getNodePackages(root);
+  if (nodePackages.length === 0 && taskRunner === 'nx') {
+    nodePackages = await getNxProjects(root);
+  }
+  const packages = [...nodePackages, ...(await getUvPackages(root))];
+
+  if (packages.length === 0) {
+    return undefined;
+  }
+
+  for (const pkg of packages) {
+    pkg.integration = await detectAiIntegration({ installDir: pkg.dir });
+  }
+
+  return { root, taskRunner, packages };
+}
+
+/**
+ * Scope a workspace package for a wizard run
+ */
+export function getWorkspaceTarget(
+  workspace: Workspace,
+  pkg: WorkspacePackage,
+): WorkspaceTarget {
+  return {
+    root: workspace.root,
+    taskRunner: workspace.taskRunner,
+    packageName: pkg.name,
+    relativeDir: pkg.relativeDir,
+    packageManager: pkg.packageManager,
+  };
+}
+
+/**
+ * Commands that act on a single workspace package, run from the workspace
+ * root: installing a dependency and running a script/task
+ */
+export function getWorkspaceCommands(target: WorkspaceTarget): {
+  install: string;
+  run: string;
+  build?: string;
+} {
+  const { packageName: name, relativeDir } = target;
+
+  const build =
+    target.taskRunner === 'turbo'
+      ? `turbo run build --filter=${name}`
+      : target.taskRunner === 'nx'
+      ? `nx run ${name}:build`
+      : undefined;
+
+  switch (target.packageManager) {
+    case 'pnpm':
+      return {
+        install: `pnpm --filter ${name} add <package>`,
+        run: `pnpm --filter ${name} run <script>`,
+        build,
+      };
+    case 'yarn':
+      return {
+        install: `yarn workspace ${name} add <package>`,
+        run: `yarn workspace ${name} run <script>`,
+        build,
+      };
+    case 'bun':
+      return {
+        install: `cd ${relativeDir} && bun add <package>`,
+        run: `bun --filter ${name} run <script>`,
+        build,
+      };
+    case 'uv':
+      return {
+        install: `uv add --package ${name} <package>`,
+        run: `uv run --package ${name} <command>`,
+        build,
+      };
+    case 'npm':
+    default:
+      return {
+        install: `npm install <package> --workspace ${relativeDir}`,
+        run: `npm run <script> --workspace ${relativeDir}`,
+        build,
+      };
+  }
+}
+
+/**
+ * Describe the workspace context for the agent prompt and setup details
+ */
+export function formatWorkspaceInfo(target: WorkspaceTarget): string {
+  const commands = getWorkspaceCommands(target);
+  const tool = target.taskRunner
+    ? `${target.packageManager} workspace with ${
+        target.taskRunner === 'turbo' ? 'Turborepo' : 'Nx'
+      }`
+    : `${target.packageManager} workspace`;
+
+  return [
+    `- This project is the package \`${target.packageName}\` (${target.relativeDir}) in a ${tool} rooted at ${target.root}`,
+    `- Only change files inside this package, except for workspace-level config the package needs`,
+    `- Install dependencies from the workspace root: \`${commands.install}\``,
+    `- Run scripts from the workspace root: \`${commands.run}\``,
+    ...(commands.build ? [`- Build the package: \`${commands.build}\``] : []),
+  ].join('\n');
+}
@@ -9,19 +9,44 @@ import type {
   OtelPlatform,
   OtelProvider,
 } from './utils/types.js';
+import type { LoginMethod } from './utils/oauth.js';
 
-import { getIntegrationDescription, Integration } from './lib/constants.js';
+import {
+  ExitCode,
+  getIntegrationDescription,
+  Integration,
+  type LlmProvider,
+} from './lib/constants.js';
 import { readEnvironment } from './utils/environment.js';
-import ui from './utils/ui.js';
+import { loadAnswersFile, selectWithAnswer } from './utils/answers.js';
+import { createDryRunWorkspace, emitDryRunPatch } from './lib/dry-run.js';
+import ui, { updateHeadlessPolicy } from './utils/ui.js';
 import path from 'path';
 import {
+  detectIntegrations,
+  getPreselectedIntegrations,
   INTEGRATION_CONFIG,
-  INTEGRATION_ORDER,
   type SetupDetail,
 } from './lib/config.js';
+import {
+  detectWorkspace,
+  formatWorkspaceInfo,
+  getWorkspaceTarget,
+  type Workspace,
+  type WorkspacePackage,
+} from './lib/workspaces.js';
 import { runPythonWizard } from './python/python-wizard.js';
 import { runTypescriptWizard } from './typescript/typescript-wizard.js';
 import { runVercelAiSdkWizard } from './vercelAiSdk/vercelAiSdk-wizard.js';
+import { finishCombinedRun, type CombinedRun } from './lib/agent-runner.js';
+import {
+  createCheckpoint,
+  updateCheckpoint,
+  type Checkpoint,
+  type CheckpointChoices,
+} from './utils/checkpoint.js';
+import { logToFile } from './utils/debug.js';
+import { removeLeftoverTestUrls } from './utils/test-url.js';
 import { EventEmitter } from 'events';
 import { randomUUID } from 'crypto';
 import Chalk from 'chalk';
@@ -46,11 +71,51 @@ type Args = {
   forceInstall?: boolean;
   installDir?: string;
   default?: boolean;
+  ci?: boolean;
+  answers?: string;
+  dryRun?: boolean;
+  output?: string;
+  loginMethod?: LoginMethod | 'auto';
+  org?: string;
+  apiKey?: string;
+  accessToken?: string;
+  llmProvider?: LlmProvider;
+  model?: string;
+  verify?: boolean;
+  verifyCommand?: string;
+  verifyTimeout?: number;
+  otlpReceiver?: boolean;
+  testUrl?: string;
 };
 
+/**
+ * Automated verification options; a smoke test command implies --verify
+ */
+function verifyOptions(
+  argv: Pick<Args, 'verify' | 'verifyCommand' | 'verifyTimeout'>,
+): Pick<WizardOptions, 'verify' | 'verifyCommand' | 'verifyTimeout'> {
+  return {
+    verify: Boolean(argv.verify || argv.verifyCommand),
+    verifyCommand: argv.verifyCommand,
+    verifyTimeout: argv.verifyTimeout,
+  };
+}
+
+/**
+ * Checkpoint setup choices so a resumed session doesn't ask them again
+ */
+async function recordChoices(
+  options: WizardOptions,
+  choices: CheckpointChoices,
+): Promise<void> {
+  await updateCheckpoint(options.sessionId, (checkpoint) => {
+    checkpoint.choices = { ...checkpoint.choices, ...choices };
+  }).catch((error) => logToFile('Failed to checkpoint choices:', error));
+}
+
 async function handleTypescriptSetup(wizardOptions: WizardOptions) {
   const otelProvider = await abortIfCancelled(
-    ui.select<OtelProvider>({
+    selectWithAnswer<OtelProvider>(wizardOptions.answers, 'otelProvider', {
       message: 'Are you using Sentry, or another OTEL provider?',
       options: [
         {
@@ -71,31 +136,37 @@ async function handleTypescriptSetup(wizardOptions: WizardOptions) {
       ],
     }),
   );
+  await recordChoices(wizardOptions, { otelProvider });
   await runTypescriptWizard({ ...wizardOptions, otelProvider });
 }
 
 async function handleVercelAiSdkSetup(wizardOptions: WizardOptions) {
   const choice = await abortIfCancelled(
-    ui.select({
-      message: 'Which setup would you like?',
-      options: [
-        {
-          value: 'otel',
-          label: 'Auto tracking via OpenTelemetry',
-          hint: 'no attachments, no custom properties',
-        },
-        {
-          value: 'typescript',
-          label: 'Custom setup with the Raindrop Typescript SDK',
-          hint: 'attachments, custom properties',
-        },
-      ],
-    }),
+    selectWithAnswer<'otel' | 'typescript'>(
+      wizardOptions.answers,
+      'vercelAiSdkSetup',
+      {
+        message: 'Which setup would you like?',
+        options: [
+          {
+            value: 'otel',
+            label: 'Auto tracking via OpenTelemetry',
+            hint: 'no attachments, no custom properties',
+          },
+          {
+            value: 'typescript',
+            label: 'Custom setup with the Raindrop Typescript SDK',
+            hint: 'attachments, custom properties',
+          },
+        ],
+      },
+    ),
   );
+  await recordChoices(wizardOptions, { vercelAiSdkSetup: choice });
 
   if (choice === 'otel') {
     const otelPlatform = await abortIfCancelled(
-      ui.select<OtelPlatform>({
+      selectWithAnswer<OtelPlatform>(wizardOptions.answers, 'otelPlatform', {
         message: 'How do you want OpenTelemetry setup?',
         options: [
           { value: 'next', label: 'Next.js' },
@@ -105,13 +176,79 @@ async function handleVercelAiSdkSetup(wizardOptions: WizardOptions) {
         ],
       }),
     );
+    await recordChoices(wizardOptions, { otelPlatform });
     await runVercelAiSdkWizard({ ...wizardOptions, otelPlatform });
   } else {
     await handleTypescriptSetup(wizardOptions);
   }
 }
 
-export async function runWizard(argv: Args) {
+/**
+ * Continue an interrupted wizard session from its checkpoint: the chosen
+ * integrations and setup choices are replayed, and each agent resumes its
+ * SDK session (or the testing phase starts if the agent had completed).
+ */
+export async function resumeWizard(
+  checkpoint: Checkpoint,
+  argv: Pick<
+    Args,
+    | 'debug'
+    | 'default'
+    | 'ci'
+    | 'loginMethod'
+    | 'org'
+    | 'apiKey'
+    | 'accessToken'
+    | 'llmProvider'
+    | 'model'
+    | 'verify'
+    | 'verifyCommand'
+    | 'verifyTimeout'
+    | 'otlpReceiver'
+    | 'testUrl'
+  >,
+) {
+  const wizardOptions: WizardOptions = {
+    debug: argv.debug ?? false,
+    forceInstall: false,
+    installDir: checkpoint.installDir,
+    default: argv.default ?? false,
+    ci: argv.ci ?? false,
+    dryRun: false,
+    loginMethod: argv.loginMethod,
+    org: argv.org,
+    apiKey: argv.apiKey,
+    accessToken: argv.accessToken,
+    llmProvider: argv.llmProvider,
+    model: argv.model,
+    ...verifyOptions(argv),
+    otlpReceiver: argv.otlpReceiver,
+    testUrl: argv.testUrl,
+    answers: { ...checkpoint.choices },
+    sessionId: checkpoint.sessionId,
+    compiledSetup: '', // Will be set after collecting setup details
+    workspace: checkpoint.workspace,
+    checkpoint,
+  };
+
+  ui.addItem({
+    type: 'phase',
+    text: '### Setup ###',
+  });
+
+  ui.addItem({
+    type: 'response',
+    text: `Resuming wizard session ${checkpoint.sessionId} from the ${checkpoint.phase} phase.`,
+  });
+
+  await runIntegration(wizardOptions, checkpoint.integrations);
+}
+
+/**
+ * Run the wizard. Resolves with the dry-run patch when it should be printed
+ * to stdout, which the caller does once the UI has unmounted.
+ */
+export async function runWizard(argv: Args): Promise<string | undefined> {
   const finalArgs = {
     ...argv,
     ...readEnvironment(),
@@ -128,11 +265,35 @@ export async function runWizard(argv: Args) {
     resolvedInstallDir = process.cwd();
   }
 
-  let wizardOptions: WizardOptions = {
+  const answers = finalArgs.answers
+    ? await loadAnswersFile(path.resolve(process.cwd(), finalArgs.answers))
+    : undefined;
+
+  // In a dry run the agent works on a temporary copy of the project
+  const dryRunWorkspace = finalArgs.dryRun
+    ? await createDryRunWorkspace(resolvedInstallDir)
+    : undefined;
+  if (dryRunWorkspace) {
+    updateHeadlessPolicy({ installDir: dryRunWorkspace.workspaceDir });
+  }
+
+  const wizardOptions: WizardOptions = {
     debug: finalArgs.debug ?? false,
     forceInstall: finalArgs.forceInstall ?? false,
-    installDir: resolvedInstallDir,
+    installDir: dryRunWorkspace?.workspaceDir ?? resolvedInstallDir,
     default: finalArgs.default ?? false,
+    ci: finalArgs.ci ?? false,
+    dryRun: Boolean(dryRunWorkspace),
+    loginMethod: finalArgs.loginMethod,
+    org: finalArgs.org,
+    apiKey: finalArgs.apiKey,
+    accessToken: finalArgs.accessToken,
+    llmProvider: finalArgs.llmProvider,
+    model: finalArgs.model,
+    ...verifyOptions(finalArgs),
+    otlpReceiver: finalArgs.otlpReceiver,
+    testUrl: finalArgs.testUrl,
+    answers,
     sessionId: randomUUID(),
     compiledSetup: '', // Will be set after collecting setup details
   };
@@ -155,28 +316,193 @@ export async function runWizard(argv: Args) {
     );
   }
 
-  const integration =
-    finalArgs.integration ?? (await getIntegrationForSetup(wizardOptions));
+  const workspace = await detectWorkspace(wizardOptions.installDir);
+  const packages = workspace
+    ? await selectWorkspacePackages(workspace, wizardOptions)
+    : undefined;
+
+  if (workspace && packages) {
+    for (const pkg of packages) {
+      ui.addItem({ type: 'phase', text: `### ${pkg.name} ###` });
+      await runIntegration(
+        {
+          ...wizardOptions,
+          installDir: pkg.dir,
+          workspace: getWorkspaceTarget(workspace, pkg),
+          // Each package is its own session, so it can be undone on its own
+          sessionId: randomUUID(),
+        },
+        toIntegrations(finalArgs.integration ?? pkg.integration),
+      );
+    }
+  } else {
+    await runIntegration(wizardOptions, toIntegrations(finalArgs.integration));
+  }
 
-  const setupDetails = await INTEGRATION_CONFIG[
-    integration
-  ].collectSetupDetails(wizardOptions.installDir);
-  const compiledSetup = compileSetupDetails(setupDetails);
-  wizardOptions = { ...wizardOptions, compiledSetup };
+  if (dryRunWorkspace) {
+    return emitDryRunPatch(
+      dryRunWorkspace,
+      finalArgs.output
+        ? path.resolve(process.cwd(), finalArgs.output)
+        : undefined,
+    );
+  }
+  return undefined;
+}
+
+/**
+ * Ask which packages of a monorepo to set up. Packages that use an AI SDK
+ * are preselected.
+ */
+async function selectWorkspacePackages(
+  workspace: Workspace,
+  options: Pick<WizardOptions, 'answers' | 'ci'>,
+): Promise<WorkspacePackage[]> {
+  const detected = workspace.packages.filter((pkg) => pkg.integration);
 
+  ui.addItem({
+    type: 'response',
+    text: `I found a monorepo with ${workspace.packages.length} packages${
+      detected.length > 0 ? `, ${detected.length} of which use an AI SDK` : ''
+    }.`,
+  });
+
+  // Packages from the answers file skip the prompt
+  if (options.answers?.workspacePackages) {
+    const names = options.answers.workspacePackages;
+    const selected = workspace.packages.filter(
+      (pkg) => names.includes(pkg.name) || names.includes(pkg.relativeDir),
+    );
+    ui.addItem({
+      type: 'select-result',
+      text: 'Which packages should I set up Raindrop in?',
+      label: `${
+        selected.map((pkg) => pkg.name).join(', ') || '(none)'
+      } (from answers file)`,
+    });
+    return abortIfNoneSelected(selected, 'packages', options);
+  }
+
+  const selected = await abortIfCancelled(
+    ui.multiSelect<string>({
+      message: 'Which packages should I set up Raindrop in?',
+      options: workspace.packages.map((pkg) => ({
+        value: pkg.dir,
+        label: `${pkg.name} (${pkg.relativeDir})`,
+        hint: pkg.integration
+          ? getIntegrationDescription(pkg.integration)
+          : 'no AI SDK detected',
+      })),
+      initialValues: detected.map((pkg) => pkg.dir),
+    }),
+  );
+
+  return abortIfNoneSelected(
+    workspace.packages.filter((pkg) => selected.includes(pkg.dir)),
+    'packages',
+    options,
+  );
+}
+
+/**
+ * Treat an empty multi-select as a cancel. In CI mode nobody made the choice,
+ * so the run fails instead of ending as if it had succeeded.
+ */
+function abortIfNoneSelected<T>(
+  selected: T[],
+  what: string,
+  options: Pick<WizardOptions, 'ci'>,
+): T[] {
+  if (selected.length === 0) {
+    abort(
+      `No ${what} selected, so there is nothing to set up.`,
+      options.ci ? ExitCode.failure : ExitCode.success,
+    );
+  }
+  return selected;
+}
+
+function toIntegrations(integration?: Integration): Integration[] | undefined {
+  return integration ? [integration] : undefined;
+}
+
+/**
+ * Collect setup details and run the integration wizards for one project
+ * (or one workspace package). Several integrations share a session and are
+ * tested together at the end.
+ */
+async function runIntegration(
+  options: WizardOptions,
+  preselectedIntegrations?: Integration[],
+) {
+  // A wizard killed during testing may have left its test URL behind
+  await removeLeftoverTestUrls().catch((error) =>
+    logToFile('Failed to remove leftover test URLs:', error),
+  );
+
+  const integrations =
+    preselectedIntegrations ?? (await getIntegrationsForSetup(options));
+
+  // The temporary copy of a dry run can't be resumed
+  if (!options.dryRun) {
+    await createCheckpoint({
+      sessionId: options.sessionId,
+      installDir: options.installDir,
+      integrations,
+      workspace: options.workspace,
+    }).catch((error) => logToFile('Failed to create a checkpoint:', error));
+  }
+
+  // Integrations with the same kind of project share setup details
+  const setupDetails = new Map<string, SetupDetail>();
+  for (const integration of integrations) {
+    for (const detail of await INTEGRATION_CONFIG[
+      integration
+    ].collectSetupDetails(options.installDir)) {
+      setupDetails.set(detail.filename, detail);
+    }
+  }
+  if (options.workspace) {
+    setupDetails.set('workspace', {
+      filename: 'workspace',
+      content: formatWorkspaceInfo(options.workspace),
+    });
+  }
+  const combinedRun: CombinedRun | undefined =
+    integrations.length > 1 ? { runs: [] } : undefined;
+  const wizardOptions = {
+    ...options,
+    compiledSetup: compileSetupDetails([...setupDetails.values()]),
+    combinedRun,
+  };
+
+  let integration = integrations[0];
   try {
-    switch (integration) {
-      case Integration.python:
-        await runPythonWizard(wizardOptions);
-        break;
-      case Integration.typescript:
-        await handleTypescriptSetup(wizardOptions);
-        break;
-      case Integration.vercelAiSdk:
-        await handleVercelAiSdkSetup(wizardOptions);
-        break;
-      default:
-        ui.addItem({ type: 'error', text: 'No setup wizard selected!' });
+    for (integration of integrations) {
+      if (combinedRun) {
+        ui.addItem({
+          type: 'phase',
+          text: `### ${getIntegrationDescription(integration)} ###`,
+        });
+      }
+
+      switch (integration) {
+        case Integration.python:
+          await runPythonWizard(wizardOptions);
+          break;
+        case Integration.typescript:
+          await handleTypescriptSetup(wizardOptions);
+          break;
+        case Integration.vercelAiSdk:
+          await handleVercelAiSdkSetup(wizardOptions);
+          break;
+        default:
+          ui.addItem({ type: 'error', text: 'No setup wizard selected!' });
+      }
+    }
+
+    if (combinedRun) {
+      await finishCombinedRun(combinedRun);
     }
   } catch (error) {
     const docsUrl =
@@ -193,32 +519,57 @@ export async function runWizard(argv: Args) {
   }
 }
 
-async function detectIntegration(
-  options: Pick<WizardOptions, 'installDir'>,
-): Promise<Integration | undefined> {
-  // Search in priority order defined in INTEGRATION_ORDER
-  const integrationConfigs = Object.entries(INTEGRATION_CONFIG).sort(
-    ([a], [b]) =>
-      INTEGRATION_ORDER.indexOf(a as Integration) -
-      INTEGRATION_ORDER.indexOf(b as Integration),
-  );
+/**
+ * Pick the integrations to set up. When a project matches several
+ * integrations (e.g. a Python backend and a Vercel AI SDK frontend), the
+ * user can select more than one.
+ */
+async function getIntegrationsForSetup(
+  options: Pick<WizardOptions, 'installDir' | 'answers' | 'ci'>,
+): Promise<Integration[]> {
+  if (options.answers?.integrations) {
+    ui.addItem({
+      type: 'select-result',
+      text: 'Which integrations should I set up?',
+      label: `${options.answers.integrations
+        .map((integration) => getIntegrationDescription(integration))
+        .join(', ')} (from answers file)`,
+    });
+    return options.answers.integrations;
+  }
 
-  for (const [integration, config] of integrationConfigs) {
-    const detected = await config.detect(options);
-    if (detected) {
-      return integration as Integration;
-    }
+  // An integration from the answers file skips detection entirely
+  const detected = options.answers?.integration
+    ? []
+    : await detectIntegrations(options);
+
+  if (detected.length < 2) {
+    return [await getIntegrationForSetup(options, detected[0]?.integration)];
   }
+
+  const selected = await abortIfCancelled(
+    ui.multiSelect<Integration>({
+      message:
+        'I detected several AI SDKs in your project. Which should I set up?',
+      options: detected.map(({ integration, confidence }) => ({
+        value: integration,
+        label: getIntegrationDescription(integration),
+        hint: `${Math.round(confidence * 100)}% confidence`,
+      })),
+      initialValues: getPreselectedIntegrations(detected),
+    }),
+  );
+
+  return abortIfNoneSelected(selected, 'integrations', options);
 }
 
 async function getIntegrationForSetup(
-  options: Pick<WizardOptions, 'installDir'>,
+  options: Pick<WizardOptions, 'installDir' | 'answers'>,
+  detectedIntegration?: Integration,
 ) {
-  const detectedIntegration = await detectIntegration(options);
-
   if (detectedIntegration) {
     const isCorrect = await abortIfCancelled(
-      ui.select<boolean>({
+      selectWithAnswer<boolean>(options.answers, 'confirmDetectedIntegration', {
         message: `I detected your AI app uses ${chalk.bgCyan.black(
           getIntegrationDescription(detectedIntegration),
         )} for its AI logic. Is this correct?`,
@@ -235,7 +586,7 @@ async function getIntegrationForSetup(
   }
 
   const integration: Integration = await abortIfCancelled(
-    ui.select({
+    selectWithAnswer(options.answers, 'integration', {
       message: 'What does your AI app use for its AI logic?',
       options: [
         {
@@ -0,0 +1,150 @@
+/**
+ * Multi-select prompt component for the unified Ink app.
+ * Space or Enter toggles an option; Enter on "Submit" resolves the prompt.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { useWizardActions } from '../contexts/WizardContext.js';
+import { CANCEL_SYMBOL } from '../cancellation.js';
+import { PromptContainer } from './PromptContainer.js';
+import type { MultiSelectOptions } from '../types.js';
+
+interface MultiSelectPromptProps {
+  options: MultiSelectOptions<unknown>;
+}
+
+/**
+ * Multi-select prompt that integrates with the wizard context
+ */
+export function MultiSelectPrompt({
+  options,
+}: MultiSelectPromptProps): React.ReactElement {
+  const { resolvePending, addItem } = useWizardActions();
+  const required = options.required ?? true;
+
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+  const [checked, setChecked] = useState<Set<number>>(
+    () =>
+      new Set(
+        options.options
+          .map((opt, index) =>
+            options.initialValues?.includes(opt.value) ? index : -1,
+          )
+          .filter((index) => index >= 0),
+      ),
+  );
+
+  // The last row is the submit action
+  const submitIndex = options.options.length;
+  const canSubmit = !required || checked.size > 0;
+
+  const selectedLabels = useMemo(
+    () =>
+      options.options
+        .filter((_, index) => checked.has(index))
+        .map((opt) => opt.label),
+    [options.options, checked],
+  );
+
+  const toggle = (index: number) => {
+    setChecked((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const submit = () => {
+    if (!canSubmit) return;
+    addItem({
+      type: 'select-result',
+      text: options.message,
+      label: selectedLabels.length > 0 ? selectedLabels.join(', ') : '(none)',
+    });
+    resolvePending(
+      options.options
+        .filter((_, index) => checked.has(index))
+        .map((opt) => opt.value),
+    );
+  };
+
+  useInput((input, key) => {
+    // Handle Ctrl+C cancellation
+    if (key.ctrl && input === 'c') {
+      addItem({
+        type: 'select-result',
+        text: options.message,
+        label: '(cancelled)',
+      });
+      resolvePending(CANCEL_SYMBOL);
+      return;
+    }
+
+    if (key.upArrow) {
+      setHighlightedIndex((idx) => Math.max(0, idx - 1));
+      return;
+    }
+    if (key.downArrow) {
+      setHighlightedIndex((idx) => Math.min(submitIndex, idx + 1));
+      return;
+    }
+
+    if (input === ' ' && highlightedIndex < submitIndex) {
+      toggle(highlightedIndex);
+      return;
+    }
+
+    if (key.return) {
+      if (highlightedIndex === submitIndex) {
+        submit();
+      } else {
+        toggle(highlightedIndex);
+      }
+    }
+  });
+
+  return (
+    <PromptContainer>
+      <Text>{options.message}</Text>
+      <Box marginTop={1} flexDirection="column">
+        {options.options.map((opt, index) => {
+          const isHighlighted = index === highlightedIndex;
+          return (
+            <Box key={index} flexDirection="column">
+              <Text color={isHighlighted ? 'cyan' : undefined}>
+                {isHighlighted ? '› ' : '  '}
+                {checked.has(index) ? '[✓] ' : '[ ] '}
+                {opt.label}
+              </Text>
+              {opt.hint && <Text dimColor> {opt.hint}</Text>}
+            </Box>
+          );
+        })}
+        <Box>
+          <Text
+            color={
+              highlightedIndex === submitIndex
+                ? 'cyan'
+                : !canSubmit
+                ? 'gray'
+                : undefined
+            }
+          >
+            {highlightedIndex === submitIndex ? '› ' : '  '}
+            Submit
+          </Text>
+        </Box>
+      </Box>
+      <Box marginTop={1}>
+        <Text dimColor>Space to toggle · Enter on Submit to confirm</Text>
+      </Box>
+    </PromptContainer>
+  );
+}
+
+export default MultiSelectPrompt;
@@ -10,6 +10,7 @@ import React from 'react';
 import { Box, Text } from 'ink';
 import type { PendingItem } from '../contexts/WizardContext.js';
 import { SelectPrompt } from './SelectPrompt.js';
+import { MultiSelectPrompt } from './MultiSelectPrompt.js';
 import { SpinnerDisplay } from './SpinnerDisplay.js';
 import { PersistentTextInput } from './PersistentTextInput.js';
 import { ToolApprovalPrompt } from './ToolApprovalPrompt.js';
@@ -18,6 +19,7 @@ import { PlanApprovalPrompt } from './PlanApprovalPrompt.js';
 import { FeedbackSelectPrompt } from './FeedbackSelectPrompt.js';
 import type {
   SelectOptions,
+  MultiSelectOptions,
   TextOptions,
   PersistentInputProps,
   ToolApprovalProps,
@@ -41,6 +43,13 @@ export function PendingPrompt({
     case 'select':
       return <SelectPrompt options={item.props as SelectOptions<unknown>} />;
 
+    case 'multi-select':
+      return (
+        <MultiSelectPrompt
+          options={item.props as MultiSelectOptions<unknown>}
+        />
+      );
+
     case 'text': {
       // Use PersistentTextInput for text prompts (spinner is managed separately)
       const textOptions = item.props as TextOptions;
@@ -29,7 +29,7 @@ interface SelectItem {
 export function ToolApprovalPrompt({
   props,
 }: ToolApprovalPromptComponentProps): React.ReactElement {
-  const { toolName, input, diffContent, fileName, description } = props;
+  const { toolName, input, diffContent, fileName, description, reason } = props;
   const { resolvePending } = useWizardActions();
 
   const [showFeedback, setShowFeedback] = useState(false);
@@ -159,6 +159,14 @@ export function ToolApprovalPrompt({
           <Text dimColor>{description}</Text>
         </Box>
       )}
+      {reason && (
+        <Box marginBottom={1}>
+          <Text>
+            <Text bold>Needs approval: </Text>
+            <Text color="yellow">{reason}</Text>
+          </Text>
+        </Box>
+      )}
 
       {/* Tool details */}
       <Box marginBottom={1} flexDirection="column">
@@ -14,6 +14,7 @@ import React, {
 } from 'react';
 import type {
   SelectOptions,
+  MultiSelectOptions,
   TextOptions,
   SpinnerInstance,
   ToolApprovalProps,
@@ -101,6 +102,7 @@ export type HistoryItemInput = Omit<HistoryItem, 'id'>;
  */
 export type PendingItemType =
   | 'select'
+  | 'multi-select'
   | 'text'
   | 'spinner'
   | 'tool-approval'
@@ -121,6 +123,7 @@ export interface SpinnerProps {
  */
 export type PendingItemProps =
   | SelectOptions<unknown>
+  | MultiSelectOptions<unknown>
   | TextOptions
   | SpinnerProps
   | ToolApprovalProps
@@ -182,6 +185,9 @@ export interface WizardActions {
   /** Display a select prompt and return the selected value */
   select: <T>(options: SelectOptions<T>) => Promise<T | symbol>;
 
+  /** Display a multi-select prompt and return the checked values */
+  multiSelect: <T>(options: MultiSelectOptions<T>) => Promise<T[] | symbol>;
+
   /** Display a text input prompt and return the entered value */
   text: (options: TextOptions) => Promise<string | symbol>;
 
@@ -393,6 +399,23 @@ export function WizardProvider({
     [],
   );
 
+  // Show multi-select prompt - adds to queue
+  const multiSelect = useCallback(
+    <T,>(options: MultiSelectOptions<T>): Promise<T[] | symbol> => {
+      return new Promise((resolve) => {
+        setPendingQueue((queue) => [
+          ...queue,
+          {
+            type: 'multi-select',
+            props: options as MultiSelectOptions<unknown>,
+            resolve: resolve as (value: unknown) => void,
+          },
+        ]);
+      });
+    },
+    [],
+  );
+
   // Show text prompt - adds to queue
   const text = useCallback((options: TextOptions): Promise<string | symbol> => {
     return new Promise((resolve) => {
@@ -551,6 +574,7 @@ export function WizardProvider({
     () => ({
       addItem,
       select,
+      multiSelect,
       text,
       spinner,
       resolvePending,
@@ -566,6 +590,7 @@ export function WizardProvider({
     [
       addItem,
       select,
+      multiSelect,
       text,
       spinner,
       resolvePending,
@@ -0,0 +1,320 @@
+/**
+ * Headless implementation of the wizard actions for CI mode.
+ * Replaces every Ink prompt with a policy-driven responder and streams
+ * plain-text progress to stdout instead of rendering the Ink app.
+ */
+
+import path from 'path';
+import { l } from '../utils/logging.js';
+import { FILE_MODIFYING_TOOLS } from '../lib/constants.js';
+import { CANCEL_SYMBOL } from './cancellation.js';
+import type {
+  WizardActions,
+  HistoryItemInput,
+} from './contexts/WizardContext.js';
+import type {
+  SelectOptions,
+  MultiSelectOptions,
+  TextOptions,
+  SpinnerInstance,
+  ToolApprovalProps,
+  ToolApprovalResult,
+  ClarifyingQuestion,
+  ClarifyingQuestionsProps,
+  ClarifyingQuestionsResult,
+  PlanApprovalProps,
+  PlanApprovalResult,
+  FeedbackSelectOptions,
+  FeedbackSelectResult,
+} from './types.js';
+
+/**
+ * How tool approval requests are answered when nobody is at the terminal.
+ * - allow-edits: allow file edits inside the install directory, deny everything else
+ * - allow-all: allow every tool that was not auto-approved
+ * - deny: deny every tool that was not auto-approved
+ */
+export type HeadlessToolPolicy = 'allow-edits' | 'allow-all' | 'deny';
+
+export const HEADLESS_TOOL_POLICIES: HeadlessToolPolicy[] = [
+  'allow-edits',
+  'allow-all',
+  'deny',
+];
+
+/**
+ * Policy used by the headless responder
+ */
+export interface HeadlessPolicy {
+  toolPolicy: HeadlessToolPolicy;
+  /** Directory the agent is allowed to edit under the allow-edits policy */
+  installDir: string;
+}
+
+/**
+ * Format a history item as plain text. Returns null for items that have no
+ * meaningful plain-text representation.
+ */
+export function formatHistoryItem(item: HistoryItemInput): string | null {
+  switch (item.type) {
+    case 'logo':
+      return 'Raindrop Wizard 💧';
+    case 'phase':
+      return `\n${item.text}`;
+    case 'error':
+    case 'cancel':
+      return `✖ ${item.text}`;
+    case 'warning':
+      return `⚠ ${item.text}`;
+    case 'success':
+    case 'spinner-result':
+      return `✓ ${item.text}`;
+    case 'outro':
+      return `└─ ${item.text}`;
+    case 'note':
+      return item.title ? `${item.title}\n${item.text}` : item.text;
+    case 'select-result':
+    case 'text-result':
+      return item.label
+        ? `› ${item.text}\n  └─ ${item.label}`
+        : `› ${item.text}`;
+    case 'tool-call': {
+      const toolCall = item.toolCall;
+      if (!toolCall) {
+        return `● ${item.text}`;
+      }
+      const target =
+        toolCall.fileName ??
+        (typeof toolCall.input?.command === 'string'
+          ? toolCall.input.command
+          : toolCall.description);
+      const summary = toolCall.error ?? toolCall.result;
+      return `● ${toolCall.toolName}${target ? ` ${target}` : ''} [${
+        toolCall.status
+      }]${summary ? ` - ${summary}` : ''}`;
+    }
+    case 'agent-message':
+      return `◆ ${item.text}`;
+    case 'user-message':
+      return `› ${item.text}`;
+    case 'clarifying-questions-result':
+      return [
+        `● ${item.text}`,
+        ...(item.questionsAndAnswers ?? []).map(
+          (qa) => `  · ${qa.question} → ${qa.answer}`,
+        ),
+      ].join('\n');
+    case 'received-event': {
+      const event = item.receivedEvent;
+      if (!event) {
+        return `◆ ${item.text}`;
+      }
+      return `◆ ${event.eventName} (id: ${event.id}, model: ${
+        event.model ?? 'N/A'
+      }, user: ${event.userId ?? 'N/A'})`;
+    }
+    case 'plan-approved':
+      return item.planContent
+        ? `● ${item.text}\n${item.planContent}`
+        : `● ${item.text}`;
+    case 'plan-rejected':
+      return item.label ? `✖ ${item.text}: ${item.label}` : `✖ ${item.text}`;
+    default:
+      return item.text || null;
+  }
+}
+
+/**
+ * Pick the answer for a clarifying question: every option for multi-select
+ * questions, otherwise the recommended option (or the first one).
+ */
+function pickQuestionAnswer(question: ClarifyingQuestion): string {
+  if (question.multiSelect) {
+    return question.options.map((option) => option.label).join(', ');
+  }
+  const recommended = question.options.find((option) =>
+    /recommended/i.test(option.label),
+  );
+  return (recommended ?? question.options[0])?.label ?? '';
+}
+
+/**
+ * Check whether a file path resolves inside the given directory
+ */
+function isInsideDirectory(filePath: string, directory: string): boolean {
+  const relative = path.relative(directory, path.resolve(directory, filePath));
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * Answer a tool approval request according to the headless tool policy
+ */
+function decideToolApproval(
+  props: ToolApprovalProps,
+  policy: HeadlessPolicy,
+): ToolApprovalResult {
+  const { toolName, input, fileName } = props;
+
+  if (policy.toolPolicy === 'allow-all') {
+    return { behavior: 'allow', updatedInput: input };
+  }
+
+  if (
+    policy.toolPolicy === 'allow-edits' &&
+    FILE_MODIFYING_TOOLS.has(toolName) &&
+    fileName &&
+    isInsideDirectory(fileName, policy.installDir)
+  ) {
+    return { behavior: 'allow', updatedInput: input };
+  }
+
+  return {
+    behavior: 'deny',
+    message: `${toolName} is not allowed by the CI tool policy (${policy.toolPolicy}). Continue without it.`,
+  };
+}
+
+/**
+ * Create wizard actions that answer every prompt without user interaction.
+ */
+export function createHeadlessActions(policy: HeadlessPolicy): WizardActions {
+  const addItem = (item: HistoryItemInput) => {
+    const text = formatHistoryItem(item);
+    if (text !== null) {
+      l(text);
+    }
+  };
+
+  const noop = () => {
+    // Nothing to render in headless mode
+  };
+
+  return {
+    addItem,
+
+    select: <T>(options: SelectOptions<T>): Promise<T | symbol> => {
+      const selected =
+        options.options.find(
+          (option) => option.value === options.initialValue,
+        ) ?? options.options[0];
+      if (!selected) {
+        return Promise.resolve(CANCEL_SYMBOL);
+      }
+      addItem({
+        type: 'select-result',
+        text: options.message,
+        label: `${selected.label} (auto-selected)`,
+      });
+      return Promise.resolve(selected.value);
+    },
+
+    multiSelect: <T>(options: MultiSelectOptions<T>): Promise<T[] | symbol> => {
+      const selected = options.initialValues
+        ? options.options.filter((option) =>
+            options.initialValues?.includes(option.value),
+          )
+        : options.options;
+      // An empty selection is returned as is, so the caller decides
+      // whether the run can go on without one
+      addItem({
+        type: 'select-result',
+        text: options.message,
+        label: `${
+          selected.map((option) => option.label).join(', ') || '(none)'
+        } (auto-selected)`,
+      });
+      return Promise.resolve(selected.map((option) => option.value));
+    },
+
+    text: (options: TextOptions): Promise<string | symbol> => {
+      const value = options.defaultValue ?? options.initialValue ?? '';
+      const validationError = options.validate?.(value);
+      if (validationError) {
+        addItem({
+          type: 'error',
+          text: `${options.message} requires input: ${validationError}`,
+        });
+        return Promise.resolve(CANCEL_SYMBOL);
+      }
+      addItem({ type: 'text-result', text: options.message, label: value });
+      return Promise.resolve(value);
+    },
+
+    spinner: (): SpinnerInstance => ({
+      start: (msg = '') => {
+        if (msg) {
+          l(`… ${msg}`);
+        }
+      },
+      stop: (msg = '') => {
+        if (msg) {
+          addItem({ type: 'spinner-result', text: msg });
+        }
+      },
+      message: (msg: string) => {
+        l(`… ${msg}`);
+      },
+    }),
+
+    resolvePending: noop,
+    exit: noop,
+
+    toolApproval: (props: ToolApprovalProps): Promise<ToolApprovalResult> => {
+      const result = decideToolApproval(props, policy);
+      addItem({
+        type: result.behavior === 'allow' ? 'step' : 'warning',
+        text: `${result.behavior === 'allow' ? 'Allowed' : 'Denied'} ${
+          props.toolName
+        }${props.fileName ? ` ${props.fileName}` : ''} (CI tool policy: ${
+          policy.toolPolicy
+        })${props.reason ? `: ${props.reason}` : ''}`,
+      });
+      return Promise.resolve(result);
+    },
+
+    clarifyingQuestions: (
+      props: ClarifyingQuestionsProps,
+    ): Promise<ClarifyingQuestionsResult> => {
+      const answers: Record<string, string> = {};
+      for (const question of props.questions) {
+        answers[question.question] = pickQuestionAnswer(question);
+      }
+      addItem({
+        type: 'clarifying-questions-result',
+        text: "Answered Wizard's questions automatically:",
+        questionsAndAnswers: props.questions.map((q) => ({
+          question: q.question,
+          answer: answers[q.question],
+        })),
+      });
+      return Promise.resolve({ questions: props.questions, answers });
+    },
+
+    planApproval: (props: PlanApprovalProps): Promise<PlanApprovalResult> => {
+      addItem({
+        type: 'plan-approved',
+        text: 'Plan approved automatically',
+        planContent: props.planContent,
+      });
+      return Promise.resolve({ approved: true });
+    },
+
+    feedbackSelect: <T>(
+      options: FeedbackSelectOptions<T>,
+    ): Promise<FeedbackSelectResult<T>> => {
+      const selected =
+        options.options.find((option) => !option.allowTextInput) ??
+        options.options[0];
+      addItem({
+        type: 'select-result',
+        text: options.message,
+        label: `${selected.label} (auto-selected)`,
+      });
+      return Promise.resolve({ type: 'option', value: selected.value });
+    },
+
+    startPersistentInput: noop,
+    stopPersistentInput: noop,
+    setAgentState: noop,
+  };
+}
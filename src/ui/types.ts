@@ -15,6 +15,15 @@ export interface SelectOptions<T> {
   initialValue?: T;
 }
 
+export interface MultiSelectOptions<T> {
+  message: string;
+  options: Array<SelectOption<T>>;
+  /** Values that start out checked */
+  initialValues?: T[];
+  /** Whether at least one option must be checked (default true) */
+  required?: boolean;
+}
+
 export interface TextOptions {
   message: string;
   placeholder?: string;
@@ -60,6 +69,8 @@ export interface ToolApprovalProps {
   fileName?: string;
   /** Description of the tool action */
   description?: string;
+  /** Why the tool call needed approval instead of being auto-approved */
+  reason?: string;
 }
 
 // ============================================================================
@@ -0,0 +1,154 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  loadAnswersFile,
+  selectWithAnswer,
+  answerClarifyingQuestions,
+} from '../answers.js';
+import ui from '../ui.js';
+
+jest.mock('../ui.js', () => ({
+  __esModule: true,
+  default: {
+    select: jest.fn(),
+    addItem: jest.fn(),
+  },
+}));
+
+const mockUi = ui as jest.Mocked<typeof ui>;
+
+describe('answers file', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wizard-answers-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function writeFile(name: string, content: string): string {
+    const filePath = path.join(tmpDir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  describe('loadAnswersFile', () => {
+    test('parses a JSON answers file', async () => {
+      const filePath = writeFile(
+        'answers.json',
+        JSON.stringify({ integration: 'python', continueWithDirtyRepo: true }),
+      );
+
+      await expect(loadAnswersFile(filePath)).resolves.toEqual({
+        integration: 'python',
+        continueWithDirtyRepo: true,
+      });
+    });
+
+    test('parses a YAML answers file', async () => {
+      const filePath = writeFile(
+        'answers.yaml',
+        [
+          'integration: vercel-ai-sdk',
+          'vercelAiSdkSetup: otel',
+          'otelPlatform: next',
+          'questions:',
+          '  Features:',
+          '    - Identifying Users',
+          '    - Tracking Signals',
+        ].join('\n'),
+      );
+
+      await expect(loadAnswersFile(filePath)).resolves.toEqual({
+        integration: 'vercel-ai-sdk',
+        vercelAiSdkSetup: 'otel',
+        otelPlatform: 'next',
+        questions: { Features: ['Identifying Users', 'Tracking Signals'] },
+      });
+    });
+
+    test('rejects unknown keys and invalid values', async () => {
+      const filePath = writeFile(
+        'answers.json',
+        JSON.stringify({ integration: 'ruby', unknownPrompt: true }),
+      );
+
+      await expect(loadAnswersFile(filePath)).rejects.toThrow(
+        /Invalid answers file/,
+      );
+    });
+  });
+
+  describe('selectWithAnswer', () => {
+    const options = {
+      message: 'Do you want to continue anyway?',
+      options: [
+        { label: 'Yes', value: true },
+        { label: 'No', value: false },
+      ],
+    };
+
+    test('skips the prompt and records the answer in history', async () => {
+      const value = await selectWithAnswer(
+        { continueWithDirtyRepo: false },
+        'continueWithDirtyRepo',
+        options,
+      );
+
+      expect(value).toBe(false);
+      expect(mockUi.select).not.toHaveBeenCalled();
+      expect(mockUi.addItem).toHaveBeenCalledWith({
+        type: 'select-result',
+        text: options.message,
+        label: 'No (from answers file)',
+      });
+    });
+
+    test('falls back to the interactive prompt without an answer', async () => {
+      mockUi.select.mockResolvedValue(true);
+
+      const value = await selectWithAnswer(
+        {},
+        'continueWithDirtyRepo',
+        options,
+      );
+
+      expect(value).toBe(true);
+      expect(mockUi.select).toHaveBeenCalledWith(options);
+    });
+  });
+
+  describe('answerClarifyingQuestions', () => {
+    test('matches questions by header and keeps unanswered ones', () => {
+      const questions = [
+        {
+          question: 'Which features would you like to integrate?',
+          header: 'Features',
+          options: [],
+          multiSelect: true,
+        },
+        {
+          question: 'Where do user IDs come from?',
+          header: 'User IDs',
+          options: [],
+          multiSelect: false,
+        },
+      ];
+
+      const { answered, remaining } = answerClarifyingQuestions(
+        { questions: { Features: ['Attachments', 'Tracking Signals'] } },
+        questions,
+      );
+
+      expect(answered).toEqual({
+        'Which features would you like to integrate?':
+          'Attachments, Tracking Signals',
+      });
+      expect(remaining).toEqual([questions[1]]);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Integration } from '../../lib/constants.js';
+import {
+  createCheckpoint,
+  findCheckpoint,
+  updateCheckpoint,
+} from '../checkpoint.js';
+
+describe('checkpoint', () => {
+  let stateDir: string;
+  let installDir: string;
+
+  beforeEach(() => {
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wizard-state-'));
+    installDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wizard-project-'));
+    process.env.RAINDROP_WIZARD_STATE_DIR = stateDir;
+  });
+
+  afterEach(() => {
+    delete process.env.RAINDROP_WIZARD_STATE_DIR;
+    fs.rmSync(stateDir, { recursive: true, force: true });
+    fs.rmSync(installDir, { recursive: true, force: true });
+  });
+
+  test('records the progress of a session', async () => {
+    await createCheckpoint({
+      sessionId: 'session-1',
+      installDir,
+      integrations: [Integration.python],
+    });
+    // Concurrent updates are applied in order
+    await Promise.all([
+      updateCheckpoint('session-1', (checkpoint) => {
+        checkpoint.phase = 'agent';
+        checkpoint.agents.python = { sessionId: 'agent-1', completed: false };
+      }),
+      updateCheckpoint('session-1', (checkpoint) => {
+        checkpoint.approvedPlan = '# Plan';
+      }),
+    ]);
+
+    const checkpoint = await findCheckpoint({ installDir });
+
+    expect(checkpoint).toEqual(
+      expect.objectContaining({
+        sessionId: 'session-1',
+        installDir: path.resolve(installDir),
+        phase: 'agent',
+        integrations: [Integration.python],
+        agents: { python: { sessionId: 'agent-1', completed: false } },
+        approvedPlan: '# Plan',
+      }),
+    );
+  });
+
+  test('keeps the progress of a resumed session', async () => {
+    await createCheckpoint({
+      sessionId: 'session-1',
+      installDir,
+      integrations: [Integration.python],
+    });
+    await updateCheckpoint('session-1', (checkpoint) => {
+      checkpoint.phase = 'testing';
+    });
+
+    await createCheckpoint({
+      sessionId: 'session-1',
+      installDir,
+      integrations: [Integration.python],
+    });
+
+    expect((await findCheckpoint({ installDir }))?.phase).toBe('testing');
+  });
+
+  test('does not find completed sessions or create missing ones', async () => {
+    await createCheckpoint({
+      sessionId: 'session-1',
+      installDir,
+      integrations: [Integration.typescript],
+    });
+    await updateCheckpoint('session-1', (checkpoint) => {
+      checkpoint.phase = 'complete';
+    });
+    await updateCheckpoint('dry-run-session', (checkpoint) => {
+      checkpoint.phase = 'agent';
+    });
+
+    expect(await findCheckpoint({ installDir })).toBeUndefined();
+    expect(
+      await findCheckpoint({ sessionId: 'dry-run-session', installDir }),
+    ).toBeUndefined();
+    expect(
+      await findCheckpoint({ sessionId: '../session-1', installDir }),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,128 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  clearCredentials,
+  getStoredToken,
+  loadCredentials,
+  saveCredentials,
+} from '../credentials.js';
+
+jest.mock('../ui.js', () => ({
+  __esModule: true,
+  default: {
+    addItem: jest.fn(),
+  },
+}));
+
+describe('credentials', () => {
+  let stateDir: string;
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wizard-state-'));
+    process.env.RAINDROP_WIZARD_STATE_DIR = stateDir;
+    process.env.RAINDROP_WIZARD_CREDENTIALS_STORE = 'file';
+    global.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    delete process.env.RAINDROP_WIZARD_STATE_DIR;
+    delete process.env.RAINDROP_WIZARD_CREDENTIALS_STORE;
+    fs.rmSync(stateDir, { recursive: true, force: true });
+    fetchMock.mockReset();
+  });
+
+  test('stores credentials in a file only the user can read', async () => {
+    expect(
+      saveCredentials({
+        access_token: 'access-1',
+        refresh_token: 'refresh-1',
+        expires_in: 3600,
+        token_type: 'Bearer',
+        scope: 'user:read project:read',
+      }),
+    ).toBe('file');
+
+    const filePath = path.join(stateDir, 'credentials-local.json');
+    expect(fs.statSync(filePath).mode & 0o777).toBe(0o600);
+    expect(loadCredentials()?.credentials.access_token).toBe('access-1');
+    expect((await getStoredToken(['user:read']))?.access_token).toBe(
+      'access-1',
+    );
+    // Missing scopes require a new login
+    expect(await getStoredToken(['insight:write'])).toBeUndefined();
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    expect(clearCredentials()).toBe(true);
+    expect(loadCredentials()).toBeUndefined();
+  });
+
+  test('refreshes an expired access token', async () => {
+    saveCredentials({
+      access_token: 'access-1',
+      refresh_token: 'refresh-1',
+      expires_in: 0,
+      token_type: 'Bearer',
+    });
+    fetchMock.mockResolvedValue({
+      ok: true,
+      json: () =>
+        Promise.resolve({
+          access_token: 'access-2',
+          expires_in: 3600,
+          token_type: 'Bearer',
+        }),
+    });
+
+    const token = await getStoredToken();
+
+    expect(token?.access_token).toBe('access-2');
+    expect(String(fetchMock.mock.calls[0][1].body)).toContain(
+      'grant_type=refresh_token',
+    );
+    // The refresh token is kept when the server doesn't rotate it
+    expect(loadCredentials()?.credentials).toEqual(
+      expect.objectContaining({
+        access_token: 'access-2',
+        refresh_token: 'refresh-1',
+      }),
+    );
+  });
+
+  test('discards credentials that cannot be refreshed', async () => {
+    saveCredentials({
+      access_token: 'access-1',
+      refresh_token: 'refresh-1',
+      expires_in: 0,
+      token_type: 'Bearer',
+    });
+    fetchMock.mockResolvedValue({
+      ok: false,
+      status: 400,
+      statusText: 'Bad Request',
+    });
+
+    expect(await getStoredToken()).toBeUndefined();
+    expect(loadCredentials()).toBeUndefined();
+  });
+
+  test('keeps credentials when the refresh fails for other reasons', async () => {
+    saveCredentials({
+      access_token: 'access-1',
+      refresh_token: 'refresh-1',
+      expires_in: 0,
+      token_type: 'Bearer',
+    });
+    fetchMock.mockResolvedValueOnce({
+      ok: false,
+      status: 503,
+      statusText: 'Service Unavailable',
+    });
+    fetchMock.mockRejectedValueOnce(new Error('fetch failed'));
+
+    await expect(getStoredToken()).rejects.toThrow('503 Service Unavailable');
+    await expect(getStoredToken()).rejects.toThrow('fetch failed');
+    expect(loadCredentials()?.credentials.refresh_token).toBe('refresh-1');
+  });
+});
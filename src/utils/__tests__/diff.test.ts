@@ -0,0 +1,92 @@
+import childProcess from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { generateDirectoryDiff } from '../diff.js';
+
+describe('generateDirectoryDiff', () => {
+  let tmpDir: string;
+  let originalDir: string;
+  let modifiedDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wizard-diff-'));
+    originalDir = path.join(tmpDir, 'original');
+    modifiedDir = path.join(tmpDir, 'modified');
+    for (const dir of [originalDir, modifiedDir]) {
+      fs.mkdirSync(path.join(dir, 'src'), { recursive: true });
+      fs.mkdirSync(path.join(dir, 'node_modules', 'pkg'), { recursive: true });
+      fs.writeFileSync(path.join(dir, 'README.md'), 'unchanged\n');
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('produces a patch that applies to the original tree', async () => {
+    fs.writeFileSync(path.join(originalDir, 'src/index.ts'), 'a\nb\nc\n');
+    fs.writeFileSync(path.join(originalDir, 'old.txt'), 'remove me\n');
+    fs.writeFileSync(path.join(modifiedDir, 'src/index.ts'), 'a\nB\nc\n');
+    fs.writeFileSync(path.join(modifiedDir, 'src/raindrop.ts'), 'new\n');
+    // Dependency directories are ignored
+    fs.writeFileSync(
+      path.join(modifiedDir, 'node_modules/pkg/index.js'),
+      'dependency\n',
+    );
+
+    const patch = await generateDirectoryDiff(originalDir, modifiedDir);
+
+    expect(patch).toContain('--- a/src/index.ts');
+    expect(patch).toContain('+++ b/src/raindrop.ts');
+    expect(patch).toContain('--- a/old.txt\n+++ /dev/null');
+    expect(patch).not.toContain('README.md');
+    expect(patch).not.toContain('node_modules');
+
+    fs.writeFileSync(path.join(tmpDir, 'changes.diff'), patch);
+    childProcess.execFileSync(
+      'git',
+      ['apply', path.join(tmpDir, 'changes.diff')],
+      { cwd: originalDir },
+    );
+    expect(
+      fs.readFileSync(path.join(originalDir, 'src/index.ts'), 'utf-8'),
+    ).toBe('a\nB\nc\n');
+    expect(fs.existsSync(path.join(originalDir, 'src/raindrop.ts'))).toBe(true);
+    expect(fs.existsSync(path.join(originalDir, 'old.txt'))).toBe(false);
+  });
+
+  test('includes binary files as git binary patches', async () => {
+    const logo = Buffer.from(
+      Array.from({ length: 300 }, (_, i) => (i * 37) % 256),
+    );
+    fs.writeFileSync(path.join(originalDir, 'logo.png'), logo);
+    fs.writeFileSync(path.join(modifiedDir, 'logo.png'), logo.reverse());
+    fs.writeFileSync(path.join(originalDir, 'old.bin'), Buffer.from([0, 1]));
+    fs.writeFileSync(path.join(modifiedDir, 'new.bin'), Buffer.from([2, 0]));
+
+    const patch = await generateDirectoryDiff(originalDir, modifiedDir);
+
+    expect(patch).not.toContain('Binary files');
+    expect(patch).toContain('GIT binary patch');
+
+    fs.writeFileSync(path.join(tmpDir, 'changes.diff'), patch);
+    childProcess.execFileSync(
+      'git',
+      ['apply', path.join(tmpDir, 'changes.diff')],
+      { cwd: originalDir },
+    );
+    for (const file of ['logo.png', 'new.bin']) {
+      expect(fs.readFileSync(path.join(originalDir, file))).toEqual(
+        fs.readFileSync(path.join(modifiedDir, file)),
+      );
+    }
+    expect(fs.existsSync(path.join(originalDir, 'old.bin'))).toBe(false);
+  });
+
+  test('returns an empty patch when nothing changed', async () => {
+    await expect(generateDirectoryDiff(originalDir, modifiedDir)).resolves.toBe(
+      '',
+    );
+  });
+});
@@ -0,0 +1,121 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  snapshotFile,
+  recordPostRunState,
+  findJournal,
+  undoJournal,
+  type Journal,
+} from '../journal.js';
+
+describe('journal', () => {
+  let stateDir: string;
+  let installDir: string;
+
+  beforeEach(() => {
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wizard-state-'));
+    installDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wizard-project-'));
+    process.env.RAINDROP_WIZARD_STATE_DIR = stateDir;
+  });
+
+  afterEach(() => {
+    delete process.env.RAINDROP_WIZARD_STATE_DIR;
+    fs.rmSync(stateDir, { recursive: true, force: true });
+    fs.rmSync(installDir, { recursive: true, force: true });
+  });
+
+  function projectFile(name: string): string {
+    return path.join(installDir, name);
+  }
+
+  test('restores modified files and removes created ones', async () => {
+    fs.writeFileSync(projectFile('.env'), 'EXISTING=1\n');
+    fs.mkdirSync(projectFile('src'));
+    fs.writeFileSync(projectFile('src/index.ts'), 'original');
+
+    await snapshotFile('session-1', installDir, projectFile('.env'));
+    await snapshotFile('session-1', installDir, 'src/index.ts');
+    await snapshotFile('session-1', installDir, 'src/raindrop.ts');
+
+    fs.writeFileSync(projectFile('.env'), 'EXISTING=1\nRAINDROP_WRITE_KEY=x\n');
+    fs.writeFileSync(projectFile('src/index.ts'), 'first edit');
+    // A later snapshot of the same file must not overwrite the original
+    await snapshotFile('session-1', installDir, 'src/index.ts');
+    fs.writeFileSync(projectFile('src/index.ts'), 'second edit');
+    fs.writeFileSync(projectFile('src/raindrop.ts'), 'new file');
+
+    const journal = await findJournal({ installDir });
+    expect(journal?.sessionId).toBe('session-1');
+
+    const result = await undoJournal(journal as Journal);
+
+    expect(result.restored).toEqual([
+      projectFile('.env'),
+      projectFile('src/index.ts'),
+    ]);
+    expect(result.removed).toEqual([projectFile('src/raindrop.ts')]);
+    expect(fs.readFileSync(projectFile('.env'), 'utf-8')).toBe('EXISTING=1\n');
+    expect(fs.readFileSync(projectFile('src/index.ts'), 'utf-8')).toBe(
+      'original',
+    );
+    expect(fs.existsSync(projectFile('src/raindrop.ts'))).toBe(false);
+  });
+
+  test('skips files changed after the wizard ran unless forced', async () => {
+    fs.writeFileSync(projectFile('app.ts'), 'original');
+    fs.writeFileSync(projectFile('env.ts'), 'original');
+    await snapshotFile('session-3', installDir, 'app.ts');
+    await snapshotFile('session-3', installDir, 'env.ts');
+    await snapshotFile('session-3', installDir, 'raindrop.ts');
+    fs.writeFileSync(projectFile('app.ts'), 'wizard edit');
+    fs.writeFileSync(projectFile('env.ts'), 'wizard edit');
+    fs.writeFileSync(projectFile('raindrop.ts'), 'new file');
+    await recordPostRunState('session-3');
+
+    fs.writeFileSync(projectFile('app.ts'), 'user edit');
+    fs.writeFileSync(projectFile('raindrop.ts'), 'user edit');
+
+    const first = await undoJournal(
+      (await findJournal({ installDir })) as Journal,
+    );
+    expect(first.restored).toEqual([projectFile('env.ts')]);
+    expect(first.skipped).toEqual([
+      projectFile('app.ts'),
+      projectFile('raindrop.ts'),
+    ]);
+    expect(fs.readFileSync(projectFile('app.ts'), 'utf-8')).toBe('user edit');
+    expect(first.journal.undoneAt).toBeUndefined();
+
+    const forced = await undoJournal(
+      (await findJournal({ installDir })) as Journal,
+      { force: true },
+    );
+    expect(forced.restored).toEqual([projectFile('app.ts')]);
+    expect(forced.removed).toEqual([projectFile('raindrop.ts')]);
+    expect(forced.skipped).toEqual([]);
+    expect(fs.readFileSync(projectFile('app.ts'), 'utf-8')).toBe('original');
+    await expect(findJournal({ installDir })).resolves.toBeUndefined();
+  });
+
+  test('does not undo a session twice', async () => {
+    await snapshotFile('session-2', installDir, 'new.ts');
+    const journal = await findJournal({
+      sessionId: 'session-2',
+      installDir,
+    });
+    await undoJournal(journal as Journal);
+
+    await expect(findJournal({ installDir })).resolves.toBeUndefined();
+    const undone = await findJournal({ sessionId: 'session-2', installDir });
+    await expect(undoJournal(undone as Journal)).rejects.toThrow(
+      /already undone/,
+    );
+  });
+
+  test('rejects invalid session ids', async () => {
+    await expect(
+      findJournal({ sessionId: '../../etc', installDir }),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,89 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { initEndpoints } from '../../lib/endpoints.js';
+import {
+  DEV_ACCESS_TOKEN,
+  DEV_ORG,
+  DEV_WRITE_KEY,
+  startDevServer,
+  type DevServer,
+} from '../../lib/dev-server.js';
+import { parsePastedCallback, verifyWriteKey } from '../oauth.js';
+
+jest.mock('../ui.js', () => ({
+  __esModule: true,
+  default: {
+    addItem: jest.fn(),
+  },
+}));
+
+describe('parsePastedCallback', () => {
+  test('extracts the code from the redirect URL', () => {
+    expect(
+      parsePastedCallback(
+        ' http://localhost:8259/callback?code=abc&state=state-1 ',
+        'state-1',
+      ),
+    ).toBe('abc');
+  });
+
+  test('accepts a bare code', () => {
+    expect(parsePastedCallback('abc\n', 'state-1')).toBe('abc');
+  });
+
+  test('rejects a mismatched state or an OAuth error', () => {
+    expect(() =>
+      parsePastedCallback(
+        'http://localhost:8259/callback?code=abc&state=other',
+        'state-1',
+      ),
+    ).toThrow('Invalid state parameter');
+    expect(() =>
+      parsePastedCallback(
+        'http://localhost:8259/callback?error=access_denied',
+        'state-1',
+      ),
+    ).toThrow('OAuth error: access_denied');
+  });
+});
+
+describe('verifyWriteKey', () => {
+  let server: DevServer;
+  let stateDir: string;
+
+  beforeEach(async () => {
+    server = await startDevServer({ port: 0 });
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wizard-state-'));
+    process.env.RAINDROP_WIZARD_STATE_DIR = stateDir;
+    process.env.RAINDROP_API_URL = server.url;
+    process.env.RAINDROP_OAUTH_URL = server.url;
+    initEndpoints('dev-server');
+  });
+
+  afterEach(async () => {
+    await server.close();
+    delete process.env.RAINDROP_WIZARD_STATE_DIR;
+    delete process.env.RAINDROP_API_URL;
+    delete process.env.RAINDROP_OAUTH_URL;
+    fs.rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  test('returns the organization whose write key matches', async () => {
+    await expect(
+      verifyWriteKey(DEV_ACCESS_TOKEN, DEV_WRITE_KEY),
+    ).resolves.toEqual({ writeKey: DEV_WRITE_KEY, orgId: DEV_ORG.org_id });
+    await expect(
+      verifyWriteKey(DEV_ACCESS_TOKEN, DEV_WRITE_KEY, DEV_ORG.org_name),
+    ).resolves.toEqual({ writeKey: DEV_WRITE_KEY, orgId: DEV_ORG.org_id });
+  });
+
+  test('rejects keys of other organizations', async () => {
+    await expect(verifyWriteKey(DEV_ACCESS_TOKEN, 'other-key')).rejects.toThrow(
+      'does not belong to any Raindrop organization',
+    );
+    await expect(
+      verifyWriteKey(DEV_ACCESS_TOKEN, DEV_WRITE_KEY, 'other-org'),
+    ).rejects.toThrow('no access to the Raindrop organization "other-org"');
+  });
+});
@@ -0,0 +1,141 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  addTestUrl,
+  addTestUrlParameter,
+  removeLeftoverTestUrls,
+  removeTestUrl,
+  removeTestUrlParameter,
+} from '../test-url.js';
+
+jest.mock('../ui.js', () => ({
+  __esModule: true,
+  default: { addItem: jest.fn() },
+}));
+
+const TEST_URL = 'http://localhost:8260/v1';
+
+const TYPESCRIPT_SOURCE = `import { Raindrop } from "raindrop-ai";
+
+const raindrop = new Raindrop({
+  writeKey: process.env.RAINDROP_WRITE_KEY!, // "}) not the end"
+  wizardSession: "session-1",
+});
+const label = <span>{"new Raindrop({})" as string}</span>;
+`;
+
+const PYTHON_SOURCE = `import os
+import raindrop.analytics as raindrop
+
+raindrop.init(
+    os.getenv("RAINDROP_WRITE_KEY") or "key (with parens)",  # comment )
+    wizardSession="session-1",
+)
+`;
+
+describe('test URL', () => {
+  test('adds and removes the endpoint of new Raindrop({...})', () => {
+    const injected = addTestUrlParameter(
+      TYPESCRIPT_SOURCE,
+      'object',
+      'endpoint',
+      TEST_URL,
+    );
+    expect(injected).toContain(
+      `wizardSession: "session-1", endpoint: "${TEST_URL}",\n});`,
+    );
+    expect(
+      removeTestUrlParameter(injected, 'object', 'endpoint', TEST_URL),
+    ).toBe(TYPESCRIPT_SOURCE);
+  });
+
+  test('adds and removes the api_url of raindrop.init(...)', () => {
+    const injected = addTestUrlParameter(
+      PYTHON_SOURCE,
+      'function',
+      'api_url',
+      TEST_URL,
+    );
+    expect(injected).toContain(
+      `wizardSession="session-1", api_url="${TEST_URL}",\n)`,
+    );
+    expect(
+      removeTestUrlParameter(injected, 'function', 'api_url', TEST_URL),
+    ).toBe(PYTHON_SOURCE);
+
+    const single = 'raindrop.init(api_url="http://localhost:8260/v1", key)';
+    expect(
+      removeTestUrlParameter(single, 'function', 'api_url', TEST_URL),
+    ).toBe('raindrop.init(key)');
+  });
+
+  describe('in a project', () => {
+    let stateDir: string;
+    let installDir: string;
+
+    beforeEach(() => {
+      stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wizard-state-'));
+      installDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wizard-project-'));
+      process.env.RAINDROP_WIZARD_STATE_DIR = stateDir;
+      fs.writeFileSync(path.join(installDir, 'app.py'), PYTHON_SOURCE);
+      fs.writeFileSync(path.join(installDir, 'client.ts'), TYPESCRIPT_SOURCE);
+    });
+
+    afterEach(() => {
+      removeTestUrl('session-1');
+      delete process.env.RAINDROP_WIZARD_STATE_DIR;
+      fs.rmSync(stateDir, { recursive: true, force: true });
+      fs.rmSync(installDir, { recursive: true, force: true });
+    });
+
+    const read = (file: string) =>
+      fs.readFileSync(path.join(installDir, file), 'utf-8');
+
+    test('removes the test URL and keeps changes made while testing', async () => {
+      const injections = await addTestUrl({
+        sessionId: 'session-1',
+        installDir,
+        testUrl: TEST_URL,
+      });
+      expect(injections.map(({ file }) => path.basename(file)).sort()).toEqual([
+        'app.py',
+        'client.ts',
+      ]);
+      expect(read('app.py')).toContain(TEST_URL);
+
+      fs.appendFileSync(path.join(installDir, 'client.ts'), 'export {};\n');
+      removeTestUrl('session-1');
+
+      expect(read('app.py')).toBe(PYTHON_SOURCE);
+      expect(read('client.ts')).toBe(`${TYPESCRIPT_SOURCE}export {};\n`);
+    });
+
+    test('removes a test URL left behind by a killed run', async () => {
+      await addTestUrl({
+        sessionId: 'session-1',
+        installDir,
+        testUrl: TEST_URL,
+      });
+      const record = path.join(
+        stateDir,
+        'sessions',
+        'session-1',
+        'test-url.json',
+      );
+      fs.writeFileSync(
+        record,
+        JSON.stringify({
+          ...(JSON.parse(fs.readFileSync(record, 'utf-8')) as object),
+          pid: 999999999,
+        }),
+      );
+
+      await removeLeftoverTestUrls();
+
+      expect(read('app.py')).toBe(PYTHON_SOURCE);
+      expect(read('client.ts')).toBe(TYPESCRIPT_SOURCE);
+      expect(fs.existsSync(record)).toBe(false);
+    });
+  });
+});
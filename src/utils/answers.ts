@@ -0,0 +1,154 @@
+/**
+ * Answers file support for scripted wizard runs.
+ * An answers file (JSON or YAML) pre-answers the wizard prompts so a
+ * reproducible onboarding recipe can be checked into a repository.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { z } from 'zod';
+import ui from './ui.js';
+import { Integration } from '../lib/constants.js';
+import type { SelectOptions, ClarifyingQuestion } from '../ui/types.js';
+
+const WizardAnswersSchema = z
+  .object({
+    /** Integration to set up (skips detection and the integration prompt) */
+    integration: z.nativeEnum(Integration).optional(),
+    /** Integrations to set up together in a polyglot repository */
+    integrations: z.array(z.nativeEnum(Integration)).min(1).optional(),
+    /** Answer to "I detected your AI app uses ... Is this correct?" */
+    confirmDetectedIntegration: z.boolean().optional(),
+    /** Vercel AI SDK setup: OpenTelemetry or the TypeScript SDK */
+    vercelAiSdkSetup: z.enum(['otel', 'typescript']).optional(),
+    /** OpenTelemetry provider for the TypeScript integration */
+    otelProvider: z.enum(['', 'sentry', 'other']).optional(),
+    /** OpenTelemetry platform for the Vercel AI SDK integration */
+    otelPlatform: z.enum(['next', 'node', 'cloudflare', 'sentry']).optional(),
+    /** Continue when the install directory is not a git repository */
+    continueWithoutGit: z.boolean().optional(),
+    /** Continue when the git repository has uncommitted or untracked files */
+    continueWithDirtyRepo: z.boolean().optional(),
+    /** Monorepo packages to set up, by package name or directory */
+    workspacePackages: z.array(z.string()).optional(),
+    /** Answers to the agent's AskUserQuestion questions, keyed by header */
+    questions: z
+      .record(z.string(), z.union([z.string(), z.array(z.string())]))
+      .optional(),
+  })
+  .strict();
+
+export type WizardAnswers = z.infer<typeof WizardAnswersSchema>;
+
+/**
+ * Keys of the answers file that answer a single select prompt
+ */
+export type SelectAnswerKey = Exclude<
+  keyof WizardAnswers,
+  'questions' | 'workspacePackages' | 'integrations'
+>;
+
+/**
+ * Load and validate an answers file. The format is picked from the file
+ * extension (.json, .yaml, .yml).
+ */
+export async function loadAnswersFile(
+  filePath: string,
+): Promise<WizardAnswers> {
+  let content: string;
+  try {
+    content = await fs.promises.readFile(filePath, 'utf-8');
+  } catch (error) {
+    throw new Error(
+      `Could not read answers file ${filePath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+  }
+
+  let data: unknown;
+  try {
+    const extension = path.extname(filePath).toLowerCase();
+    data =
+      extension === '.yaml' || extension === '.yml'
+        ? YAML.parse(content)
+        : JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Could not parse answers file ${filePath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+  }
+
+  const result = WizardAnswersSchema.safeParse(data ?? {});
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid answers file ${filePath}: ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Show a select prompt unless the answers file already answers it.
+ * Pre-answered prompts are skipped and recorded in history.
+ */
+export async function selectWithAnswer<T>(
+  answers: WizardAnswers | undefined,
+  key: SelectAnswerKey,
+  options: SelectOptions<T>,
+): Promise<T | symbol> {
+  const answer = answers?.[key];
+  if (answer === undefined) {
+    return ui.select(options);
+  }
+
+  const option = options.options.find((o) => o.value === answer);
+  if (!option) {
+    ui.addItem({
+      type: 'warning',
+      text: `Ignoring answer ${JSON.stringify(
+        answer,
+      )} for "${key}" in the answers file: expected one of ${options.options
+        .map((o) => JSON.stringify(o.value))
+        .join(', ')}`,
+    });
+    return ui.select(options);
+  }
+
+  ui.addItem({
+    type: 'select-result',
+    text: options.message,
+    label: `${option.label} (from answers file)`,
+  });
+  return option.value;
+}
+
+/**
+ * Answer the agent's clarifying questions from the answers file, matching
+ * questions by header. Returns the answers keyed by question text, plus the
+ * questions that still need to be asked.
+ */
+export function answerClarifyingQuestions(
+  answers: WizardAnswers | undefined,
+  questions: ClarifyingQuestion[],
+): { answered: Record<string, string>; remaining: ClarifyingQuestion[] } {
+  const answered: Record<string, string> = {};
+  const remaining: ClarifyingQuestion[] = [];
+
+  for (const question of questions) {
+    const answer = answers?.questions?.[question.header];
+    if (answer === undefined) {
+      remaining.push(question);
+    } else {
+      answered[question.question] = Array.isArray(answer)
+        ? answer.join(', ')
+        : answer;
+    }
+  }
+
+  return { answered, remaining };
+}
@@ -0,0 +1,140 @@
+/**
+ * Helpers for changing JavaScript/TypeScript source through its syntax tree.
+ * Sources are parsed with magicast, but changed with text edits at node
+ * offsets, so everything around a change keeps its formatting.
+ */
+
+import { parseModule } from 'magicast';
+import { visit } from 'recast';
+
+/**
+ * A node of the Babel syntax tree
+ */
+export type AstNode = {
+  type: string;
+  start?: number | null;
+  end?: number | null;
+  loc?: { start: { line: number } } | null;
+  [key: string]: unknown;
+};
+
+/**
+ * Replacement of the text between two offsets
+ */
+export type SourceEdit = { start: number; end: number; text: string };
+
+/**
+ * Parse a module (TypeScript and JSX included). Throws on syntax errors.
+ */
+export function parseProgram(source: string): AstNode {
+  return parseModule(source).$ast as unknown as AstNode;
+}
+
+/**
+ * All nodes of a type in a tree, in source order
+ */
+export function findNodes(root: AstNode, type: string): AstNode[] {
+  const nodes: AstNode[] = [];
+  visit(root as unknown as Parameters<typeof visit>[0], {
+    visitNode(nodePath) {
+      const node = nodePath.node as unknown as AstNode;
+      if (node.type === type) {
+        nodes.push(node);
+      }
+      this.traverse(nodePath);
+    },
+  });
+  return nodes;
+}
+
+/**
+ * The options objects passed to `new <className>({...})`
+ */
+export function findConstructorOptions(
+  root: AstNode,
+  className: string,
+): AstNode[] {
+  return findNodes(root, 'NewExpression').flatMap((node) => {
+    const callee = node.callee as AstNode;
+    const [options] = node.arguments as AstNode[];
+    return callee.type === 'Identifier' &&
+      callee.name === className &&
+      options?.type === 'ObjectExpression'
+      ? [options]
+      : [];
+  });
+}
+
+/**
+ * The name of a non-computed object property
+ */
+export function getPropertyName(property: AstNode): string | undefined {
+  const key = property.key as AstNode | undefined;
+  if (!key || property.computed) {
+    return undefined;
+  }
+  if (key.type === 'Identifier') {
+    return key.name as string;
+  }
+  return key.type === 'StringLiteral' ? (key.value as string) : undefined;
+}
+
+/**
+ * A property of an object expression by name
+ */
+export function findProperty(
+  object: AstNode,
+  name: string,
+): AstNode | undefined {
+  return (object.properties as AstNode[]).find(
+    (property) => getPropertyName(property) === name,
+  );
+}
+
+/**
+ * Edit that adds a property (e.g. `key: value`) to an object expression,
+ * right after its last property so trailing commas and comments stay
+ */
+export function addPropertyEdit(object: AstNode, property: string): SourceEdit {
+  const properties = object.properties as AstNode[];
+  const last = properties[properties.length - 1];
+  if (last) {
+    const position = last.end ?? 0;
+    return { start: position, end: position, text: `, ${property}` };
+  }
+  const position = (object.start ?? 0) + 1;
+  return { start: position, end: position, text: ` ${property} ` };
+}
+
+/**
+ * Edit that removes a property of an object expression with its comma
+ */
+export function removePropertyEdit(
+  object: AstNode,
+  property: AstNode,
+): SourceEdit {
+  const properties = object.properties as AstNode[];
+  const index = properties.indexOf(property);
+  const previous = properties[index - 1];
+  const next = properties[index + 1];
+  if (previous) {
+    return { start: previous.end ?? 0, end: property.end ?? 0, text: '' };
+  }
+  if (next) {
+    return { start: property.start ?? 0, end: next.start ?? 0, text: '' };
+  }
+  return { start: property.start ?? 0, end: property.end ?? 0, text: '' };
+}
+
+/**
+ * Apply edits that don't overlap
+ */
+export function applyEdits(source: string, edits: SourceEdit[]): string {
+  return [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (content, { start, end, text }) =>
+        content.slice(0, start) + text + content.slice(end),
+      source,
+    );
+}
@@ -0,0 +1,186 @@
+/**
+ * Per-session checkpoint of the wizard's progress, so a run interrupted by a
+ * closed terminal or a crash can be continued with `wizard resume`.
+ * The checkpoint never holds secrets: resuming uses the stored login.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { getSessionDir, getStateDir } from './state-dir.js';
+import type { Integration } from '../lib/constants.js';
+import type { WizardAnswers } from './answers.js';
+import type { WorkspaceTarget } from '../lib/workspaces.js';
+import type { EventFeature } from '../lib/event-checks.js';
+
+const CHECKPOINT_FILE = 'checkpoint.json';
+
+/**
+ * Phases of a wizard run, in order
+ */
+export type CheckpointPhase = 'setup' | 'agent' | 'testing' | 'complete';
+
+/**
+ * Prompt answers that are replayed when a session is resumed
+ */
+export type CheckpointChoices = Pick<
+  WizardAnswers,
+  'vercelAiSdkSetup' | 'otelPlatform' | 'otelProvider'
+>;
+
+/**
+ * State of an integration's agent
+ */
+export interface AgentCheckpoint {
+  /** Agent SDK session id, passed to the SDK `resume` option */
+  sessionId: string;
+  /** Whether the agent completed the integration */
+  completed: boolean;
+}
+
+/**
+ * Progress of a wizard session
+ */
+export interface Checkpoint {
+  sessionId: string;
+  installDir: string;
+  createdAt: string;
+  updatedAt: string;
+  phase: CheckpointPhase;
+  /** Integrations chosen for the session */
+  integrations: Integration[];
+  choices: CheckpointChoices;
+  /** Agents by the integration of their framework config */
+  agents: Partial<Record<Integration, AgentCheckpoint>>;
+  /** The Raindrop organization the session sends events to */
+  orgId?: string;
+  /** The most recent plan the user approved */
+  approvedPlan?: string;
+  /** The monorepo package the session is scoped to */
+  workspace?: WorkspaceTarget;
+  /** Raindrop features the user chose to integrate, checked in testing */
+  features?: EventFeature[];
+}
+
+// Updates are serialized so concurrent callbacks can't clobber the file
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+function isValidSessionId(sessionId: string): boolean {
+  return /^[A-Za-z0-9_-]+$/.test(sessionId);
+}
+
+async function readCheckpoint(
+  sessionId: string,
+): Promise<Checkpoint | undefined> {
+  try {
+    const content = await fs.promises.readFile(
+      path.join(getSessionDir(sessionId), CHECKPOINT_FILE),
+      'utf-8',
+    );
+    return JSON.parse(content) as Checkpoint;
+  } catch {
+    return undefined;
+  }
+}
+
+async function writeCheckpoint(checkpoint: Checkpoint): Promise<void> {
+  const sessionDir = getSessionDir(checkpoint.sessionId);
+  await fs.promises.mkdir(sessionDir, { recursive: true });
+  await fs.promises.writeFile(
+    path.join(sessionDir, CHECKPOINT_FILE),
+    JSON.stringify(checkpoint, null, 2),
+    'utf-8',
+  );
+}
+
+function enqueue<T>(write: () => Promise<T>): Promise<T> {
+  const next = pendingWrite.then(write);
+  pendingWrite = next.catch(() => undefined);
+  return next;
+}
+
+/**
+ * Start checkpointing a session once its integrations are chosen. An
+ * existing checkpoint (of a resumed session) keeps its progress.
+ */
+export function createCheckpoint(options: {
+  sessionId: string;
+  installDir: string;
+  integrations: Integration[];
+  workspace?: WorkspaceTarget;
+}): Promise<void> {
+  return enqueue(async () => {
+    const now = new Date().toISOString();
+    const existing = await readCheckpoint(options.sessionId);
+    await writeCheckpoint({
+      createdAt: now,
+      phase: 'setup',
+      choices: {},
+      agents: {},
+      ...existing,
+      sessionId: options.sessionId,
+      installDir: path.resolve(options.installDir),
+      integrations: options.integrations,
+      workspace: options.workspace,
+      updatedAt: now,
+    });
+  });
+}
+
+/**
+ * Update the checkpoint of a session. Sessions without a checkpoint (e.g.
+ * dry runs) are ignored.
+ */
+export function updateCheckpoint(
+  sessionId: string,
+  update: (checkpoint: Checkpoint) => void,
+): Promise<void> {
+  return enqueue(async () => {
+    const checkpoint = await readCheckpoint(sessionId);
+    if (!checkpoint) {
+      return;
+    }
+    update(checkpoint);
+    checkpoint.updatedAt = new Date().toISOString();
+    await writeCheckpoint(checkpoint);
+  });
+}
+
+/**
+ * Find the checkpoint to resume: the given session, or the most recently
+ * updated unfinished session in the install directory (or in one of its
+ * workspace packages).
+ */
+export async function findCheckpoint(options: {
+  sessionId?: string;
+  installDir: string;
+}): Promise<Checkpoint | undefined> {
+  if (options.sessionId) {
+    if (!isValidSessionId(options.sessionId)) {
+      return undefined;
+    }
+    return readCheckpoint(options.sessionId);
+  }
+
+  let sessionIds: string[];
+  try {
+    sessionIds = await fs.promises.readdir(
+      path.join(getStateDir(), 'sessions'),
+    );
+  } catch {
+    return undefined;
+  }
+
+  const installDir = path.resolve(options.installDir);
+  const checkpoints = await Promise.all(
+    sessionIds.map((id) => readCheckpoint(id)),
+  );
+  return checkpoints
+    .filter(
+      (checkpoint): checkpoint is Checkpoint =>
+        checkpoint !== undefined &&
+        (checkpoint.installDir === installDir ||
+          checkpoint.workspace?.root === installDir) &&
+        checkpoint.phase !== 'complete',
+    )
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+}
@@ -6,12 +6,14 @@ import Chalk from 'chalk';
 // chalk v2 types don't work well with ESM default imports
 const chalk = Chalk as any;
 import type { WizardOptions } from './types.js';
-import type { Integration } from '../lib/constants.js';
+import { ExitCode, type Integration } from '../lib/constants.js';
 import ui from './ui.js';
 import { INTEGRATION_CONFIG } from '../lib/config.js';
-import type { OAuthTokenResponse } from './oauth.js';
+import type { LoginMethod, OAuthTokenResponse } from './oauth.js';
 import { getUserInfo, performOAuthFlow } from './oauth.js';
-import { debug } from './debug.js';
+import { debug, logToFile } from './debug.js';
+import { getStoredToken, saveCredentials } from './credentials.js';
+import { selectWithAnswer } from './answers.js';
 
 export function abort(message?: string, status?: number): never {
   ui.addItem({ type: 'outro', text: message ?? 'Wizard setup cancelled.' });
@@ -39,22 +41,23 @@ export async function abortIfCancelled<T>(
         integration ?? 'Raindrop'
       } at ${chalk.cyan(docsUrl)} to continue with the setup manually.`,
     });
-    process.exit(0);
+    // Nobody cancels a headless run: a prompt it can't answer is a failure
+    process.exit(ui.isHeadless() ? ExitCode.failure : ExitCode.success);
   } else {
     return input as Exclude<T, symbol>;
   }
 }
 
 export async function confirmContinueIfNoOrDirtyGitRepo(
-  options: Pick<WizardOptions, 'default'>,
+  options: Pick<WizardOptions, 'default' | 'answers'>,
 ): Promise<void> {
   if (!isInGitRepo()) {
     const continueWithoutGit = options.default
       ? true
       : await abortIfCancelled(
-          ui.select({
+          selectWithAnswer(options.answers, 'continueWithoutGit', {
             message:
-              'You are not inside a git repository. The wizard will create and update files. Do you want to continue anyway?',
+              'You are not inside a git repository. The wizard will create and update files, which you can revert with `npx @raindrop/wizard undo`. Do you want to continue anyway?',
             options: [
               { label: 'Yes', value: true },
               { label: 'No', value: false },
@@ -77,10 +80,10 @@ export async function confirmContinueIfNoOrDirtyGitRepo(
 
 ${uncommittedOrUntrackedFiles.join('\n')}
 
-The wizard will create and update files.`,
+The wizard will create and update files. You can revert its changes with \`npx @raindrop/wizard undo\`.`,
     });
     const continueWithDirtyRepo = await abortIfCancelled(
-      ui.select({
+      selectWithAnswer(options.answers, 'continueWithDirtyRepo', {
         message: 'Do you want to continue anyway?',
         options: [
           { label: 'Yes', value: true },
@@ -164,38 +167,104 @@ export async function askForAIConsent(options: Pick<WizardOptions, 'default'>) {
   return aiConsent;
 }
 
+const WIZARD_SCOPES = [
+  'user:read',
+  'project:read',
+  'introspection',
+  'llm_gateway:read',
+  'dashboard:write',
+  'insight:write',
+];
+
+/**
+ * Log in to Raindrop, reusing the stored credentials unless `force` is set.
+ * New credentials are stored for the next run.
+ */
 export async function askForWizardLogin(options: {
   signup: boolean;
+  force?: boolean;
+  method?: LoginMethod | 'auto';
 }): Promise<OAuthTokenResponse> {
+  if (!options.force) {
+    const storedToken = await getStoredToken(WIZARD_SCOPES);
+    if (storedToken) {
+      return storedToken;
+    }
+  }
+
   const tokenResponse = await performOAuthFlow({
-    scopes: [
-      'user:read',
-      'project:read',
-      'introspection',
-      'llm_gateway:read',
-      'dashboard:write',
-      'insight:write',
-    ],
+    scopes: WIZARD_SCOPES,
     signup: options.signup,
+    method: options.method,
   });
 
+  try {
+    saveCredentials(tokenResponse);
+  } catch (error) {
+    logToFile('Failed to store credentials:', error);
+  }
+
   return tokenResponse;
 }
 
-export async function validateProjectAccess(
+export type RaindropOrg = {
+  orgId: string;
+  orgName: string;
+};
+
+/**
+ * Pick the Raindrop organization to set up: the one given with --org (by
+ * id or name), the user's only organization, or the one the user selects.
+ */
+export async function askForOrg(
   accessToken: string,
-): Promise<void> {
+  org?: string,
+): Promise<RaindropOrg> {
   const userInfo = await getUserInfo(accessToken);
-  const orgIds = Object.keys(userInfo.org_id_to_org_info || {});
-  const projectId = orgIds[0];
+  const orgs = Object.values(userInfo.org_id_to_org_info || {}).map(
+    ({ org_id, org_name }) => ({ orgId: org_id, orgName: org_name }),
+  );
 
-  if (projectId === undefined) {
+  if (orgs.length === 0) {
     const error = new Error(
       'No project access granted. Please authorize with project-level access.',
     );
     ui.addItem({ type: 'error', text: error.message });
     abort();
   }
+
+  if (org) {
+    const match = orgs.find(
+      ({ orgId, orgName }) =>
+        orgId === org || orgName.toLowerCase() === org.toLowerCase(),
+    );
+    if (!match) {
+      ui.addItem({
+        type: 'error',
+        text: `You are not a member of the Raindrop organization "${org}". Your organizations: ${orgs
+          .map(({ orgId, orgName }) => `${orgName} (${orgId})`)
+          .join(', ')}`,
+      });
+      abort();
+    }
+    return match;
+  }
+
+  if (orgs.length === 1) {
+    return orgs[0];
+  }
+
+  const orgId = await abortIfCancelled(
+    ui.select({
+      message: 'Which Raindrop organization do you want to send events to?',
+      options: orgs.map(({ orgId, orgName }) => ({
+        value: orgId,
+        label: orgName,
+        hint: orgId,
+      })),
+    }),
+  );
+  return orgs.find((candidate) => candidate.orgId === orgId) ?? orgs[0];
 }
 
 /**
@@ -0,0 +1,323 @@
+/**
+ * Persistent store for the wizard's OAuth credentials, so the browser login
+ * only happens once per machine instead of on every run.
+ * Credentials are kept in the OS keychain (macOS Keychain, or the Secret
+ * Service via secret-tool on Linux desktops) and otherwise in a file only
+ * the user can read, e.g. on headless Linux. Expired access tokens are
+ * refreshed with the refresh token. Each endpoint profile has its own
+ * credentials.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { spawnSync } from 'child_process';
+import { getStateDir } from './state-dir.js';
+import { getProfileName } from '../lib/endpoints.js';
+import { logToFile } from './debug.js';
+import {
+  refreshAccessToken,
+  TokenRefreshError,
+  type OAuthTokenResponse,
+} from './oauth.js';
+
+const KEYCHAIN_SERVICE = 'raindrop-wizard';
+
+// Refresh tokens that expire within this window, so they don't expire mid-run
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Credentials as stored: the token response plus its absolute expiry
+ */
+export type StoredCredentials = OAuthTokenResponse & {
+  /** Expiry of the access token (ms since epoch) */
+  expires_at: number;
+};
+
+export type CredentialStoreName = 'keychain' | 'file';
+
+interface CredentialStore {
+  name: CredentialStoreName;
+  read(): string | undefined;
+  write(value: string): void;
+  clear(): boolean;
+}
+
+// Credentials are only valid for the backend they were issued by
+function getKeychainAccount(): string {
+  return `oauth-${getProfileName()}`;
+}
+
+function run(
+  command: string,
+  args: string[],
+  input?: string,
+): { ok: boolean; stdout: string } {
+  const result = spawnSync(command, args, { input, encoding: 'utf-8' });
+  return {
+    ok: !result.error && result.status === 0,
+    stdout: result.stdout ?? '',
+  };
+}
+
+/**
+ * macOS Keychain, via the security CLI. Commands are passed on stdin (not
+ * as arguments) so the credentials never show up in the process list.
+ */
+const macosKeychain: CredentialStore = {
+  name: 'keychain',
+  read() {
+    const { ok, stdout } = run('security', [
+      'find-generic-password',
+      '-s',
+      KEYCHAIN_SERVICE,
+      '-a',
+      getKeychainAccount(),
+      '-w',
+    ]);
+    return ok ? Buffer.from(stdout.trim(), 'hex').toString('utf-8') : undefined;
+  },
+  write(value) {
+    const hex = Buffer.from(value, 'utf-8').toString('hex');
+    const { ok } = run(
+      'security',
+      ['-i'],
+      `add-generic-password -U -s ${KEYCHAIN_SERVICE} -a ${getKeychainAccount()} -w ${hex}\n`,
+    );
+    if (!ok) {
+      throw new Error('Could not save credentials to the macOS Keychain');
+    }
+  },
+  clear() {
+    return run('security', [
+      'delete-generic-password',
+      '-s',
+      KEYCHAIN_SERVICE,
+      '-a',
+      getKeychainAccount(),
+    ]).ok;
+  },
+};
+
+/**
+ * Secret Service (GNOME Keyring, KWallet) via secret-tool, which reads the
+ * secret from stdin
+ */
+const secretService: CredentialStore = {
+  name: 'keychain',
+  read() {
+    const { ok, stdout } = run('secret-tool', [
+      'lookup',
+      'service',
+      KEYCHAIN_SERVICE,
+      'account',
+      getKeychainAccount(),
+    ]);
+    return ok && stdout ? stdout : undefined;
+  },
+  write(value) {
+    const { ok } = run(
+      'secret-tool',
+      [
+        'store',
+        '--label=Raindrop wizard',
+        'service',
+        KEYCHAIN_SERVICE,
+        'account',
+        getKeychainAccount(),
+      ],
+      value,
+    );
+    if (!ok) {
+      throw new Error('Could not save credentials to the Secret Service');
+    }
+  },
+  clear() {
+    return run('secret-tool', [
+      'clear',
+      'service',
+      KEYCHAIN_SERVICE,
+      'account',
+      getKeychainAccount(),
+    ]).ok;
+  },
+};
+
+function getCredentialsFilePath(): string {
+  return path.join(getStateDir(), `credentials-${getProfileName()}.json`);
+}
+
+/**
+ * A file readable only by the user (0600, in a 0700 directory)
+ */
+const credentialsFile: CredentialStore = {
+  name: 'file',
+  read() {
+    try {
+      return fs.readFileSync(getCredentialsFilePath(), 'utf-8');
+    } catch {
+      return undefined;
+    }
+  },
+  write(value) {
+    const filePath = getCredentialsFilePath();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+    fs.writeFileSync(filePath, value, { encoding: 'utf-8', mode: 0o600 });
+    // The mode only applies to new files
+    fs.chmodSync(filePath, 0o600);
+  },
+  clear() {
+    try {
+      fs.rmSync(getCredentialsFilePath());
+      return true;
+    } catch {
+      return false;
+    }
+  },
+};
+
+/**
+ * The OS keychain, if one is usable. On Linux the Secret Service needs
+ * secret-tool and a D-Bus session, which headless machines don't have.
+ */
+function getKeychain(): CredentialStore | undefined {
+  const preference = process.env.RAINDROP_WIZARD_CREDENTIALS_STORE;
+  if (preference === 'file') {
+    return undefined;
+  }
+  if (process.platform === 'darwin') {
+    return macosKeychain;
+  }
+  if (
+    process.platform === 'linux' &&
+    process.env.DBUS_SESSION_BUS_ADDRESS &&
+    !spawnSync('secret-tool', ['--help']).error
+  ) {
+    return secretService;
+  }
+  return undefined;
+}
+
+/**
+ * Stores to read from, in order of preference
+ */
+function getStores(): CredentialStore[] {
+  const keychain = getKeychain();
+  return keychain ? [keychain, credentialsFile] : [credentialsFile];
+}
+
+/**
+ * Where a store keeps the credentials, for display
+ */
+export function describeCredentialStore(store: CredentialStoreName): string {
+  return store === 'keychain' ? 'the OS keychain' : getCredentialsFilePath();
+}
+
+/**
+ * Load the stored credentials, whether or not they have expired
+ */
+export function loadCredentials():
+  | { credentials: StoredCredentials; store: CredentialStoreName }
+  | undefined {
+  for (const store of getStores()) {
+    const value = store.read();
+    if (!value) {
+      continue;
+    }
+    try {
+      return {
+        credentials: JSON.parse(value) as StoredCredentials,
+        store: store.name,
+      };
+    } catch {
+      logToFile(`Ignoring unreadable credentials in the ${store.name} store`);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Store credentials from a token response, in the keychain if possible and
+ * in the credentials file otherwise. Returns the store used.
+ */
+export function saveCredentials(
+  token: OAuthTokenResponse,
+): CredentialStoreName {
+  const value = JSON.stringify({
+    ...token,
+    expires_at: Date.now() + token.expires_in * 1000,
+  } satisfies StoredCredentials);
+
+  for (const store of getStores()) {
+    try {
+      store.write(value);
+      return store.name;
+    } catch (error) {
+      logToFile(`Failed to save credentials to the ${store.name} store`, error);
+    }
+  }
+  throw new Error('Could not save credentials');
+}
+
+/**
+ * Remove stored credentials from every store. Returns whether any existed.
+ */
+export function clearCredentials(): boolean {
+  return getStores()
+    .map((store) => store.clear())
+    .some(Boolean);
+}
+
+/**
+ * Get a usable access token from the store, refreshing it if it expired.
+ * Credentials whose refresh token is rejected are discarded. Returns
+ * undefined when the user needs to log in, and throws when the refresh
+ * fails otherwise (e.g. offline), keeping the credentials for a retry.
+ */
+export async function getStoredToken(
+  requiredScopes: string[] = [],
+): Promise<OAuthTokenResponse | undefined> {
+  const stored = loadCredentials();
+  if (!stored) {
+    return undefined;
+  }
+  const { credentials } = stored;
+
+  const grantedScopes = credentials.scope?.split(' ');
+  if (
+    grantedScopes &&
+    !requiredScopes.every((scope) => grantedScopes.includes(scope))
+  ) {
+    logToFile('Stored credentials are missing required scopes');
+    return undefined;
+  }
+
+  if (credentials.expires_at - EXPIRY_MARGIN_MS > Date.now()) {
+    return credentials;
+  }
+
+  if (!credentials.refresh_token) {
+    return undefined;
+  }
+
+  try {
+    const refreshed = await refreshAccessToken(credentials.refresh_token);
+    const token = {
+      ...refreshed,
+      // Keep the refresh token if the server doesn't rotate it
+      refresh_token: refreshed.refresh_token ?? credentials.refresh_token,
+    };
+    saveCredentials(token);
+    return token;
+  } catch (error) {
+    logToFile('Failed to refresh the access token:', error);
+    if (error instanceof TokenRefreshError && error.rejected) {
+      clearCredentials();
+      return undefined;
+    }
+    throw new Error(
+      `Could not refresh your Raindrop login: ${
+        error instanceof Error ? error.message : String(error)
+      }. Check your connection and try again.`,
+    );
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Unified diff helpers shared by the tool approval UI, the SDK message
+ * display and dry-run patches.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { createTwoFilesPatch } from 'diff';
+
+/**
+ * Directories that are never compared when diffing two project trees
+ */
+export const DIFF_IGNORED_DIRECTORIES = new Set([
+  '.git',
+  'node_modules',
+  '.venv',
+  'venv',
+  '__pycache__',
+  '.next',
+  '.turbo',
+]);
+
+/**
+ * Generate a unified diff for Edit tool inputs (old_string -> new_string)
+ */
+export function generateEditDiff(
+  filePath: string,
+  oldString: string,
+  newString: string,
+): string {
+  // createTwoFilesPatch generates a unified diff
+  return createTwoFilesPatch(
+    filePath,
+    filePath,
+    oldString,
+    newString,
+    '', // old header
+    '', // new header
+    { context: 3 }, // context lines
+  );
+}
+
+/**
+ * Recursively list files under a directory, relative to it, skipping
+ * DIFF_IGNORED_DIRECTORIES and symlinks.
+ */
+async function listFiles(root: string, dir = ''): Promise<string[]> {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(path.join(root, dir), {
+      withFileTypes: true,
+    });
+  } catch {
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const relativePath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!DIFF_IGNORED_DIRECTORIES.has(entry.name)) {
+        files.push(...(await listFiles(root, relativePath)));
+      }
+    } else if (entry.isFile()) {
+      files.push(relativePath);
+    }
+  }
+  return files;
+}
+
+async function readFileIfExists(filePath: string): Promise<Buffer | null> {
+  try {
+    return await fs.promises.readFile(filePath);
+  } catch {
+    return null;
+  }
+}
+
+const BASE85_ALPHABET =
+  '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz!#$%&()*+-;<=>?@^_`{|}~';
+const NULL_OBJECT_ID = '0'.repeat(40);
+
+/**
+ * Object id git gives a file's contents, needed in the `index` line of a
+ * binary patch so `git apply` can check the preimage.
+ */
+function gitBlobId(contents: Buffer): string {
+  return crypto
+    .createHash('sha1')
+    .update(`blob ${contents.length}\0`)
+    .update(contents)
+    .digest('hex');
+}
+
+/**
+ * Encode data the way `git diff --binary` does: deflated, then base85 in
+ * lines of at most 52 bytes, each prefixed with its length (A-Z = 1-26,
+ * a-z = 27-52).
+ */
+function encodeGitBinaryLiteral(contents: Buffer): string {
+  const deflated = zlib.deflateSync(contents);
+  const lines: string[] = [];
+  for (let offset = 0; offset < deflated.length; offset += 52) {
+    const chunk = deflated.subarray(offset, offset + 52);
+    let line =
+      chunk.length <= 26
+        ? String.fromCharCode(64 + chunk.length)
+        : String.fromCharCode(70 + chunk.length);
+    for (let i = 0; i < chunk.length; i += 4) {
+      let value = 0;
+      for (let j = 0; j < 4; j++) {
+        value = value * 256 + (chunk[i + j] ?? 0);
+      }
+      let group = '';
+      for (let j = 0; j < 5; j++) {
+        group = BASE85_ALPHABET[value % 85] + group;
+        value = Math.floor(value / 85);
+      }
+      line += group;
+    }
+    lines.push(line);
+  }
+  return `literal ${contents.length}\n${lines.join('\n')}\n\n`;
+}
+
+/**
+ * Git-style binary patch for a file that was added, removed or changed.
+ * Only `git apply` understands these; `patch` skips them.
+ */
+function generateBinaryPatch(
+  displayPath: string,
+  original: Buffer | null,
+  modified: Buffer | null,
+): string {
+  let header = `diff --git a/${displayPath} b/${displayPath}\n`;
+  if (!original) {
+    header += 'new file mode 100644\n';
+  } else if (!modified) {
+    header += 'deleted file mode 100644\n';
+  }
+  const oldId = original ? gitBlobId(original) : NULL_OBJECT_ID;
+  const newId = modified ? gitBlobId(modified) : NULL_OBJECT_ID;
+  return (
+    `${header}index ${oldId}..${newId}\n` +
+    'GIT binary patch\n' +
+    encodeGitBinaryLiteral(modified ?? Buffer.alloc(0)) +
+    encodeGitBinaryLiteral(original ?? Buffer.alloc(0))
+  );
+}
+
+/**
+ * Generate a unified diff (applicable with `git apply` or `patch -p1`) of
+ * every file that differs between two directory trees. Binary files are
+ * included as git binary patches, which only `git apply` applies.
+ */
+export async function generateDirectoryDiff(
+  originalDir: string,
+  modifiedDir: string,
+): Promise<string> {
+  const files = new Set([
+    ...(await listFiles(originalDir)),
+    ...(await listFiles(modifiedDir)),
+  ]);
+
+  const patches: string[] = [];
+  for (const file of [...files].sort()) {
+    const original = await readFileIfExists(path.join(originalDir, file));
+    const modified = await readFileIfExists(path.join(modifiedDir, file));
+    if (original && modified && original.equals(modified)) {
+      continue;
+    }
+
+    const displayPath = file.split(path.sep).join('/');
+    const oldName = original ? `a/${displayPath}` : '/dev/null';
+    const newName = modified ? `b/${displayPath}` : '/dev/null';
+
+    if (original?.includes(0) || modified?.includes(0)) {
+      patches.push(generateBinaryPatch(displayPath, original, modified));
+      continue;
+    }
+
+    patches.push(
+      createTwoFilesPatch(
+        oldName,
+        newName,
+        original?.toString('utf-8') ?? '',
+        modified?.toString('utf-8') ?? '',
+        undefined,
+        undefined,
+        { context: 3 },
+      ),
+    );
+  }
+
+  return patches.join('');
+}
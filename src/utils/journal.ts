@@ -0,0 +1,271 @@
+/**
+ * Per-session journal of the files the wizard changes.
+ * Before the agent edits or writes a file (and before the wizard writes
+ * .env), the original is copied into the session directory so the whole run
+ * can be rolled back with `wizard undo`, with or without git.
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { getSessionDir, getStateDir } from './state-dir.js';
+
+const JOURNAL_FILE = 'journal.json';
+const BACKUPS_DIR = 'files';
+
+/**
+ * Original state of a file changed during a session
+ */
+export interface JournalEntry {
+  /** Absolute path of the changed file */
+  path: string;
+  /** Whether the file existed before the session changed it */
+  existed: boolean;
+  /** Backup of the original contents, relative to the session directory */
+  backup?: string;
+  /** Permission bits of the original file */
+  mode?: number;
+  /**
+   * SHA-256 of the file after the wizard's last change, or null if the file
+   * didn't exist then. Undo leaves files that changed since then alone.
+   */
+  postRunHash?: string | null;
+}
+
+/**
+ * Journal of all files changed during a wizard session
+ */
+export interface Journal {
+  sessionId: string;
+  installDir: string;
+  createdAt: string;
+  /** Set once the session has been rolled back */
+  undoneAt?: string;
+  entries: JournalEntry[];
+}
+
+/**
+ * Result of rolling back a session
+ */
+export interface UndoResult {
+  journal: Journal;
+  restored: string[];
+  removed: string[];
+  /** Files left alone because they changed after the wizard ran */
+  skipped: string[];
+}
+
+// Snapshots are serialized so concurrent tool calls can't clobber the journal
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+function isValidSessionId(sessionId: string): boolean {
+  return /^[A-Za-z0-9_-]+$/.test(sessionId);
+}
+
+async function readJournal(sessionId: string): Promise<Journal | undefined> {
+  try {
+    const content = await fs.promises.readFile(
+      path.join(getSessionDir(sessionId), JOURNAL_FILE),
+      'utf-8',
+    );
+    return JSON.parse(content) as Journal;
+  } catch {
+    return undefined;
+  }
+}
+
+async function writeJournal(journal: Journal): Promise<void> {
+  const sessionDir = getSessionDir(journal.sessionId);
+  await fs.promises.mkdir(sessionDir, { recursive: true });
+  await fs.promises.writeFile(
+    path.join(sessionDir, JOURNAL_FILE),
+    JSON.stringify(journal, null, 2),
+    'utf-8',
+  );
+}
+
+async function recordOriginal(
+  sessionId: string,
+  installDir: string,
+  filePath: string,
+): Promise<void> {
+  const absolutePath = path.resolve(installDir, filePath);
+  const journal = (await readJournal(sessionId)) ?? {
+    sessionId,
+    installDir: path.resolve(installDir),
+    createdAt: new Date().toISOString(),
+    entries: [],
+  };
+
+  // Only the first snapshot holds the original contents
+  if (journal.entries.some((entry) => entry.path === absolutePath)) {
+    return;
+  }
+
+  let stat: fs.Stats | undefined;
+  try {
+    stat = await fs.promises.stat(absolutePath);
+  } catch {
+    // File doesn't exist yet, undo will remove it
+  }
+
+  const entry: JournalEntry = { path: absolutePath, existed: Boolean(stat) };
+  if (stat) {
+    const backup = path.join(BACKUPS_DIR, String(journal.entries.length));
+    const backupPath = path.join(getSessionDir(sessionId), backup);
+    await fs.promises.mkdir(path.dirname(backupPath), { recursive: true });
+    await fs.promises.copyFile(absolutePath, backupPath);
+    entry.backup = backup;
+    entry.mode = stat.mode & 0o777;
+  }
+
+  journal.entries.push(entry);
+  await writeJournal(journal);
+}
+
+async function hashFile(filePath: string): Promise<string | null> {
+  try {
+    const content = await fs.promises.readFile(filePath);
+    return createHash('sha256').update(content).digest('hex');
+  } catch {
+    return null;
+  }
+}
+
+async function recordPostRunHashes(sessionId: string): Promise<void> {
+  const journal = await readJournal(sessionId);
+  if (!journal) {
+    return;
+  }
+  for (const entry of journal.entries) {
+    entry.postRunHash = await hashFile(entry.path);
+  }
+  await writeJournal(journal);
+}
+
+/**
+ * Snapshot the original state of a file before the wizard changes it.
+ * Repeated snapshots of the same file within a session are ignored.
+ */
+export function snapshotFile(
+  sessionId: string,
+  installDir: string,
+  filePath: string,
+): Promise<void> {
+  const write = pendingWrite.then(() =>
+    recordOriginal(sessionId, installDir, filePath),
+  );
+  pendingWrite = write.catch(() => undefined);
+  return write;
+}
+
+/**
+ * Record the current contents of every file changed during a session, after
+ * the wizard has changed them. Called whenever an agent pass ends, so undo
+ * can tell which files were changed afterwards.
+ */
+export function recordPostRunState(sessionId: string): Promise<void> {
+  const write = pendingWrite.then(() => recordPostRunHashes(sessionId));
+  pendingWrite = write.catch(() => undefined);
+  return write;
+}
+
+/**
+ * List all session journals, most recent first
+ */
+export async function listJournals(): Promise<Journal[]> {
+  let sessionIds: string[];
+  try {
+    sessionIds = await fs.promises.readdir(
+      path.join(getStateDir(), 'sessions'),
+    );
+  } catch {
+    return [];
+  }
+
+  const journals = await Promise.all(sessionIds.map((id) => readJournal(id)));
+  return journals
+    .filter((journal): journal is Journal => journal !== undefined)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Find the journal to undo: the given session, or the most recent session
+ * in the install directory that has not been undone yet.
+ */
+export async function findJournal(options: {
+  sessionId?: string;
+  installDir: string;
+}): Promise<Journal | undefined> {
+  if (options.sessionId) {
+    if (!isValidSessionId(options.sessionId)) {
+      return undefined;
+    }
+    return readJournal(options.sessionId);
+  }
+
+  const installDir = path.resolve(options.installDir);
+  const journals = await listJournals();
+  return journals.find(
+    (journal) => journal.installDir === installDir && !journal.undoneAt,
+  );
+}
+
+/**
+ * Restore every file changed during a session to its original state.
+ * Files that didn't exist before the session are removed. Files that changed
+ * after the wizard ran are skipped unless `force` is set; the session is
+ * only marked as undone once no files are left, so it can be undone again
+ * with `force`.
+ */
+export async function undoJournal(
+  journal: Journal,
+  options: { force?: boolean } = {},
+): Promise<UndoResult> {
+  if (journal.undoneAt) {
+    throw new Error(
+      `Session ${journal.sessionId} was already undone at ${journal.undoneAt}`,
+    );
+  }
+
+  const sessionDir = getSessionDir(journal.sessionId);
+  const restored: string[] = [];
+  const removed: string[] = [];
+  const skippedEntries: JournalEntry[] = [];
+
+  for (const entry of journal.entries) {
+    if (
+      !options.force &&
+      entry.postRunHash !== undefined &&
+      (await hashFile(entry.path)) !== entry.postRunHash
+    ) {
+      skippedEntries.push(entry);
+    } else if (entry.existed && entry.backup) {
+      await fs.promises.mkdir(path.dirname(entry.path), { recursive: true });
+      await fs.promises.copyFile(
+        path.join(sessionDir, entry.backup),
+        entry.path,
+      );
+      if (entry.mode !== undefined) {
+        await fs.promises.chmod(entry.path, entry.mode);
+      }
+      restored.push(entry.path);
+    } else if (!entry.existed && fs.existsSync(entry.path)) {
+      await fs.promises.rm(entry.path, { force: true });
+      removed.push(entry.path);
+    }
+  }
+
+  const undone: Journal =
+    skippedEntries.length > 0
+      ? { ...journal, entries: skippedEntries }
+      : { ...journal, undoneAt: new Date().toISOString() };
+  await writeJournal(undone);
+
+  return {
+    journal: undone,
+    restored,
+    removed,
+    skipped: skippedEntries.map((entry) => entry.path),
+  };
+}
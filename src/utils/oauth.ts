@@ -1,5 +1,6 @@
 import * as crypto from 'node:crypto';
 import * as http from 'node:http';
+import fs from 'node:fs';
 import Chalk from 'chalk';
 
 // chalk v2 types don't work well with ESM default imports
@@ -8,16 +9,13 @@ import opn from 'opn';
 import { z } from 'zod';
 import ui from './ui.js';
 import {
-  WRITE_KEY_ENDPOINT,
   ISSUES_URL,
-  OAUTH_AUTHORIZE_URL,
-  OAUTH_CLIENT_ID,
   OAUTH_PORT,
   OAUTH_REDIRECT_URI,
-  OAUTH_TOKEN_URL,
-  OAUTH_USERINFO_URL,
 } from '../lib/constants.js';
+import { getEndpoints } from '../lib/endpoints.js';
 import { abort } from './clack-utils.js';
+import { logToFile } from './debug.js';
 
 const OAUTH_CALLBACK_STYLES = `
   <style>
@@ -73,9 +71,20 @@ const OAuthUserInfoSchema = z.object({
 export type OAuthTokenResponse = z.infer<typeof OAuthTokenResponseSchema>;
 export type OAuthUserInfo = z.infer<typeof OAuthUserInfoSchema>;
 
+/**
+ * How the user logs in: `browser` opens a browser that redirects to a local
+ * callback server, `paste` has the user open the login link anywhere and
+ * paste the redirect URL back into the terminal
+ */
+export type LoginMethod = 'browser' | 'paste';
+
+export const LOGIN_METHODS = ['auto', 'browser', 'paste'] as const;
+
 interface OAuthConfig {
   scopes: string[];
   signup?: boolean;
+  /** Defaults to `auto`, which detects whether a browser login can work */
+  method?: LoginMethod | 'auto';
 }
 
 function generateCodeVerifier(): string {
@@ -214,13 +223,13 @@ async function exchangeCodeForToken(
   codeVerifier: string,
 ): Promise<OAuthTokenResponse> {
   const params = new URLSearchParams();
-  params.append('client_id', OAUTH_CLIENT_ID);
+  params.append('client_id', getEndpoints().oauthClientId);
   params.append('code', code);
   params.append('redirect_uri', OAUTH_REDIRECT_URI);
   params.append('grant_type', 'authorization_code');
   params.append('code_verifier', codeVerifier);
 
-  const response = await fetch(OAUTH_TOKEN_URL, {
+  const response = await fetch(getEndpoints().oauthTokenUrl, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/x-www-form-urlencoded',
@@ -238,8 +247,46 @@ async function exchangeCodeForToken(
   return OAuthTokenResponseSchema.parse(data);
 }
 
+/**
+ * Failed token refresh. `rejected` is set when the server refused the
+ * refresh token (e.g. invalid_grant), rather than being unreachable or
+ * failing.
+ */
+export class TokenRefreshError extends Error {
+  constructor(message: string, readonly rejected: boolean) {
+    super(message);
+  }
+}
+
+export async function refreshAccessToken(
+  refreshToken: string,
+): Promise<OAuthTokenResponse> {
+  const params = new URLSearchParams();
+  params.append('client_id', getEndpoints().oauthClientId);
+  params.append('refresh_token', refreshToken);
+  params.append('grant_type', 'refresh_token');
+
+  const response = await fetch(getEndpoints().oauthTokenUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: params.toString(),
+  });
+
+  if (!response.ok) {
+    throw new TokenRefreshError(
+      `Token refresh failed: ${response.status} ${response.statusText}`,
+      response.status === 400 || response.status === 401,
+    );
+  }
+
+  const data = await response.json();
+  return OAuthTokenResponseSchema.parse(data);
+}
+
 export async function getUserInfo(accessToken: string): Promise<OAuthUserInfo> {
-  const response = await fetch(OAUTH_USERINFO_URL, {
+  const response = await fetch(getEndpoints().oauthUserinfoUrl, {
     headers: {
       Authorization: `Bearer ${accessToken}`,
     },
@@ -262,10 +309,12 @@ export interface WriteKeyResponse {
 
 export async function getOrgWriteKey(
   accessToken: string,
+  orgId?: string,
 ): Promise<WriteKeyResponse> {
-  const response = await fetch(WRITE_KEY_ENDPOINT, {
+  const response = await fetch(getEndpoints().writeKeyUrl, {
     headers: {
       Authorization: `Bearer ${accessToken}`,
+      ...(orgId ? { 'x-org-id': orgId } : {}),
     },
   });
 
@@ -279,6 +328,144 @@ export async function getOrgWriteKey(
   return { writeKey: data.api_key, orgId: data.org_id };
 }
 
+/**
+ * Check that a write key belongs to an organization the access token can
+ * access, by comparing it with the write key of each of its organizations
+ * (or only the given one, by id or name). Returns the key's organization.
+ */
+export async function verifyWriteKey(
+  accessToken: string,
+  writeKey: string,
+  org?: string,
+): Promise<WriteKeyResponse> {
+  const userInfo = await getUserInfo(accessToken);
+  const orgs = Object.values(userInfo.org_id_to_org_info || {});
+  const candidates = org
+    ? orgs.filter(
+        ({ org_id, org_name }) =>
+          org_id === org || org_name.toLowerCase() === org.toLowerCase(),
+      )
+    : orgs;
+  if (org && candidates.length === 0) {
+    throw new Error(
+      `The access token has no access to the Raindrop organization "${org}"`,
+    );
+  }
+
+  for (const { org_id } of candidates) {
+    const orgKey = await getOrgWriteKey(accessToken, org_id);
+    if (orgKey.writeKey === writeKey) {
+      return { writeKey, orgId: org_id };
+    }
+  }
+  throw new Error(
+    org
+      ? `The write key does not belong to the Raindrop organization "${org}"`
+      : 'The write key does not belong to any Raindrop organization the access token can access',
+  );
+}
+
+/**
+ * Whether a browser login can complete on this machine: the browser opened
+ * by the wizard has to reach the callback server on localhost, which isn't
+ * the case over SSH, in containers or without a display.
+ */
+export function detectLoginMethod(): LoginMethod {
+  if (
+    process.env.SSH_CONNECTION ||
+    process.env.SSH_CLIENT ||
+    process.env.SSH_TTY
+  ) {
+    return 'paste';
+  }
+  if (fs.existsSync('/.dockerenv') || process.env.container) {
+    return 'paste';
+  }
+  if (
+    process.platform === 'linux' &&
+    !process.env.DISPLAY &&
+    !process.env.WAYLAND_DISPLAY
+  ) {
+    return 'paste';
+  }
+  return 'browser';
+}
+
+/**
+ * Extract the authorization code from the redirect URL (or the bare code)
+ * pasted by the user
+ */
+export function parsePastedCallback(
+  input: string,
+  expectedState: string,
+): string {
+  const value = input.trim();
+  let url: URL | undefined;
+  try {
+    url = new URL(value);
+  } catch {
+    // Not a URL, so the bare code was pasted
+  }
+  if (!url) {
+    return value;
+  }
+
+  const error = url.searchParams.get('error');
+  if (error) {
+    throw new Error(`OAuth error: ${error}`);
+  }
+  const code = url.searchParams.get('code');
+  if (!code) {
+    throw new Error('The pasted URL does not contain an authorization code');
+  }
+  if (url.searchParams.get('state') !== expectedState) {
+    throw new Error('Invalid state parameter');
+  }
+  return code;
+}
+
+async function askForPastedCode(
+  authUrl: string,
+  signupUrl: string,
+  expectedState: string,
+  signup?: boolean,
+): Promise<string> {
+  ui.addItem({
+    type: 'response',
+    text: `${chalk.bold(
+      'Open the following link in a browser on any device to log in to Raindrop:',
+    )}\n\n${chalk.cyan(signup ? signupUrl : authUrl)}${
+      signup
+        ? `\n\nIf you already have an account, you can use this link:\n\n${chalk.cyan(
+            authUrl,
+          )}`
+        : ``
+    }\n\n${chalk.dim(
+      `After you authorize, the browser is redirected to ${OAUTH_REDIRECT_URI}, which may fail to load. Copy the full URL from the address bar and paste it below.`,
+    )}`,
+  });
+
+  const input = await ui.text({
+    message: 'Paste the URL (or the code) from your browser',
+    validate: (value) =>
+      value.trim() ? undefined : 'Paste the URL from your browser',
+  });
+  if (ui.isCancel(input)) {
+    throw new Error('OAuth error: access_denied');
+  }
+  return parsePastedCallback(input, expectedState);
+}
+
+function closeServer(server?: http.Server): Promise<void> {
+  return new Promise<void>((resolve) => {
+    if (!server) {
+      resolve();
+      return;
+    }
+    server.close(() => resolve());
+  });
+}
+
 export async function performOAuthFlow(
   config: OAuthConfig,
 ): Promise<OAuthTokenResponse> {
@@ -286,8 +473,9 @@ export async function performOAuthFlow(
   const codeChallenge = generateCodeChallenge(codeVerifier);
   const state = generateRandomState();
 
-  const authUrl = new URL(OAUTH_AUTHORIZE_URL);
-  authUrl.searchParams.set('client_id', OAUTH_CLIENT_ID);
+  const { oauthAuthorizeUrl, oauthClientId } = getEndpoints();
+  const authUrl = new URL(oauthAuthorizeUrl);
+  authUrl.searchParams.set('client_id', oauthClientId);
   authUrl.searchParams.set('redirect_uri', OAUTH_REDIRECT_URI);
   authUrl.searchParams.set('response_type', 'code');
   authUrl.searchParams.set('state', state);
@@ -296,7 +484,7 @@ export async function performOAuthFlow(
   authUrl.searchParams.set('scope', config.scopes.join(' '));
 
   const signupUrl = new URL(
-    `${OAUTH_AUTHORIZE_URL.replace(
+    `${oauthAuthorizeUrl.replace(
       '/authorize',
       '/signup',
     )}?next=${encodeURIComponent(authUrl.toString())}`,
@@ -307,47 +495,84 @@ export async function performOAuthFlow(
 
   const urlToOpen = config.signup ? localSignupUrl : localLoginUrl;
 
-  const { server, waitForCallback } = await startCallbackServer(
-    authUrl.toString(),
-    signupUrl.toString(),
-    state,
-  );
-
-  ui.addItem({
-    type: 'response',
-    text: `${chalk.bold(
-      "If the browser window didn't open automatically, please open the following link to be redirected to Raindrop:",
-    )}\n\n${chalk.cyan(urlToOpen)}${
-      config.signup
-        ? `\n\nIf you already have an account, you can use this link:\n\n${chalk.cyan(
-            localLoginUrl,
-          )}`
-        : ``
-    }`,
-  });
-
-  if (process.env.NODE_ENV !== 'test') {
-    opn(urlToOpen, { wait: false }).catch(() => {
-      // opn throws in environments without a browser
-    });
+  const method =
+    !config.method || config.method === 'auto'
+      ? detectLoginMethod()
+      : config.method;
+
+  let callbackServer:
+    | Awaited<ReturnType<typeof startCallbackServer>>
+    | undefined;
+  if (method === 'browser') {
+    try {
+      callbackServer = await startCallbackServer(
+        authUrl.toString(),
+        signupUrl.toString(),
+        state,
+      );
+    } catch (error) {
+      // Only fall back when the login method was detected, not forced
+      if (config.method === 'browser') {
+        throw error;
+      }
+      logToFile('Failed to start the OAuth callback server:', error);
+      ui.addItem({
+        type: 'response',
+        text: chalk.dim(
+          `Port ${OAUTH_PORT} is not available for the browser login, switching to copy-paste login.`,
+        ),
+      });
+    }
   }
 
   const loginSpinner = ui.spinner();
-  loginSpinner.start('Waiting for authorization...');
 
   try {
-    const code = await Promise.race([
-      waitForCallback(),
-      new Promise<never>((_, reject) =>
-        setTimeout(() => reject(new Error('Authorization timed out')), 60_000),
-      ),
-    ]);
+    let code: string;
+    if (callbackServer) {
+      ui.addItem({
+        type: 'response',
+        text: `${chalk.bold(
+          "If the browser window didn't open automatically, please open the following link to be redirected to Raindrop:",
+        )}\n\n${chalk.cyan(urlToOpen)}${
+          config.signup
+            ? `\n\nIf you already have an account, you can use this link:\n\n${chalk.cyan(
+                localLoginUrl,
+              )}`
+            : ``
+        }`,
+      });
+
+      if (process.env.NODE_ENV !== 'test') {
+        opn(urlToOpen, { wait: false }).catch(() => {
+          // opn throws in environments without a browser
+        });
+      }
+
+      loginSpinner.start('Waiting for authorization...');
+
+      code = await Promise.race([
+        callbackServer.waitForCallback(),
+        new Promise<never>((_, reject) =>
+          setTimeout(
+            () => reject(new Error('Authorization timed out')),
+            60_000,
+          ),
+        ),
+      ]);
+    } else {
+      code = await askForPastedCode(
+        authUrl.toString(),
+        signupUrl.toString(),
+        state,
+        config.signup,
+      );
+      loginSpinner.start('Completing authorization...');
+    }
 
     const token = await exchangeCodeForToken(code, codeVerifier);
 
-    await new Promise<void>((resolve) => {
-      server.close(() => resolve());
-    });
+    await closeServer(callbackServer?.server);
 
     loginSpinner.stop('Authorization complete!');
 
@@ -355,9 +580,7 @@ export async function performOAuthFlow(
   } catch (e) {
     loginSpinner.stop('Authorization failed.');
 
-    await new Promise<void>((resolve) => {
-      server.close(() => resolve());
-    });
+    await closeServer(callbackServer?.server);
 
     const error = e instanceof Error ? e : new Error('Unknown error');
 
@@ -0,0 +1,89 @@
+/**
+ * Minimal tokenizer for Python source, enough to find calls and their
+ * arguments without being fooled by brackets in strings or comments
+ */
+
+export type PythonTokenType =
+  | 'name'
+  | 'number'
+  | 'string'
+  | 'op'
+  | 'comment'
+  | 'newline';
+
+export interface PythonToken {
+  type: PythonTokenType;
+  value: string;
+  /** Offsets of the token in the source */
+  start: number;
+  end: number;
+}
+
+const STRING_PREFIX = /^(?:[rRbBuUfF]|[rR][bBfF]|[bBfF][rR])?(?:'''|"""|'|")/;
+const NAME = /^[\p{L}_][\p{L}\p{N}_]*/u;
+const NUMBER =
+  /^(?:0[xXoObB][\da-fA-F_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][+-]?\d+)?[jJ]?)/;
+
+// End offset of a string literal whose quote starts at quoteStart
+function findStringEnd(source: string, quoteStart: number): number {
+  const quote = source.startsWith('"""', quoteStart)
+    ? '"""'
+    : source.startsWith("'''", quoteStart)
+    ? "'''"
+    : source[quoteStart];
+  let i = quoteStart + quote.length;
+  while (i < source.length) {
+    if (source[i] === '\\') {
+      i += 2;
+      continue;
+    }
+    if (source.startsWith(quote, i)) {
+      return i + quote.length;
+    }
+    // Unterminated single-quoted strings end at the line
+    if (quote.length === 1 && source[i] === '\n') {
+      return i;
+    }
+    i++;
+  }
+  return source.length;
+}
+
+/**
+ * Split Python source into tokens. Whitespace and line continuations are
+ * skipped; anything unknown becomes a one-character operator.
+ */
+export function tokenizePython(source: string): PythonToken[] {
+  const tokens: PythonToken[] = [];
+  let i = 0;
+
+  const push = (type: PythonTokenType, end: number) => {
+    tokens.push({ type, value: source.slice(i, end), start: i, end });
+    i = end;
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+    const rest = source.slice(i, i + 200);
+
+    if (char === '\n') {
+      push('newline', i + 1);
+    } else if (/\s/.test(char) || (char === '\\' && source[i + 1] === '\n')) {
+      i += char === '\\' ? 2 : 1;
+    } else if (char === '#') {
+      const end = source.indexOf('\n', i);
+      push('comment', end === -1 ? source.length : end);
+    } else if (STRING_PREFIX.test(rest)) {
+      const prefixLength = /^[a-zA-Z]*/.exec(rest)?.[0].length ?? 0;
+      push('string', findStringEnd(source, i + prefixLength));
+    } else if (NAME.test(rest)) {
+      push('name', i + (NAME.exec(rest)?.[0].length ?? 1));
+    } else if (/[\d.]/.test(char) && NUMBER.test(rest)) {
+      push('number', i + (NUMBER.exec(rest)?.[0].length ?? 1));
+    } else {
+      push('op', i + 1);
+    }
+  }
+
+  return tokens;
+}
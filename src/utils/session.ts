@@ -1,7 +1,4 @@
-import {
-  SESSION_START_ENDPOINT,
-  SESSION_UPDATE_ENDPOINT,
-} from '../lib/constants.js';
+import { getEndpoints } from '../lib/endpoints.js';
 
 export function sendSessionInit(
   sessionId: string,
@@ -10,7 +7,7 @@ export function sendSessionInit(
   orgId: string,
 ): void {
   // Fire and forget - don't await
-  void fetch(SESSION_START_ENDPOINT, {
+  void fetch(getEndpoints().sessionStartUrl, {
     method: 'POST',
     headers: {
       Authorization: `Bearer ${accessToken}`,
@@ -33,7 +30,7 @@ export function sendSessionUpdate(
   orgId: string,
 ): void {
   // Fire and forget - don't await
-  void fetch(SESSION_UPDATE_ENDPOINT, {
+  void fetch(getEndpoints().sessionUpdateUrl, {
     method: 'POST',
     headers: {
       Authorization: `Bearer ${accessToken}`,
@@ -0,0 +1,21 @@
+import os from 'os';
+import path from 'path';
+
+/**
+ * Directory where the wizard keeps state between runs (session journals,
+ * etc.). Defaults to ~/.raindrop-wizard and can be overridden with
+ * RAINDROP_WIZARD_STATE_DIR.
+ */
+export function getStateDir(): string {
+  return (
+    process.env.RAINDROP_WIZARD_STATE_DIR ||
+    path.join(os.homedir(), '.raindrop-wizard')
+  );
+}
+
+/**
+ * Directory holding the state of a single wizard session
+ */
+export function getSessionDir(sessionId: string): string {
+  return path.join(getStateDir(), 'sessions', sessionId);
+}
@@ -1,297 +1,508 @@
+/**
+ * Temporarily routes the Raindrop SDK of a project to a test ingestion URL
+ * for the testing phase, by adding the URL parameter to `new Raindrop({...})`
+ * (TypeScript/JavaScript) and `raindrop.init(...)` (Python) calls.
+ * TypeScript is parsed with magicast and Python with a tokenizer, so only
+ * the parameter itself is inserted and removed again.
+ * Injections are recorded in the session directory and removed when the
+ * test ends, when the process exits, and on the next run after a crash.
+ */
+
 import { glob } from 'glob';
 import fs from 'fs';
+import path from 'path';
 import { logToFile, debug } from './debug.js';
+import { getSessionDir, getStateDir } from './state-dir.js';
+import { tokenizePython, type PythonToken } from './python-tokenizer.js';
+import {
+  addPropertyEdit,
+  applyEdits,
+  findConstructorOptions,
+  findProperty,
+  parseProgram,
+  removePropertyEdit,
+  type AstNode,
+  type SourceEdit,
+} from './ast.js';
+
+const TEST_URL_FILE = 'test-url.json';
+
+const IGNORE_PATTERNS = [
+  '**/node_modules/**',
+  '**/.git/**',
+  '**/dist/**',
+  '**/build/**',
+  '**/.next/**',
+  '**/venv/**',
+  '**/.venv/**',
+  '**/__pycache__/**',
+];
+
+/**
+ * Style of the SDK initialization: 'object' for `new Raindrop({...})`,
+ * 'function' for `raindrop.init(...)`
+ */
+export type InjectionStyle = 'object' | 'function';
 
 interface InjectorConfig {
   /** File glob pattern (e.g., '**\/*.py' or '**\/*.ts') */
   filePattern: string;
-  /** Patterns to ignore during glob */
-  ignorePatterns: string[];
-  /** Pattern to search for (e.g., 'raindrop.init(' or 'new Raindrop') */
+  /** Text a file must contain to be parsed */
   searchPattern: string;
-  /** Regex to match the search pattern */
-  searchRegex: RegExp;
   /** Parameter name to add (e.g., 'api_url' or 'endpoint') */
   parameterName: string;
-  /** Test URL to inject */
-  testUrl: string;
-  /** Style: 'object' for {...} or 'function' for (...) */
-  style: 'object' | 'function';
+  style: InjectionStyle;
 }
 
+const INJECTORS: InjectorConfig[] = [
+  {
+    filePattern: '**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs}',
+    searchPattern: 'new Raindrop',
+    parameterName: 'endpoint',
+    style: 'object',
+  },
+  {
+    filePattern: '**/*.py',
+    searchPattern: 'raindrop.init',
+    parameterName: 'api_url',
+    style: 'function',
+  },
+];
+
 /**
- * Add a test URL parameter to initialization calls
+ * A file the test URL was added to
  */
-export async function addTestUrl(config: InjectorConfig): Promise<void> {
-  const files = await glob(config.filePattern, {
-    ignore: config.ignorePatterns,
-    absolute: true,
-  });
+export interface TestUrlInjection {
+  /** Absolute path of the file */
+  file: string;
+  original: string;
+  injected: string;
+  style: InjectionStyle;
+  parameterName: string;
+  testUrl: string;
+}
 
-  for (const file of files) {
-    try {
-      let content = await fs.promises.readFile(file, 'utf-8');
-
-      // Check if file contains the pattern without the parameter already
-      if (
-        content.includes(config.searchPattern) &&
-        !content.includes(config.parameterName)
-      ) {
-        const replacements = findReplacements(content, config);
-
-        // Apply replacements in reverse order to maintain positions
-        if (replacements.length > 0) {
-          replacements.reverse();
-          for (const { start, end, replacement } of replacements) {
-            content =
-              content.slice(0, start) + replacement + content.slice(end);
-          }
-          await fs.promises.writeFile(file, content, 'utf-8');
-        }
-      }
-    } catch (error) {
-      logToFile(`Failed to process file ${file} during setup:`, error);
-      debug(
-        `Skipping file ${file}: ${
-          error instanceof Error ? error.message : String(error)
-        }`,
-      );
-      continue;
+interface TestUrlRecord {
+  /** Process that added the test URL, so a running wizard is left alone */
+  pid: number;
+  injections: TestUrlInjection[];
+}
+
+// ============================================================================
+// TypeScript: new Raindrop({...})
+// ============================================================================
+
+function addObjectParameter(
+  source: string,
+  parameterName: string,
+  testUrl: string,
+): string {
+  const edits = findConstructorOptions(parseProgram(source), 'Raindrop')
+    .filter((object) => !findProperty(object, parameterName))
+    .map((object) =>
+      addPropertyEdit(object, `${parameterName}: ${JSON.stringify(testUrl)}`),
+    );
+  return applyEdits(source, edits);
+}
+
+function removeObjectParameter(
+  source: string,
+  parameterName: string,
+  testUrl: string,
+): string {
+  const edits: SourceEdit[] = [];
+  for (const object of findConstructorOptions(
+    parseProgram(source),
+    'Raindrop',
+  )) {
+    const property = findProperty(object, parameterName);
+    const value = property?.value as AstNode | undefined;
+    if (
+      property &&
+      value?.type === 'StringLiteral' &&
+      value.value === testUrl
+    ) {
+      edits.push(removePropertyEdit(object, property));
     }
   }
+  return applyEdits(source, edits);
 }
 
+// ============================================================================
+// Python: raindrop.init(...)
+// ============================================================================
+
+const PYTHON_OPEN = new Set(['(', '[', '{']);
+const PYTHON_CLOSE = new Set([')', ']', '}']);
+
 /**
- * Remove test URL parameter from initialization calls
+ * The `raindrop.init(...)` calls in Python source, as the indices of their
+ * parentheses in the tokens
  */
-export async function removeTestUrl(config: InjectorConfig): Promise<void> {
-  const files = await glob(config.filePattern, {
-    ignore: config.ignorePatterns,
-    absolute: true,
+function findInitCalls(
+  tokens: PythonToken[],
+): { open: number; close: number }[] {
+  const calls: { open: number; close: number }[] = [];
+  tokens.forEach((token, i) => {
+    if (
+      token.value !== 'raindrop' ||
+      tokens[i + 1]?.value !== '.' ||
+      tokens[i + 2]?.value !== 'init' ||
+      tokens[i + 3]?.value !== '('
+    ) {
+      return;
+    }
+    let depth = 0;
+    for (let j = i + 3; j < tokens.length; j++) {
+      if (tokens[j].type !== 'op') {
+        continue;
+      }
+      if (PYTHON_OPEN.has(tokens[j].value)) {
+        depth++;
+      } else if (PYTHON_CLOSE.has(tokens[j].value) && --depth === 0) {
+        calls.push({ open: i + 3, close: j });
+        return;
+      }
+    }
   });
+  return calls;
+}
 
-  for (const file of files) {
-    try {
-      let content = await fs.promises.readFile(file, 'utf-8');
-
-      // Check if file contains the pattern with the parameter
-      if (
-        content.includes(config.searchPattern) &&
-        content.includes(config.parameterName)
-      ) {
-        // Remove parameter - safer pattern to prevent ReDoS
-        const paramPattern =
-          config.style === 'function'
-            ? new RegExp(
-                `,?\\s*${config.parameterName}\\s*=\\s*["'][^"']{0,500}["']\\s*,?`,
-                'g',
-              )
-            : new RegExp(
-                `,?\\s*${config.parameterName}:\\s*["'][^"']{0,500}["']\\s*,?`,
-                'g',
-              );
-
-        content = content.replace(paramPattern, '');
-
-        // Clean up any double commas or trailing commas
-        content = content.replace(/,\s*,/g, ',');
-
-        if (config.style === 'object') {
-          content = content.replace(/,(\s*)\}/g, '$1}');
-          content = content.replace(/\{\s*,/g, '{');
-        } else {
-          content = content.replace(/,(\s*)\)/g, '$1)');
-          content = content.replace(/\(\s*,/g, '(');
-        }
+// Tokens that are neither comments nor line breaks
+function isCode(token: PythonToken): boolean {
+  return token.type !== 'comment' && token.type !== 'newline';
+}
 
-        await fs.promises.writeFile(file, content, 'utf-8');
-      }
-    } catch (error) {
-      logToFile(`Failed to process file ${file} during cleanup:`, error);
-      debug(
-        `Skipping file ${file}: ${
-          error instanceof Error ? error.message : String(error)
-        }`,
-      );
+// Index of the keyword argument of a call, at the call's own nesting level
+function findKeywordArgument(
+  tokens: PythonToken[],
+  call: { open: number; close: number },
+  name: string,
+): number {
+  let depth = 0;
+  for (let i = call.open + 1; i < call.close; i++) {
+    const token = tokens[i];
+    if (token.type === 'op' && PYTHON_OPEN.has(token.value)) {
+      depth++;
+    } else if (token.type === 'op' && PYTHON_CLOSE.has(token.value)) {
+      depth--;
+    } else if (
+      depth === 0 &&
+      token.type === 'name' &&
+      token.value === name &&
+      tokens[i + 1]?.value === '='
+    ) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// The value of a plain (non-f, non-byte) Python string literal
+function parsePythonString(literal: string): string | undefined {
+  const match = /^([rRuU]?)('''|"""|'|")([\s\S]*)\2$/.exec(literal);
+  if (!match) {
+    return undefined;
+  }
+  return match[1].toLowerCase() === 'r'
+    ? match[3]
+    : match[3].replace(/\\(.)/g, '$1');
+}
+
+function addFunctionParameter(
+  source: string,
+  parameterName: string,
+  testUrl: string,
+): string {
+  const tokens = tokenizePython(source);
+  const edits: SourceEdit[] = [];
+  for (const call of findInitCalls(tokens)) {
+    if (findKeywordArgument(tokens, call, parameterName) !== -1) {
       continue;
     }
+    const parameter = `${parameterName}=${JSON.stringify(testUrl)}`;
+    // The end of the last argument, before any trailing comma or comment
+    let last = call.close - 1;
+    while (last > call.open && !isCode(tokens[last])) {
+      last--;
+    }
+    if (tokens[last].value === ',' && last > call.open) {
+      last--;
+      while (last > call.open && !isCode(tokens[last])) {
+        last--;
+      }
+    }
+    const position = tokens[last].end;
+    edits.push({
+      start: position,
+      end: position,
+      text: last === call.open ? parameter : `, ${parameter}`,
+    });
   }
+  return applyEdits(source, edits);
 }
 
-/**
- * Find all replacements needed in a file
- */
-function findReplacements(
-  content: string,
-  config: InjectorConfig,
-): Array<{ start: number; end: number; replacement: string }> {
-  const replacements: Array<{
-    start: number;
-    end: number;
-    replacement: string;
-  }> = [];
-  let match;
-
-  while ((match = config.searchRegex.exec(content)) !== null) {
-    const startPos = match.index;
-
-    if (config.style === 'object') {
-      const replacement = findObjectStyleReplacement(content, startPos, config);
-      if (replacement) replacements.push(replacement);
+function removeFunctionParameter(
+  source: string,
+  parameterName: string,
+  testUrl: string,
+): string {
+  const tokens = tokenizePython(source);
+  const edits: SourceEdit[] = [];
+  for (const call of findInitCalls(tokens)) {
+    const name = findKeywordArgument(tokens, call, parameterName);
+    const value = tokens[name + 2];
+    if (
+      name === -1 ||
+      value?.type !== 'string' ||
+      parsePythonString(value.value) !== testUrl
+    ) {
+      continue;
+    }
+
+    let previous = name - 1;
+    while (!isCode(tokens[previous])) {
+      previous--;
+    }
+    let next = name + 3;
+    while (next < call.close && !isCode(tokens[next])) {
+      next++;
+    }
+
+    if (tokens[previous].value === ',') {
+      // A later argument: remove it with the comma before it
+      edits.push({ start: tokens[previous].start, end: value.end, text: '' });
+    } else if (tokens[next].value === ',') {
+      // The first argument: remove it with the comma after it
+      let following = next + 1;
+      while (following < call.close && !isCode(tokens[following])) {
+        following++;
+      }
+      edits.push({
+        start: tokens[name].start,
+        end: tokens[following].start,
+        text: '',
+      });
     } else {
-      const replacement = findFunctionStyleReplacement(
-        content,
-        startPos,
-        config,
-      );
-      if (replacement) replacements.push(replacement);
+      edits.push({ start: tokens[name].start, end: value.end, text: '' });
     }
   }
+  return applyEdits(source, edits);
+}
+
+// ============================================================================
+// Injection
+// ============================================================================
 
-  return replacements;
+/**
+ * Add the test URL parameter to the SDK initializations in a source file.
+ * Calls that already have the parameter are left alone.
+ */
+export function addTestUrlParameter(
+  source: string,
+  style: InjectionStyle,
+  parameterName: string,
+  testUrl: string,
+): string {
+  return style === 'object'
+    ? addObjectParameter(source, parameterName, testUrl)
+    : addFunctionParameter(source, parameterName, testUrl);
 }
 
 /**
- * Find replacement for object-style initialization: new Raindrop({...})
+ * Remove the test URL parameter added by addTestUrlParameter. Only a
+ * parameter with the test URL as its value is removed.
  */
-function findObjectStyleReplacement(
-  content: string,
-  startPos: number,
-  config: InjectorConfig,
-): { start: number; end: number; replacement: string } | null {
-  const openBracePos = content.indexOf('{', startPos);
-
-  // Find matching closing brace by counting depth
-  let braceDepth = 0;
-  let endBracePos = -1;
-  let inString = false;
-  let stringChar = '';
-
-  for (let i = openBracePos; i < content.length; i++) {
-    const char = content[i];
-    const prevChar = i > 0 ? content[i - 1] : '';
-
-    // Track string state (single, double, or template literal)
-    if ((char === '"' || char === "'" || char === '`') && prevChar !== '\\') {
-      if (!inString) {
-        inString = true;
-        stringChar = char;
-      } else if (char === stringChar) {
-        inString = false;
-        stringChar = '';
-      }
-    }
+export function removeTestUrlParameter(
+  source: string,
+  style: InjectionStyle,
+  parameterName: string,
+  testUrl: string,
+): string {
+  return style === 'object'
+    ? removeObjectParameter(source, parameterName, testUrl)
+    : removeFunctionParameter(source, parameterName, testUrl);
+}
 
-    // Count braces when not in string
-    if (!inString) {
-      if (char === '{') braceDepth++;
-      if (char === '}') {
-        braceDepth--;
-        if (braceDepth === 0) {
-          endBracePos = i;
-          break;
-        }
-      }
-    }
+function getRecordPath(sessionId: string): string {
+  return path.join(getSessionDir(sessionId), TEST_URL_FILE);
+}
+
+function readRecord(recordPath: string): TestUrlRecord | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(recordPath, 'utf-8')) as TestUrlRecord;
+  } catch {
+    return undefined;
   }
+}
 
-  // After finding closing brace, verify next non-whitespace char is ')'
-  let endParenPos = -1;
-  if (endBracePos !== -1) {
-    for (let i = endBracePos + 1; i < content.length; i++) {
-      const char = content[i];
-      if (char === ')') {
-        endParenPos = i;
-        break;
-      }
-      if (!/\s/.test(char)) break;
+function restoreInjection(injection: TestUrlInjection): void {
+  let content: string;
+  try {
+    content = fs.readFileSync(injection.file, 'utf-8');
+  } catch {
+    return;
+  }
+
+  // A file changed during testing keeps its changes
+  const restored =
+    content === injection.injected
+      ? injection.original
+      : removeTestUrlParameter(
+          content,
+          injection.style,
+          injection.parameterName,
+          injection.testUrl,
+        );
+  if (restored !== content) {
+    fs.writeFileSync(injection.file, restored, 'utf-8');
+  }
+}
+
+function restoreRecord(recordPath: string): void {
+  const record = readRecord(recordPath);
+  for (const injection of record?.injections ?? []) {
+    try {
+      restoreInjection(injection);
+    } catch (error) {
+      logToFile(`Failed to remove the test URL from ${injection.file}:`, error);
     }
   }
+  fs.rmSync(recordPath, { force: true });
+}
 
-  if (endBracePos !== -1 && endParenPos !== -1) {
-    const innerContent = content.slice(openBracePos + 1, endBracePos);
-    const trimmed = innerContent.trim();
-    const needsComma = trimmed.length > 0 && !trimmed.endsWith(',');
-    const comma = needsComma ? ',' : '';
+const exitSignals: NodeJS.Signals[] = ['SIGINT', 'SIGTERM', 'SIGHUP'];
+let removeExitHandlers: (() => void) | undefined;
 
-    const patternMatch = content.slice(startPos).match(/^new\s+\w+\s*\(/);
-    const constructorCall = patternMatch
-      ? patternMatch[0].slice(0, -1)
-      : 'new Raindrop';
+/**
+ * Route the Raindrop SDK initializations in a project to a test ingestion
+ * URL until removeTestUrl is called or the process exits
+ */
+export async function addTestUrl(options: {
+  sessionId: string;
+  installDir: string;
+  testUrl: string;
+}): Promise<TestUrlInjection[]> {
+  const injections: TestUrlInjection[] = [];
+
+  for (const config of INJECTORS) {
+    const files = await glob(config.filePattern, {
+      cwd: options.installDir,
+      ignore: IGNORE_PATTERNS,
+      absolute: true,
+    });
+
+    for (const file of files) {
+      try {
+        const original = await fs.promises.readFile(file, 'utf-8');
+        if (!original.includes(config.searchPattern)) {
+          continue;
+        }
+        const injected = addTestUrlParameter(
+          original,
+          config.style,
+          config.parameterName,
+          options.testUrl,
+        );
+        if (injected !== original) {
+          injections.push({
+            file,
+            original,
+            injected,
+            style: config.style,
+            parameterName: config.parameterName,
+            testUrl: options.testUrl,
+          });
+        }
+      } catch (error) {
+        logToFile(`Failed to process file ${file} during setup:`, error);
+        debug(
+          `Skipping file ${file}: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        );
+      }
+    }
+  }
 
-    const replacement = `${constructorCall}({${innerContent}${comma}\n  ${config.parameterName}: "${config.testUrl}"\n})`;
+  if (injections.length === 0) {
+    return injections;
+  }
 
-    return {
-      start: startPos,
-      end: endParenPos + 1,
-      replacement,
-    };
+  // Record the injections before touching any file, so a crash can't leave
+  // one behind unnoticed
+  const recordPath = getRecordPath(options.sessionId);
+  await fs.promises.mkdir(path.dirname(recordPath), { recursive: true });
+  await fs.promises.writeFile(
+    recordPath,
+    JSON.stringify({ pid: process.pid, injections } satisfies TestUrlRecord),
+    'utf-8',
+  );
+
+  removeExitHandlers?.();
+  const onExit = () => removeTestUrl(options.sessionId);
+  const onSignal = (signal: NodeJS.Signals) => {
+    removeTestUrl(options.sessionId);
+    process.exit(
+      128 + (signal === 'SIGINT' ? 2 : signal === 'SIGHUP' ? 1 : 15),
+    );
+  };
+  process.on('exit', onExit);
+  exitSignals.forEach((signal) => process.once(signal, onSignal));
+  removeExitHandlers = () => {
+    process.removeListener('exit', onExit);
+    exitSignals.forEach((signal) => process.removeListener(signal, onSignal));
+    removeExitHandlers = undefined;
+  };
+
+  for (const injection of injections) {
+    await fs.promises.writeFile(injection.file, injection.injected, 'utf-8');
   }
+  return injections;
+}
 
-  return null;
+/**
+ * Remove the test URL added for a session. Synchronous, so it also runs
+ * when the process exits.
+ */
+export function removeTestUrl(sessionId: string): void {
+  removeExitHandlers?.();
+  restoreRecord(getRecordPath(sessionId));
 }
 
 /**
- * Find replacement for function-style initialization: raindrop.init(...)
+ * Remove test URLs left behind by wizard runs that were killed during
+ * testing. Runs of wizards that are still running are left alone.
  */
-function findFunctionStyleReplacement(
-  content: string,
-  startPos: number,
-  config: InjectorConfig,
-): { start: number; end: number; replacement: string } | null {
-  const openParenPos = content.indexOf('(', startPos);
-
-  // Find matching closing parenthesis by counting depth
-  let depth = 0;
-  let endPos = openParenPos;
-  let inString = false;
-  let stringChar = '';
-
-  for (let i = openParenPos; i < content.length; i++) {
-    const char = content[i];
-    const prevChar = i > 0 ? content[i - 1] : '';
-
-    // Track string state to ignore parentheses in strings
-    if ((char === '"' || char === "'") && prevChar !== '\\') {
-      if (!inString) {
-        inString = true;
-        stringChar = char;
-      } else if (char === stringChar) {
-        inString = false;
-        stringChar = '';
-      }
-    }
+export async function removeLeftoverTestUrls(): Promise<void> {
+  let sessionIds: string[];
+  try {
+    sessionIds = await fs.promises.readdir(
+      path.join(getStateDir(), 'sessions'),
+    );
+  } catch {
+    return;
+  }
 
-    // Count parentheses when not in string
-    if (!inString) {
-      if (char === '(') depth++;
-      if (char === ')') {
-        depth--;
-        if (depth === 0) {
-          endPos = i;
-          break;
-        }
-      }
+  for (const sessionId of sessionIds) {
+    const recordPath = getRecordPath(sessionId);
+    const record = readRecord(recordPath);
+    if (!record || isRunning(record.pid)) {
+      continue;
     }
+    logToFile(`Removing the test URL left behind by session ${sessionId}`);
+    restoreRecord(recordPath);
   }
+}
 
-  if (depth === 0 && endPos > openParenPos) {
-    const innerContent = content.slice(openParenPos + 1, endPos);
-    const trimmed = innerContent.trim();
-    const needsComma = trimmed.length > 0 && !trimmed.endsWith(',');
-    const comma = needsComma ? ', ' : '';
-
-    const functionName = content
-      .slice(startPos, openParenPos)
-      .replace(/\s+$/, '');
-    const replacement = `${functionName}(${innerContent}${comma}\n            ${config.parameterName}="${config.testUrl}")`;
-
-    return {
-      start: startPos,
-      end: endPos + 1,
-      replacement,
-    };
+function isRunning(pid: number): boolean {
+  if (pid === process.pid) {
+    return false;
+  }
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
   }
-
-  return null;
 }
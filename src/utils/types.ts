@@ -1,3 +1,10 @@
+import type { WizardAnswers } from './answers.js';
+import type { WorkspaceTarget } from '../lib/workspaces.js';
+import type { CombinedRun } from '../lib/agent-runner.js';
+import type { Checkpoint } from './checkpoint.js';
+import type { LoginMethod } from './oauth.js';
+import type { LlmProvider } from '../lib/constants.js';
+
 export type RaindropProjectData = Record<string, unknown>;
 
 export type PreselectedProject = {
@@ -35,6 +42,106 @@ export type WizardOptions = {
    */
   default: boolean;
 
+  /**
+   * Whether the wizard runs headless (CI mode): prompts are answered by a
+   * policy instead of a user and progress is printed as plain text.
+   */
+  ci: boolean;
+
+  /**
+   * Whether the agent works on a temporary copy of the project and the
+   * changes are emitted as a patch instead of being applied (--dry-run).
+   * installDir points at the temporary copy during a dry run.
+   */
+  dryRun: boolean;
+
+  /**
+   * Write key to use instead of retrieving one after a browser login
+   * (--api-key). Requires accessToken.
+   */
+  apiKey?: string;
+
+  /**
+   * Personal access token used with apiKey instead of a browser login
+   * (--access-token)
+   */
+  accessToken?: string;
+
+  /**
+   * Where the agent's LLM requests go (--llm-provider). Defaults to the
+   * Raindrop proxy.
+   */
+  llmProvider?: LlmProvider;
+
+  /**
+   * Model the agent uses (--model). Defaults to DEFAULT_AGENT_MODEL.
+   */
+  model?: string;
+
+  /**
+   * Verify the integration with an automated smoke test instead of the
+   * interactive test phase (--verify)
+   */
+  verify?: boolean;
+
+  /**
+   * Command that runs the smoke test (--verify-command). By default the
+   * agent writes and runs one.
+   */
+  verifyCommand?: string;
+
+  /**
+   * Seconds to wait for the smoke test's event (--verify-timeout)
+   */
+  verifyTimeout?: number;
+
+  /**
+   * Receive the project's OTLP traces locally in the testing phase
+   * (--otlp-receiver)
+   */
+  otlpReceiver?: boolean;
+
+  /**
+   * Ingestion URL the Raindrop SDK is routed to during the testing phase
+   * (--test-url). Defaults to the ingestUrl of the endpoint profile.
+   */
+  testUrl?: string;
+
+  /**
+   * Raindrop organization (id or name) to set up, instead of asking when
+   * the user belongs to several (--org)
+   */
+  org?: string;
+
+  /**
+   * How the user logs in if there are no stored credentials (--login-method)
+   */
+  loginMethod?: LoginMethod | 'auto';
+
+  /**
+   * The monorepo package this run is scoped to. installDir points at the
+   * package directory; commands are run from the workspace root.
+   */
+  workspace?: WorkspaceTarget;
+
+  /**
+   * Set when several integrations are set up in one run: each integration's
+   * agent is collected here, and testing and the outro happen once at the
+   * end.
+   */
+  combinedRun?: CombinedRun;
+
+  /**
+   * The checkpoint of the session being continued with `wizard resume`
+   */
+  checkpoint?: Checkpoint;
+
+  /**
+   * Pre-answered prompts loaded from the --answers file.
+   * Prompts without an answer fall back to interactive mode.
+   */
+  answers?: WizardAnswers;
+
   /**
    * Unique session ID (UUID) generated at wizard startup.
    * Used to identify events from this wizard run.
@@ -7,6 +7,9 @@
  * 1. Call initWizardUI() once at startup (in bin.ts)
  * 2. Use ui.addItem(), ui.select(), ui.text(), etc.
  * 3. The app unmounts when you call ui.exit()
+ *
+ * In CI mode, initWizardUI({ headless }) swaps the Ink app for a headless
+ * responder that answers prompts from a policy and prints plain text.
  */
 
 import {
@@ -16,8 +19,10 @@ import {
   type WizardInstance,
 } from '../ui/render.js';
 import { isCancel, CANCEL_SYMBOL } from '../ui/cancellation.js';
+import { createHeadlessActions, type HeadlessPolicy } from '../ui/headless.js';
 import type {
   SelectOptions,
+  MultiSelectOptions,
   TextOptions,
   SpinnerInstance,
   ToolApprovalProps,
@@ -32,11 +37,13 @@ import type {
 import type {
   HistoryItemInput,
   AgentState,
+  WizardActions,
 } from '../ui/contexts/WizardContext.js';
 
 // Re-export types for convenience
 export type {
   SelectOptions,
+  MultiSelectOptions,
   TextOptions,
   SpinnerInstance,
   HistoryItemInput,
@@ -55,24 +62,65 @@ export { isCancel, CANCEL_SYMBOL };
 // Global wizard instance
 let wizardInstance: WizardInstance | null = null;
 
+// Headless actions used instead of the Ink app in CI mode
+let headlessActions: WizardActions | null = null;
+let headlessPolicy: HeadlessPolicy | null = null;
+
+/**
+ * Create a WizardInstance backed by headless actions (nothing to render)
+ */
+function startHeadlessUI(policy: HeadlessPolicy): WizardInstance {
+  headlessPolicy = policy;
+  headlessActions = createHeadlessActions(policy);
+  return {
+    waitUntilExit: () => Promise.resolve(),
+    unmount: () => {
+      headlessActions = null;
+    },
+    clear: () => {
+      // Nothing rendered in headless mode
+    },
+    get actions() {
+      return headlessActions;
+    },
+    waitUntilReady: () => Promise.resolve(),
+  };
+}
+
 /**
  * Initialize the wizard UI. Must be called before using any prompts.
  * Returns a promise that resolves when the wizard is ready.
+ * Pass a headless policy to run without a TTY (CI mode).
  */
-export async function initWizardUI(): Promise<WizardInstance> {
+export async function initWizardUI(options?: {
+  headless?: HeadlessPolicy;
+}): Promise<WizardInstance> {
   if (wizardInstance) {
     return wizardInstance;
   }
-  wizardInstance = startWizardUI();
+  wizardInstance = options?.headless
+    ? startHeadlessUI(options.headless)
+    : startWizardUI();
   await wizardInstance.waitUntilReady();
   return wizardInstance;
 }
 
+/**
+ * Update the headless policy, e.g. when the agent works in a different
+ * directory during a dry run. No-op outside CI mode.
+ */
+export function updateHeadlessPolicy(update: Partial<HeadlessPolicy>): void {
+  if (headlessPolicy && headlessActions) {
+    headlessPolicy = { ...headlessPolicy, ...update };
+    headlessActions = createHeadlessActions(headlessPolicy);
+  }
+}
+
 /**
  * Get actions, throws if wizard hasn't been started.
  */
 function getActions() {
-  const actions = getWizardActions();
+  const actions = headlessActions ?? getWizardActions();
   if (!actions) {
     throw new Error(
       'Wizard UI not initialized. Call initWizardUI() first (usually in bin.ts)',
@@ -103,6 +151,15 @@ export async function select<T>(
   return getActions().select(options);
 }
 
+/**
+ * Display a multi-select prompt and return the checked values.
+ */
+export async function multiSelect<T>(
+  options: MultiSelectOptions<T>,
+): Promise<T[] | symbol> {
+  return getActions().multiSelect(options);
+}
+
 /**
  * Display a text input prompt and return the entered value.
  */
@@ -129,6 +186,13 @@ export function exit(): void {
  */
 export { isWizardRunning };
 
+/**
+ * Check if the wizard runs headless (CI mode), where nobody answers prompts.
+ */
+export function isHeadless(): boolean {
+  return headlessActions !== null;
+}
+
 // ============================================================================
 // Agent-related functions
 // ============================================================================
@@ -207,11 +271,13 @@ const ui = {
   initWizardUI,
   addItem,
   select,
+  multiSelect,
   text,
   spinner,
   exit,
   isCancel,
   isWizardRunning,
+  isHeadless,
   // Agent-related functions
   toolApproval,
   clarifyingQuestions,